@@ -0,0 +1,24 @@
+import { handleOcrRequest } from '../server/ocrProxy';
+import type { OcrProxyEnv } from '../server/ocrProxy';
+import { parseModelList } from '../server/visionProviders';
+import { parsePromptOverrides } from '../server/prompts';
+
+const env = (): OcrProxyEnv => ({
+  provider: process.env.OCR_PROVIDER,
+  apiKey: process.env.OCR_PROVIDER === 'openai-compatible' ? process.env.OCR_API_KEY : process.env.OPENROUTER_API_KEY,
+  baseUrl: process.env.OCR_BASE_URL,
+  model: process.env.OCR_MODEL || process.env.OPENROUTER_MODEL,
+  models: parseModelList(process.env.OCR_MODELS),
+  mock: process.env.OCR_MOCK === 'true',
+  prompts: parsePromptOverrides(process.env),
+});
+
+// Vercel serverless function: POST /api/ocr
+export async function POST(request: Request): Promise<Response> {
+  return handleOcrRequest(request, env());
+}
+
+// GET /api/ocr: selectable models and prices
+export async function GET(request: Request): Promise<Response> {
+  return handleOcrRequest(request, env());
+}
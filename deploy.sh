@@ -22,7 +22,7 @@ echo ""
 echo "✅ Deployment complete!"
 echo ""
 echo "⚠️  IMPORTANT: Don't forget to add your environment variable in Vercel dashboard:"
-echo "   Variable: VITE_OPENROUTER_API_KEY"
+echo "   Variable: OPENROUTER_API_KEY"
 echo "   Value: Your OpenRouter API key"
 echo ""
 echo "📱 Your app is ready at the URL shown above!"
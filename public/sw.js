@@ -0,0 +1,86 @@
+// App-shell service worker: the scanner loads and decodes barcodes with no signal.
+// AI requests are never cached - the page queues them in IndexedDB instead.
+
+const CACHE = 'barcode-scanner-v2';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon-192.png', '/icon-512.png'];
+
+// Tesseract worker, core and language data come from a CDN; cache them so
+// local OCR also works offline once it has been used
+const CDN_HOSTS = ['cdn.jsdelivr.net'];
+
+// The first visit loads the hashed bundles before this worker controls the page,
+// so read them off the built index.html; lazy chunks are cached when first used
+const precacheAssets = async cache => {
+  const response = await cache.match('/index.html');
+  if (!response) return;
+  const html = await response.text();
+  const assets = [...new Set(html.match(/\/assets\/[^"'\s)]+/g) ?? [])];
+  await cache.addAll(assets);
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(cache => cache.addAll(SHELL).then(() => precacheAssets(cache)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Prefer the network so deploys show up, falling back to the cached copy.
+// Error pages are passed through but never replace a good cached copy.
+const networkFirst = async (request, cacheKey = request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      cache.put(cacheKey, response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match(cacheKey)) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/api/')) return;
+    // Hashed build assets never change, so cache-first is safe; the rest
+    // (manifest, icons) keep their names across deploys
+    event.respondWith(url.pathname.startsWith('/assets/') ? cacheFirst(request) : networkFirst(request));
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,80 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { handleOcrRequest } from './ocrProxy';
+import type { OcrProxyEnv } from './ocrProxy';
+import { parseModelList } from './visionProviders';
+import { parsePromptOverrides } from './prompts';
+import { createMockWebhookReceiver } from './mockWebhook';
+
+// Serves /api/ocr from the Vite dev server so the proxy flow works locally.
+// Without an upstream configured (or with OCR_MOCK=true) it answers with
+// canned mock responses, so the app is fully testable offline.
+// Also hosts /api/mock-webhook, a fake intake endpoint for webhook testing.
+
+const toRequest = async (req: IncomingMessage): Promise<Request> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([key, value]) => {
+    if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+  });
+  headers.set('x-forwarded-for', req.socket.remoteAddress || 'local');
+
+  return new Request(`http://localhost${req.url}`, {
+    method: req.method,
+    headers,
+    body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks),
+  });
+};
+
+const sendResponse = async (res: ServerResponse, response: Response) => {
+  res.statusCode = response.status;
+  response.headers.forEach((value, key) => res.setHeader(key, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+export const devApiPlugin = (env: Record<string, string>): Plugin => {
+  const compatible = env.OCR_PROVIDER === 'openai-compatible';
+  const proxyEnv: OcrProxyEnv = {
+    provider: env.OCR_PROVIDER,
+    apiKey: compatible ? env.OCR_API_KEY : env.OPENROUTER_API_KEY,
+    baseUrl: env.OCR_BASE_URL,
+    model: env.OCR_MODEL || env.OPENROUTER_MODEL,
+    models: parseModelList(env.OCR_MODELS),
+    // A local OpenAI-compatible server needs no key
+    mock: env.OCR_MOCK === 'true' || (!compatible && !env.OPENROUTER_API_KEY),
+    prompts: parsePromptOverrides(env),
+  };
+
+  const mockWebhook = createMockWebhookReceiver({ secret: env.WEBHOOK_MOCK_SECRET });
+
+  return {
+    name: 'dev-api',
+    configureServer(server) {
+      if (proxyEnv.mock) {
+        server.config.logger.info('  ➜  /api/ocr: serving mock OCR responses');
+      }
+
+      server.middlewares.use('/api/ocr', async (req, res) => {
+        try {
+          await sendResponse(res, await handleOcrRequest(await toRequest(req), proxyEnv));
+        } catch (err) {
+          console.error('Dev OCR proxy error:', err);
+          res.statusCode = 502;
+          res.end(JSON.stringify({ error: { message: 'Proxy error' } }));
+        }
+      });
+
+      server.middlewares.use('/api/mock-webhook', async (req, res) => {
+        try {
+          await sendResponse(res, await mockWebhook(await toRequest(req)));
+        } catch (err) {
+          console.error('Dev mock webhook error:', err);
+          res.statusCode = 500;
+          res.end(JSON.stringify({ error: { message: 'Mock webhook error' } }));
+        }
+      });
+    },
+  };
+};
@@ -0,0 +1,90 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// Local stand-in for an ERP intake endpoint, for testing webhook delivery.
+// POST records the delivery (verifying the HMAC signature when a secret is set),
+// GET lists what was received. Add ?fail=N to reject the first N attempts of each
+// delivery with a 503, or ?status=400 to always answer with that status.
+
+const MAX_RECORDS = 50;
+
+export interface MockWebhookOptions {
+  secret?: string;
+}
+
+export interface ReceivedWebhook {
+  deliveryId: string | null;
+  receivedAt: string;
+  signature: 'valid' | 'invalid' | 'missing' | 'not-checked';
+  body: unknown;
+}
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const checkSignature = (secret: string | undefined, request: Request, raw: string): ReceivedWebhook['signature'] => {
+  if (!secret) return 'not-checked';
+
+  const header = request.headers.get('x-scanner-signature');
+  const timestamp = request.headers.get('x-scanner-timestamp');
+  if (!header || !timestamp) return 'missing';
+
+  const expected = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${raw}`).digest('hex')}`;
+  const a = Buffer.from(header);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b) ? 'valid' : 'invalid';
+};
+
+export const createMockWebhookReceiver = ({ secret }: MockWebhookOptions = {}) => {
+  const received: ReceivedWebhook[] = [];
+  const attempts = new Map<string, number>();
+
+  return async (request: Request): Promise<Response> => {
+    if (request.method === 'GET') {
+      return json(200, { received });
+    }
+    if (request.method === 'DELETE') {
+      received.length = 0;
+      attempts.clear();
+      return json(200, { cleared: true });
+    }
+    if (request.method !== 'POST') {
+      return json(405, { error: 'Method not allowed' });
+    }
+
+    const url = new URL(request.url);
+    const deliveryId = request.headers.get('x-scanner-delivery');
+    const forcedStatus = Number(url.searchParams.get('status'));
+    const failFirst = Number(url.searchParams.get('fail')) || 0;
+
+    if (forcedStatus >= 400) {
+      return json(forcedStatus, { error: `Forced ${forcedStatus}` });
+    }
+
+    const attempt = (attempts.get(deliveryId ?? '') ?? 0) + 1;
+    attempts.set(deliveryId ?? '', attempt);
+    if (attempt <= failFirst) {
+      return json(503, { error: `Simulated failure ${attempt}/${failFirst}` });
+    }
+
+    const raw = await request.text();
+    const signature = checkSignature(secret, request, raw);
+    if (signature === 'invalid' || signature === 'missing') {
+      return json(401, { error: `Signature ${signature}` });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return json(400, { error: 'Body must be JSON' });
+    }
+
+    received.unshift({ deliveryId, receivedAt: new Date().toISOString(), signature, body });
+    received.length = Math.min(received.length, MAX_RECORDS);
+
+    return json(200, { ok: true, deliveryId, attempt });
+  };
+};
@@ -0,0 +1,139 @@
+import { createRateLimiter } from './rateLimit';
+import { createProvider } from './visionProviders';
+import type { ProviderEnv } from './visionProviders';
+import { DEFAULT_PROMPTS, PROMPT_KINDS, PROMPT_MAX_TOKENS, checkCustomPrompt } from './prompts';
+import type { PromptKind } from './prompts';
+
+// Server-side proxy for vision OCR requests. The browser sends the kind of
+// reading it wants and a JPEG; the API key, upstream provider and limits stay
+// on the server. The client may pick a model, but only from the provider's
+// allowed list, and send its own prompt template, but only one that passes
+// the checks for its kind.
+
+export const MAX_BODY_BYTES = 4 * 1024 * 1024;  // Vercel rejects bodies over 4.5 MB anyway
+const RATE_LIMIT_MAX = 30;                      // Requests per client per window
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+export interface OcrProxyEnv extends ProviderEnv {
+  prompts?: Partial<Record<PromptKind, string>>;  // Operator overrides of the built-in prompts
+}
+
+interface OcrProxyRequest {
+  model?: string;       // Defaults to the provider's default model
+  kind: PromptKind;
+  prompt?: string;      // User template; defaults to the server's prompt for kind
+  image: string;        // Base64 JPEG without the data: prefix
+  maxTokens: number;
+  temperature: number;
+}
+
+const limiter = createRateLimiter(RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS);
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const errorResponse = (status: number, message: string, headers?: Record<string, string>) =>
+  json(status, { error: { message } }, headers);
+
+export const getClientId = (request: Request): string =>
+  request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+  || request.headers.get('x-real-ip')
+  || 'unknown';
+
+const parseBody = (raw: string): OcrProxyRequest | string => {
+  let body: Partial<OcrProxyRequest>;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return 'Body must be JSON';
+  }
+
+  const kind = body.kind as PromptKind;
+  if (!PROMPT_KINDS.includes(kind)) return `kind must be one of ${PROMPT_KINDS.join(', ')}`;
+  if (typeof body.image !== 'string' || !/^[A-Za-z0-9+/=]+$/.test(body.image)) return 'image must be base64';
+  if (body.model !== undefined && typeof body.model !== 'string') return 'model must be a string';
+  if (body.prompt !== undefined) {
+    const problem = checkCustomPrompt(kind, body.prompt);
+    if (problem) return problem;
+  }
+
+  return {
+    model: body.model || undefined,
+    kind,
+    prompt: body.prompt,
+    image: body.image,
+    maxTokens: Math.min(Math.max(Number(body.maxTokens) || 500, 1), PROMPT_MAX_TOKENS[kind]),
+    // 0 is a valid temperature, so only fall back when it's missing
+    temperature: typeof body.temperature === 'number' && Number.isFinite(body.temperature)
+      ? Math.min(Math.max(body.temperature, 0), 1)
+      : 0.1,
+  };
+};
+
+export const handleOcrRequest = async (request: Request, env: OcrProxyEnv): Promise<Response> => {
+  const provider = createProvider(env);
+
+  // GET lists the selectable models, their prices and the default prompt
+  // templates for the settings panel
+  if (request.method === 'GET') {
+    return typeof provider === 'string'
+      ? errorResponse(500, provider)
+      : json(200, {
+          provider: provider.id,
+          defaultModel: provider.defaultModel,
+          models: provider.models,
+          prompts: { ...DEFAULT_PROMPTS, ...env.prompts },
+        });
+  }
+
+  if (request.method !== 'POST') {
+    return errorResponse(405, 'Method not allowed', { Allow: 'GET, POST' });
+  }
+
+  const limit = limiter.check(getClientId(request));
+  if (!limit.allowed) {
+    return errorResponse(429, 'Too many requests', { 'Retry-After': String(limit.retryAfterSeconds) });
+  }
+
+  const declaredLength = Number(request.headers.get('content-length') || 0);
+  if (declaredLength > MAX_BODY_BYTES) {
+    return errorResponse(413, 'Image too large');
+  }
+
+  const raw = await request.text();
+  if (raw.length > MAX_BODY_BYTES) {
+    return errorResponse(413, 'Image too large');
+  }
+
+  const body = parseBody(raw);
+  if (typeof body === 'string') {
+    return errorResponse(400, body);
+  }
+
+  if (typeof provider === 'string') {
+    return errorResponse(500, provider);
+  }
+
+  const model = body.model ?? provider.defaultModel;
+  if (!provider.models.some(m => m.id === model)) {
+    return errorResponse(400, `Model "${model}" is not allowed`);
+  }
+
+  const prompt = body.prompt || env.prompts?.[body.kind] || DEFAULT_PROMPTS[body.kind];
+  const upstream = await provider.complete(
+    { model, prompt, image: body.image, maxTokens: body.maxTokens, temperature: body.temperature },
+    request.headers.get('referer') || ''
+  );
+
+  // Pass the upstream response through unchanged so the client parses one format
+  return new Response(await upstream.text(), {
+    status: upstream.status,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-RateLimit-Remaining': String(limit.remaining),
+    },
+  });
+};
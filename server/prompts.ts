@@ -0,0 +1,84 @@
+// Prompt templates for each kind of /api/ocr request. Operators may replace
+// one with an OCR_PROMPT_<KIND> variable, and users may send their own
+// template, which is only accepted if it passes checkCustomPrompt so the
+// proxy can't be used as an open relay.
+
+export type PromptKind = 'text' | 'product' | 'document' | 'barcode';
+
+export const PROMPT_KINDS: PromptKind[] = ['text', 'product', 'document', 'barcode'];
+
+export const DEFAULT_PROMPTS: Record<PromptKind, string> = {
+  text: 'You are an expert OCR system. Extract ALL text visible in this image. Read everything - words, numbers, labels, signs, product names, brands, prices, dates, addresses, handwriting, printed text, etc. Even if text is blurry, tilted, small, faded, or partially obscured - do your best to read it. Format the output as plain text, preserving line breaks where appropriate. If you see NOTHING readable at all, return the text "NO_TEXT_FOUND".',
+
+  product: `You are a product label reader. Read the product packaging in this image and return ONLY a JSON object, with no markdown and no commentary, using exactly these keys:
+{
+  "productName": string | null,
+  "brand": string | null,
+  "price": number | null,
+  "currency": string | null,
+  "netContent": string | null,
+  "expiryDate": string | null,
+  "lotNumber": string | null,
+  "ingredients": string[] | null
+}
+Rules: "price" is a plain number using a dot as decimal separator. "currency" is an ISO 4217 code (EUR, USD, GBP...). "netContent" is the weight or volume as printed, e.g. "500 g" or "1.5 L". "expiryDate" is the best-before/use-by date formatted YYYY-MM-DD. "lotNumber" is the batch/lot code. "ingredients" lists each ingredient separately. Use null for anything not visible. Even if text is blurry or partially obscured, do your best.`,
+
+  document: `You are a document reader for goods-in and bookkeeping. The image shows a receipt, delivery note or invoice, already cropped and flattened. Return ONLY a JSON object, with no markdown and no commentary, using exactly these keys:
+{
+  "documentType": "receipt" | "delivery-note" | "invoice" | "other",
+  "vendor": string | null,
+  "documentNumber": string | null,
+  "date": string | null,
+  "currency": string | null,
+  "subtotal": number | null,
+  "tax": number | null,
+  "total": number | null,
+  "lineItems": [{ "description": string, "sku": string | null, "quantity": number | null, "unitPrice": number | null, "lineTotal": number | null }]
+}
+Rules: "vendor" is the issuing company or shop. "documentNumber" is the receipt, delivery note or invoice number. "date" is the document date formatted YYYY-MM-DD. "currency" is an ISO 4217 code. All amounts are plain numbers using a dot as decimal separator. "lineItems" has one entry per printed line item, in order, without subtotal, tax, discount or payment lines; "sku" is the article number or code printed on the line. Delivery notes often have no prices - use null. Use null for anything not visible and never invent lines.`,
+
+  barcode: `You are a barcode reader. This image shows a barcode that scanners failed to decode - it may be worn, torn, blurry, tilted or partially covered. Read the barcode and return ONLY a JSON object, with no markdown and no commentary, using exactly these keys:
+{
+  "barcode": string | null,
+  "format": string | null,
+  "text": string | null
+}
+Rules: "barcode" is the encoded value, usually the human-readable digits printed below or beside the bars - include every digit, with no spaces. "format" is your best guess of the symbology: EAN_13, EAN_8, UPC_A, UPC_E, ITF, CODE_128, CODE_39, QR_CODE, DATA_MATRIX or PDF_417. "text" is any other readable text on the label (product name, brand, price). Use null for anything you cannot read. Never guess missing digits - return null instead.`,
+};
+
+// Reply limits per kind; a client may ask for less, never more
+export const PROMPT_MAX_TOKENS: Record<PromptKind, number> = {
+  text: 1000,
+  product: 1000,
+  document: 4000,  // Room for long delivery notes
+  barcode: 500,
+};
+
+// OCR_PROMPT_TEXT, OCR_PROMPT_PRODUCT, ... from the server environment
+export const parsePromptOverrides = (env: Record<string, string | undefined>): Partial<Record<PromptKind, string>> =>
+  Object.fromEntries(
+    PROMPT_KINDS
+      .map(kind => [kind, env[`OCR_PROMPT_${kind.toUpperCase()}`]?.trim()])
+      .filter(([, prompt]) => prompt)
+  );
+
+export const MAX_PROMPT_CHARS = 4000;
+
+// JSON keys the client parses from each structured reply
+export const PROMPT_REQUIRED_KEYS: Record<PromptKind, string[]> = {
+  text: [],
+  product: ['productName', 'brand', 'price', 'currency', 'netContent', 'expiryDate', 'lotNumber', 'ingredients'],
+  document: ['documentType', 'vendor', 'documentNumber', 'date', 'currency', 'subtotal', 'tax', 'total', 'lineItems'],
+  barcode: ['barcode', 'format', 'text'],
+};
+
+// Why a user template can't be used for kind, or null if it can
+export const checkCustomPrompt = (kind: PromptKind, prompt: unknown): string | null => {
+  if (typeof prompt !== 'string' || !prompt.trim()) return 'prompt must be a non-empty string';
+  if (prompt.length > MAX_PROMPT_CHARS) return `prompt must be at most ${MAX_PROMPT_CHARS} characters`;
+
+  const missing = PROMPT_REQUIRED_KEYS[kind].filter(key => !prompt.includes(`"${key}"`));
+  return missing.length > 0
+    ? `The ${kind} prompt must ask for the JSON keys ${missing.map(key => `"${key}"`).join(', ')}`
+    : null;
+};
@@ -0,0 +1,41 @@
+// Fixed-window request counter keyed by client id. State lives in memory, so on
+// serverless hosts the limit applies per warm instance - a coarse abuse guard,
+// not a billing control.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check(clientId: string, now?: number): RateLimitResult;
+}
+
+export const createRateLimiter = (max: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    check(clientId, now = Date.now()) {
+      // Drop expired windows so the map can't grow without bound
+      if (windows.size > 10_000) {
+        windows.forEach((entry, key) => {
+          if (now - entry.start >= windowMs) windows.delete(key);
+        });
+      }
+
+      let entry = windows.get(clientId);
+      if (!entry || now - entry.start >= windowMs) {
+        entry = { start: now, count: 0 };
+        windows.set(clientId, entry);
+      }
+
+      entry.count++;
+      return {
+        allowed: entry.count <= max,
+        remaining: Math.max(0, max - entry.count),
+        retryAfterSeconds: Math.ceil((entry.start + windowMs - now) / 1000),
+      };
+    },
+  };
+};
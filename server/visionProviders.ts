@@ -0,0 +1,193 @@
+// Upstream vision providers behind the /api/ocr proxy. Every provider speaks
+// the OpenAI chat-completions format, so the client parses a single shape.
+
+export type ProviderId = 'openrouter' | 'openai-compatible' | 'mock';
+
+export interface ModelInfo {
+  id: string;
+  inputPrice: number;   // USD per million prompt tokens
+  outputPrice: number;  // USD per million completion tokens
+}
+
+export interface VisionRequest {
+  model: string;
+  prompt: string;
+  image: string;        // Base64 JPEG without the data: prefix
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface VisionProvider {
+  readonly id: ProviderId;
+  readonly defaultModel: string;
+  readonly models: ModelInfo[];  // Models clients may select
+  complete(request: VisionRequest, referer: string): Promise<Response>;
+}
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const DEFAULT_OPENROUTER_MODEL = 'openai/gpt-4o-mini';
+
+// Approximate list prices; OpenRouter's own usage.cost takes precedence on the client
+const KNOWN_PRICES: Record<string, Omit<ModelInfo, 'id'>> = {
+  'openai/gpt-4o-mini': { inputPrice: 0.15, outputPrice: 0.6 },
+  'openai/gpt-4o': { inputPrice: 2.5, outputPrice: 10 },
+  'google/gemini-2.0-flash-001': { inputPrice: 0.1, outputPrice: 0.4 },
+  'google/gemini-2.0-flash-lite-001': { inputPrice: 0.075, outputPrice: 0.3 },
+};
+
+const DEFAULT_OPENROUTER_MODELS = Object.keys(KNOWN_PRICES);
+
+// Unknown and self-hosted models are treated as free
+const modelInfo = (id: string): ModelInfo => ({ id, ...(KNOWN_PRICES[id] ?? { inputPrice: 0, outputPrice: 0 }) });
+
+const chatBody = ({ model, prompt, image, maxTokens, temperature }: VisionRequest) => ({
+  model,
+  messages: [
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: prompt },
+        { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${image}` } },
+      ],
+    },
+  ],
+  max_tokens: maxTokens,
+  temperature,
+});
+
+export const createOpenRouterProvider = (apiKey: string, defaultModel?: string, models?: string[]): VisionProvider => {
+  const model = defaultModel || DEFAULT_OPENROUTER_MODEL;
+  const ids = [...new Set([model, ...(models?.length ? models : DEFAULT_OPENROUTER_MODELS)])];
+
+  return {
+    id: 'openrouter',
+    defaultModel: model,
+    models: ids.map(modelInfo),
+    complete: (request, referer) => fetch(OPENROUTER_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+        'HTTP-Referer': referer,
+      },
+      // usage.include makes OpenRouter report the exact cost of the call
+      body: JSON.stringify({ ...chatBody(request), usage: { include: true } }),
+    }),
+  };
+};
+
+// Any OpenAI-compatible server: OpenAI itself, Ollama (http://localhost:11434/v1),
+// llama.cpp's llama-server, vLLM, LM Studio...
+export const createOpenAICompatibleProvider = (baseUrl: string, apiKey: string | undefined, models: string[]): VisionProvider => ({
+  id: 'openai-compatible',
+  defaultModel: models[0],
+  models: models.map(modelInfo),
+  complete: request => fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(chatBody(request)),
+  }),
+});
+
+const MOCK_PRODUCT = {
+  productName: 'Mock Organic Oat Drink',
+  brand: 'Mockery Farms',
+  price: 2.49,
+  currency: 'EUR',
+  netContent: '1 L',
+  expiryDate: '2030-01-31',
+  lotNumber: 'L12345',
+  ingredients: ['water', 'oats (10%)', 'sunflower oil', 'sea salt'],
+};
+
+const MOCK_DOCUMENT = {
+  documentType: 'delivery-note',
+  vendor: 'Mock Wholesale Ltd',
+  documentNumber: 'DN-10042',
+  date: '2030-01-15',
+  currency: 'EUR',
+  subtotal: 41.4,
+  tax: null,
+  total: 41.4,
+  lineItems: [
+    { description: 'Organic Oat Drink 1 L', sku: '4006381333931', quantity: 12, unitPrice: 1.95, lineTotal: 23.4 },
+    { description: 'Rye Crackers 250 g', sku: 'RC-250', quantity: 6, unitPrice: 3, lineTotal: 18 },
+  ],
+};
+
+const MOCK_BARCODE = { barcode: '4006381333931', format: 'EAN_13', text: 'Mock label' };
+
+// Answers in the shape the prompt asks for, so every client mode can be exercised offline
+const mockReply = (prompt: string) => {
+  if (prompt.includes('"productName"')) return JSON.stringify(MOCK_PRODUCT);
+  if (prompt.includes('"lineItems"')) return JSON.stringify(MOCK_DOCUMENT);
+  if (prompt.includes('"barcode"')) return JSON.stringify(MOCK_BARCODE);
+  return `MOCK OCR RESULT\nPrompt length: ${prompt.length}\n${new Date().toISOString()}`;
+};
+
+// Rough token counts (~4 characters per token, flat cost per image) so the
+// client's cost meter has something to show in mock mode
+export const mockCompletion = (prompt: string, model = 'mock') => {
+  const content = mockReply(prompt);
+  const promptTokens = Math.ceil(prompt.length / 4) + 85;
+  const completionTokens = Math.ceil(content.length / 4);
+  return {
+    id: `mock-${Date.now()}`,
+    model,
+    choices: [{
+      message: {
+        role: 'assistant',
+        content,
+      },
+    }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+  };
+};
+
+export const createMockProvider = (): VisionProvider => ({
+  id: 'mock',
+  defaultModel: 'mock',
+  models: [modelInfo('mock')],
+  complete: async request => new Response(JSON.stringify(mockCompletion(request.prompt, request.model)), {
+    headers: { 'Content-Type': 'application/json' },
+  }),
+});
+
+export interface ProviderEnv {
+  provider?: string;    // openrouter (default) | openai-compatible | mock
+  apiKey?: string;      // OpenRouter key, or the compatible server's key
+  baseUrl?: string;     // Base URL for openai-compatible, e.g. http://localhost:11434/v1
+  model?: string;       // Default model
+  models?: string[];    // Models clients may choose from
+  // Return canned responses instead of calling upstream (local development/tests)
+  mock?: boolean;
+}
+
+// Resolve the configured provider, or an error message explaining what's missing
+export const createProvider = (env: ProviderEnv): VisionProvider | string => {
+  if (env.mock || env.provider === 'mock') return createMockProvider();
+
+  switch (env.provider || 'openrouter') {
+    case 'openrouter':
+      return env.apiKey
+        ? createOpenRouterProvider(env.apiKey, env.model, env.models)
+        : 'OCR proxy is not configured';
+
+    case 'openai-compatible': {
+      if (!env.baseUrl) return 'OCR_BASE_URL is required for the openai-compatible provider';
+      const models = [...new Set([env.model, ...(env.models ?? [])].filter((id): id is string => !!id))];
+      return models.length > 0
+        ? createOpenAICompatibleProvider(env.baseUrl, env.apiKey, models)
+        : 'OCR_MODEL is required for the openai-compatible provider';
+    }
+
+    default:
+      return `Unknown OCR provider "${env.provider}"`;
+  }
+};
+
+export const parseModelList = (value?: string): string[] =>
+  (value ?? '').split(',').map(id => id.trim()).filter(Boolean);
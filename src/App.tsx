@@ -1,31 +1,157 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { BarcodeScanner } from './components/BarcodeScanner';
 import type { ScanResult } from './components/BarcodeScanner';
+import { ScanHistory } from './components/ScanHistory';
+import { ExportPanel } from './components/ExportPanel';
+import { FileDropZone } from './components/FileDropZone';
+import { DecoderSettings } from './components/DecoderSettings';
+import { OcrSettings } from './components/OcrSettings';
+import { SymbologySettings } from './components/SymbologySettings';
+import { PreprocessSettings } from './components/PreprocessSettings';
+import { AiSettings } from './components/AiSettings';
+import { ProductFields } from './components/ProductFields';
+import { DocumentView } from './components/DocumentView';
+import { PayloadView } from './components/PayloadView';
+import { InventoryPanel } from './components/InventoryPanel';
+import { WebhookSettings } from './components/WebhookSettings';
+import { CatalogSettings } from './components/CatalogSettings';
+import { RulesSettings } from './components/RulesSettings';
+import { CatalogCard } from './components/CatalogCard';
+import { BarcodeGenerator } from './components/BarcodeGenerator';
+import type { GeneratorRequest } from './components/BarcodeGenerator';
+import { addHistoryEntry, updateHistoryEntry } from './lib/scanHistory';
+import { countQueuedExtractions, processQueue } from './lib/offlineQueue';
+import { addCount, getActiveSessionId, loadSession, saveSession, setActiveSessionId } from './lib/inventory';
+import type { InventorySession } from './lib/inventory';
+import { deliverScan, loadWebhookConfig, resumeDeliveries, saveWebhookConfig } from './lib/webhooks';
+import type { WebhookConfig } from './lib/webhooks';
+import { gtinForScan, loadLookupConfig, lookupProduct, saveLookupConfig } from './lib/catalog';
+import type { LookupConfig } from './lib/catalog';
+import { loadPreprocessConfig, savePreprocessConfig } from './lib/preprocess';
+import { loadAiConfig, saveAiConfig } from './lib/aiSettings';
+import type { AiConfig } from './lib/aiSettings';
+import type { PreprocessConfig } from './lib/preprocess';
+import { loadDecoderConfig, saveDecoderConfig } from './lib/decoders';
+import type { DecoderConfig } from './lib/decoders';
+import { loadOcrConfig, saveOcrConfig } from './lib/ocr';
+import type { OcrConfig } from './lib/ocr';
+import { generatorSourceForScan } from './lib/generator';
+import { evaluateRules, loadRules, mergeActions, rulesNeedLookup, runRuleActions, saveRules } from './lib/rules';
+import type { ScanRule } from './lib/rules';
 import './App.css';
 
 interface DisplayResult extends ScanResult {
   timestamp: Date;
 }
 
+// Queued jobs that backed off are picked up by the next drain after their delay
+const QUEUE_RETRY_INTERVAL_MS = 60_000;
+
 function App() {
   const [scanResults, setScanResults] = useState<DisplayResult[]>([]);
   const [lastResult, setLastResult] = useState<string>('');
   const [lastScanTime, setLastScanTime] = useState<number>(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [decoderConfig, setDecoderConfig] = useState<DecoderConfig>(loadDecoderConfig);
+  const [ocrConfig, setOcrConfig] = useState<OcrConfig>(loadOcrConfig);
+  const [webhookConfig, setWebhookConfig] = useState<WebhookConfig>(loadWebhookConfig);
+  const [lookupConfig, setLookupConfig] = useState<LookupConfig>(loadLookupConfig);
+  const [preprocessConfig, setPreprocessConfig] = useState<PreprocessConfig>(loadPreprocessConfig);
+  const [aiConfig, setAiConfig] = useState<AiConfig>(loadAiConfig);
+  const [scanRules, setScanRules] = useState<ScanRule[]>(loadRules);
+  const [labelRequest, setLabelRequest] = useState<GeneratorRequest | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [inventoryMode, setInventoryMode] = useState(() => getActiveSessionId() !== null);
+  const [inventorySession, setInventorySession] = useState<InventorySession | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
 
-  const handleScan = (result: ScanResult) => {
+  // Finish webhook deliveries that were still retrying when the page closed
+  useEffect(() => {
+    resumeDeliveries().catch(err => console.error('Failed to resume webhook deliveries:', err));
+  }, []);
+
+  // Resume the inventory session that was open before the reload
+  useEffect(() => {
+    const id = getActiveSessionId();
+    if (id === null) return;
+    loadSession(id)
+      .then(session => session ? setInventorySession(session) : setActiveSessionId(null))
+      .catch(err => console.error('Failed to resume inventory session:', err));
+  }, []);
+
+  // Persist every count change; new sessions get their id in updateInventorySession
+  useEffect(() => {
+    if (!inventorySession?.id) return;
+    saveSession(inventorySession).catch(err => console.error('Failed to save inventory session:', err));
+  }, [inventorySession]);
+
+  // Drain the offline AI queue on startup, whenever the network comes back and
+  // periodically for jobs that were refused (rate limit, budget) and back off
+  useEffect(() => {
+    const drain = () => {
+      processQueue((queueId, patch, scans) => {
+        setScanResults(prev => prev.map(r => r.queueId === queueId ? { ...r, ...patch } : r));
+        setHistoryVersion(v => v + 1);
+        // Integrations got the scan while it was pending; send them what the AI read
+        scans.forEach(scan => deliverScan(scan, loadWebhookConfig(), 'scan-update'));
+      })
+        .catch(err => console.error('Offline queue failed:', err))
+        .finally(() => countQueuedExtractions().then(setQueuedCount, () => {}));
+    };
+    const goOnline = () => {
+      setIsOnline(true);
+      drain();
+    };
+    const goOffline = () => setIsOnline(false);
+
+    drain();
+    const retryTimer = setInterval(() => {
+      if (navigator.onLine) drain();
+    }, QUEUE_RETRY_INTERVAL_MS);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      clearInterval(retryTimer);
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  const handleScan = async (scan: ScanResult) => {
     const now = Date.now();
     const COOLDOWN = 3000; // 3 seconds between duplicate scans
     
-    const resultKey = result.barcode?.value || result.text || '';
-    
-    // Prevent duplicate scans within cooldown period
-    if (resultKey === lastResult && now - lastScanTime < COOLDOWN) {
+    const resultKey = scan.barcode?.value || scan.text || '';
+    const counting = inventoryMode && inventorySession !== null && scan.barcode !== undefined;
+
+    // Prevent duplicate scans within cooldown period (uploads and queued frames are always kept).
+    // Counting: every scan of the same code is another unit, so no cooldown
+    // (the scanner reports a code held in view once, until it leaves the frame)
+    if (!counting && !scan.file && !scan.queueId && resultKey === lastResult && now - lastScanTime < COOLDOWN) {
       return; // Ignore duplicate
     }
     
     setLastResult(resultKey);
     setLastScanTime(now);
+
+    // Rules on catalog fields need the lookup first; otherwise the card
+    // renders straight away and the catalog details follow
+    const gtin = scan.barcode ? gtinForScan(scan.barcode.value, scan.parsed) : null;
+    const catalog = scan.barcode && rulesNeedLookup(scanRules)
+      ? (gtin ? await lookupProduct(gtin, lookupConfig).catch(() => null) : null)
+      : undefined;
+
+    const fired = evaluateRules(scanRules, scan, catalog);
+    const actions = mergeActions(fired);
+    runRuleActions(actions, scan, gtin);
+    const result: ScanResult = {
+      ...scan,
+      ...(catalog ? { catalog } : {}),
+      ...(fired.length > 0 ? { rules: fired.map(rule => rule.name || 'Unnamed rule') } : {}),
+      ...(actions.reject ? { rejected: actions.reject } : {}),
+    };
     
     const newResult: DisplayResult = {
       ...result,
@@ -33,12 +159,109 @@ function App() {
     };
     
     setScanResults(prev => [newResult, ...prev.slice(0, 9)]); // Keep last 10 results
+
+    // Rejected scans stay on screen with their reason but go nowhere else
+    if (result.rejected) return;
+
+    if (counting) {
+      setInventorySession(prev => prev && addCount(prev, result.barcode!.value, 1, result.barcode!.format));
+    }
+    if (result.status === 'pending') setQueuedCount(n => n + 1);
+
+    // Persist every accepted scan so it survives reloads
+    addHistoryEntry(result, newResult.timestamp.getTime())
+      .then(entry => {
+        setHistoryVersion(v => v + 1);
+        if (gtin && catalog === undefined) enrichWithCatalog(newResult, entry.id, gtin);
+      })
+      .catch(err => console.error('Failed to save scan history:', err));
+
+    // Push to configured integrations in the background; failures land in the delivery log
+    deliverScan(result, webhookConfig);
+  };
+
+  // Attach catalog details once the lookup resolves; the card renders without them first
+  const enrichWithCatalog = async (display: DisplayResult, historyId: number, gtin: string) => {
+    try {
+      const catalog = await lookupProduct(gtin, lookupConfig);
+      if (!catalog) return;
+      setScanResults(prev => prev.map(r => r === display ? { ...r, catalog } : r));
+      await updateHistoryEntry(historyId, { catalog });
+      setHistoryVersion(v => v + 1);
+    } catch (err) {
+      console.error('Catalog lookup failed:', err);
+    }
+  };
+
+  const updateDecoderConfig = (config: DecoderConfig) => {
+    setDecoderConfig(config);
+    saveDecoderConfig(config);
+  };
+
+  const updateInventorySession = async (session: InventorySession | null) => {
+    if (!session) {
+      setInventorySession(null);
+      setActiveSessionId(null);
+      return;
+    }
+    if (session.id) {
+      setInventorySession(session);
+      return;
+    }
+    try {
+      const saved = await saveSession(session);
+      setInventorySession(saved);
+      setActiveSessionId(saved.id!);
+    } catch (err) {
+      console.error('Failed to create inventory session:', err);
+    }
+  };
+
+  const updateOcrConfig = (config: OcrConfig) => {
+    setOcrConfig(config);
+    saveOcrConfig(config);
+  };
+
+  const updateAiConfig = (config: AiConfig) => {
+    setAiConfig(config);
+    saveAiConfig(config);
+  };
+
+  const updatePreprocessConfig = (config: PreprocessConfig) => {
+    setPreprocessConfig(config);
+    savePreprocessConfig(config);
+  };
+
+  const updateScanRules = (rules: ScanRule[]) => {
+    setScanRules(rules);
+    saveRules(rules);
+  };
+
+  const updateLookupConfig = (config: LookupConfig) => {
+    setLookupConfig(config);
+    saveLookupConfig(config);
+  };
+
+  const updateWebhookConfig = (config: WebhookConfig) => {
+    setWebhookConfig(config);
+    saveWebhookConfig(config);
   };
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
 
+  // Prefill the generator to reprint a scanned code as a label
+  const sendToGenerator = (scan: Pick<ScanResult, 'barcode' | 'parsed' | 'catalog' | 'product'>) => {
+    if (!scan.barcode) return;
+    const source = generatorSourceForScan(scan.barcode, scan.parsed);
+    setLabelRequest(prev => ({
+      id: (prev?.id ?? 0) + 1,
+      ...source,
+      caption: scan.catalog?.name ?? scan.product?.productName ?? undefined,
+    }));
+  };
+
   const clearResults = () => {
     setScanResults([]);
     setLastResult('');
@@ -55,12 +278,56 @@ function App() {
       </header>
 
       <main className="app-main">
+        {(!isOnline || queuedCount > 0) && (
+          <div className={`offline-banner ${isOnline ? 'syncing' : ''}`}>
+            {isOnline ? '🔄 Back online' : '📴 Offline - barcodes still scan, AI text is queued'}
+            {queuedCount > 0 && ` · ${queuedCount} frame(s) waiting`}
+          </div>
+        )}
+
         <BarcodeScanner 
           onScan={handleScan} 
-          videoRef={videoRef as React.RefObject<HTMLVideoElement>} 
+          videoRef={videoRef}
+          decoderConfig={decoderConfig}
+          ocrConfig={ocrConfig}
+          preprocessConfig={preprocessConfig}
+        />
+
+        <DecoderSettings config={decoderConfig} onChange={updateDecoderConfig} />
+        <SymbologySettings
+          config={decoderConfig.symbology}
+          onChange={symbology => updateDecoderConfig({ ...decoderConfig, symbology })}
         />
+        <PreprocessSettings config={preprocessConfig} onChange={updatePreprocessConfig} />
+        <OcrSettings config={ocrConfig} onChange={updateOcrConfig} />
+        <AiSettings config={aiConfig} onChange={updateAiConfig} />
+        <CatalogSettings config={lookupConfig} onChange={updateLookupConfig} />
+        <RulesSettings rules={scanRules} onChange={updateScanRules} />
+        <WebhookSettings config={webhookConfig} onChange={updateWebhookConfig} />
+        <BarcodeGenerator request={labelRequest} />
+
+        <FileDropZone onScan={handleScan} decoderConfig={decoderConfig} ocrConfig={ocrConfig} />
+
+        <div className="view-toggle">
+          <button
+            onClick={() => setShowHistory(prev => !prev)}
+            className="copy-btn"
+          >
+            {showHistory ? '⬅️ Back to Session' : '📚 Scan History'}
+          </button>
+          <button
+            onClick={() => setInventoryMode(prev => !prev)}
+            className={`copy-btn ${inventoryMode ? 'active' : ''}`}
+          >
+            {inventoryMode ? '📦 Counting On' : '📦 Inventory Count'}
+          </button>
+        </div>
+
+        {inventoryMode && <InventoryPanel session={inventorySession} onChange={updateInventorySession} />}
+
+        {showHistory && <ScanHistory refreshKey={historyVersion} onLabel={sendToGenerator} />}
 
-        {scanResults.length > 0 && (
+        {!showHistory && scanResults.length > 0 && (
           <div className="results-section">
             <div className="results-header">
               <h2>Scan Results</h2>
@@ -68,6 +335,8 @@ function App() {
                 Clear All
               </button>
             </div>
+
+            <ExportPanel scans={scanResults} baseName="session" />
             
             <div className="results-list">
               {scanResults.map((result, index) => (
@@ -80,6 +349,26 @@ function App() {
                       {result.timestamp.toLocaleTimeString()}
                     </span>
                   </div>
+
+                  {result.rejected && (
+                    <div className="result-status rejected">⛔ Rejected - {result.rejected}</div>
+                  )}
+                  {result.rules && (
+                    <div className="result-rules">📏 {result.rules.join(', ')}</div>
+                  )}
+
+                  {result.status === 'pending' && (
+                    <div className="result-status pending">⏳ Pending - AI text will be added when back online</div>
+                  )}
+
+                  {result.file && (
+                    <div className="result-file">
+                      📁 {result.file.name}{result.file.page ? ` — page ${result.file.page}` : ''}
+                    </div>
+                  )}
+                  {result.pages && (
+                    <div className="result-file">📚 Stitched from {result.pages} shots</div>
+                  )}
                   
                   {result.barcode && (
                     <div className="barcode-section">
@@ -90,16 +379,59 @@ function App() {
                       <div className="result-format-detail">
                         <strong>Format:</strong> {result.barcode.format}
                       </div>
+                      {result.confidence !== undefined && (
+                        <div className="result-format-detail">
+                          <strong>Confidence:</strong> 🎯 {Math.round(result.confidence * 100)}%
+                          {result.validation?.checked && ` · ✅ ${result.validation.scheme} check digit`}
+                          {result.aiDerived && ' · 🤖 Read by AI'}
+                        </div>
+                      )}
                       <button
                         onClick={() => copyToClipboard(result.barcode!.value)}
                         className="copy-btn"
                       >
                         📋 Copy Barcode
                       </button>
+                      <button
+                        onClick={() => sendToGenerator(result)}
+                        className="copy-btn"
+                      >
+                        🏷️ Label
+                      </button>
+                    </div>
+                  )}
+                  
+                  {result.catalog && <CatalogCard product={result.catalog} />}
+
+                  {result.parsed && <PayloadView payload={result.parsed} />}
+                  
+                  {result.product && (
+                    <div className="product-section">
+                      <div className="section-title">🏷️ Product</div>
+                      <ProductFields product={result.product} />
+                      <button
+                        onClick={() => copyToClipboard(JSON.stringify(result.product, null, 2))}
+                        className="copy-btn"
+                      >
+                        📋 Copy Fields
+                      </button>
                     </div>
                   )}
                   
-                  {result.text && (
+                  {result.document && (
+                    <div className="product-section">
+                      <div className="section-title">📄 Document</div>
+                      <DocumentView document={result.document} />
+                      <button
+                        onClick={() => copyToClipboard(JSON.stringify(result.document, null, 2))}
+                        className="copy-btn"
+                      >
+                        📋 Copy Fields
+                      </button>
+                    </div>
+                  )}
+
+                  {result.text && !result.product && !result.document && (
                     <div className="text-section">
                       <div className="section-title">📝 Extracted Text</div>
                       <div className="result-text">{result.text}</div>
@@ -117,13 +449,25 @@ function App() {
                     <pre className="json-view">
                       {JSON.stringify({ 
                         barcode: result.barcode, 
-                        text: result.text 
+                        text: result.text,
+                        product: result.product,
+                        document: result.document,
+                        parsed: result.parsed,
+                        confidence: result.confidence,
+                        validation: result.validation,
+                        catalog: result.catalog
                       }, null, 2)}
                     </pre>
                     <button
                       onClick={() => copyToClipboard(JSON.stringify({ 
                         barcode: result.barcode, 
-                        text: result.text 
+                        text: result.text,
+                        product: result.product,
+                        document: result.document,
+                        parsed: result.parsed,
+                        confidence: result.confidence,
+                        validation: result.validation,
+                        catalog: result.catalog
                       }, null, 2))}
                       className="copy-btn"
                     >
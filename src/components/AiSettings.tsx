@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_AI_CONFIG, PROMPT_LABELS, fetchModelCatalog } from '../lib/aiSettings';
+import type { AiConfig, ModelCatalog, PromptKind } from '../lib/aiSettings';
+import { formatCost, getUsage, resetMonthUsage, resetSessionUsage, subscribeUsage } from '../lib/aiUsage';
+import type { UsageTotals } from '../lib/aiUsage';
+
+interface AiSettingsProps {
+  config: AiConfig;
+  onChange: (config: AiConfig) => void;
+}
+
+const PROMPT_KINDS = Object.keys(PROMPT_LABELS) as PromptKind[];
+
+function PromptEditor({ kind, value, defaultPrompt, onChange }: {
+  kind: PromptKind;
+  value: string | undefined;
+  defaultPrompt: string;
+  onChange: (value: string | undefined) => void;
+}) {
+  const [draft, setDraft] = useState(value ?? defaultPrompt);
+
+  // Only store real overrides, so server prompt improvements still reach users
+  const commit = (text: string) => {
+    onChange(text.trim() && text.trim() !== defaultPrompt ? text : undefined);
+  };
+
+  return (
+    <div className="prompt-editor">
+      <label htmlFor={`prompt-${kind}`}>
+        {PROMPT_LABELS[kind]} {value !== undefined && <em>(custom)</em>}
+      </label>
+      <textarea
+        id={`prompt-${kind}`}
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={() => commit(draft)}
+        rows={4}
+        className="webhook-headers"
+      />
+      {value !== undefined && (
+        <button
+          onClick={() => { setDraft(defaultPrompt); commit(defaultPrompt); }}
+          className="clear-btn"
+        >
+          Reset to default
+        </button>
+      )}
+    </div>
+  );
+}
+
+const UsageRow = ({ label, totals }: { label: string; totals: UsageTotals }) => (
+  <tr>
+    <td>{label}</td>
+    <td>{totals.requests}</td>
+    <td>{(totals.promptTokens + totals.completionTokens).toLocaleString()}</td>
+    <td>{formatCost(totals.cost)}</td>
+  </tr>
+);
+
+export function AiSettings({ config, onChange }: AiSettingsProps) {
+  const [catalog, setCatalog] = useState<ModelCatalog | null>(null);
+  const [usage, setUsage] = useState(getUsage);
+
+  useEffect(() => {
+    fetchModelCatalog().then(setCatalog);
+  }, []);
+
+  useEffect(() => subscribeUsage(setUsage), []);
+
+  const setPrompt = (kind: PromptKind, value: string | undefined) => {
+    const prompts = { ...config.prompts };
+    if (value === undefined) delete prompts[kind];
+    else prompts[kind] = value;
+    onChange({ ...config, prompts });
+  };
+
+  const defaultPrompts = catalog?.prompts;
+  const overBudget = config.monthlyBudget > 0 && usage.month.cost >= config.monthlyBudget;
+  const modelAvailable = !config.model || !catalog || catalog.models.some(m => m.id === config.model);
+
+  return (
+    <details className="settings-panel">
+      <summary>🤖 AI Model &amp; Cost {formatCost(usage.month.cost)} this month</summary>
+
+      <div className="settings-row">
+        <label>
+          Model{' '}
+          <select value={config.model} onChange={e => onChange({ ...config, model: e.target.value })}>
+            <option value="">Server default{catalog ? ` (${catalog.defaultModel})` : ''}</option>
+            {catalog?.models.map(model => (
+              <option key={model.id} value={model.id}>
+                {model.id}
+                {model.inputPrice || model.outputPrice ? ` - $${model.inputPrice}/$${model.outputPrice} per M tokens` : ' - free'}
+              </option>
+            ))}
+            {!modelAvailable && <option value={config.model}>{config.model} (unavailable)</option>}
+          </select>
+        </label>
+      </div>
+      <div className="settings-hint">
+        {catalog
+          ? `Provider: ${catalog.provider}.`
+          : 'Could not load the model list from /api/ocr.'}
+        {!modelAvailable && ' The saved model is not offered by the server, so its default is used.'}
+      </div>
+
+      <div className="settings-row">
+        <label>
+          Temperature{' '}
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.1}
+            value={config.temperature}
+            onChange={e => onChange({ ...config, temperature: Math.min(1, Math.max(0, Number(e.target.value) || 0)) })}
+          />
+        </label>
+        <label>
+          Max tokens{' '}
+          <input
+            type="number"
+            min={50}
+            max={1000}
+            step={50}
+            value={config.maxTokens}
+            onChange={e => onChange({ ...config, maxTokens: Number(e.target.value) || DEFAULT_AI_CONFIG.maxTokens })}
+          />
+        </label>
+        <label>
+          Monthly budget ${' '}
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={config.monthlyBudget}
+            onChange={e => onChange({ ...config, monthlyBudget: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </label>
+      </div>
+      <div className="settings-hint">
+        Temperature and max tokens apply to text OCR; structured extraction always runs at 0. A budget of 0 means no limit.
+      </div>
+
+      <table className="engine-stats">
+        <thead>
+          <tr>
+            <th>Usage</th>
+            <th>Requests</th>
+            <th>Tokens</th>
+            <th>Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          <UsageRow label="This session" totals={usage.session} />
+          <UsageRow label={usage.monthKey} totals={usage.month} />
+        </tbody>
+      </table>
+      {overBudget && (
+        <div className="settings-hint budget-warning">⛔ Monthly budget reached - AI requests are paused until next month or a higher budget.</div>
+      )}
+      <div className="settings-actions">
+        <button onClick={resetSessionUsage} className="copy-btn">Reset session</button>
+        <button onClick={resetMonthUsage} className="clear-btn">Reset month</button>
+      </div>
+
+      <details className="prompt-templates">
+        <summary>Prompt templates</summary>
+        {defaultPrompts
+          ? PROMPT_KINDS.map(kind => (
+              <PromptEditor
+                key={kind}
+                kind={kind}
+                value={config.prompts[kind]}
+                defaultPrompt={defaultPrompts[kind]}
+                onChange={value => setPrompt(kind, value)}
+              />
+            ))
+          : <div className="settings-hint">The default templates load from /api/ocr once it is reachable.</div>}
+        <div className="settings-hint">
+          The server rejects a structured template that no longer asks for all of its JSON keys.
+        </div>
+      </details>
+    </details>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  DEFAULT_RENDER_OPTIONS,
+  GENERATOR_FORMATS,
+  LABEL_TEMPLATES,
+  buildLabelSheet,
+  encodeBarcode,
+  findLabelTemplate,
+  loadLabelTemplateId,
+  printLabelSheet,
+  renderPNG,
+  renderSVG,
+  saveLabelTemplateId,
+  svgDataUrl,
+} from '../lib/generator';
+import type { GeneratorFormat, LabelItem } from '../lib/generator';
+import { downloadBlob, downloadFile } from '../lib/exportScans';
+
+export interface GeneratorRequest {
+  id: number;          // Bump to re-send the same value
+  value: string;
+  format: GeneratorFormat;
+  caption?: string;
+}
+
+interface BarcodeGeneratorProps {
+  request: GeneratorRequest | null; // Set by the "Label" buttons on scan results
+}
+
+interface QueuedLabel extends LabelItem {
+  value: string;
+  copies: number;
+}
+
+const PNG_MODULE_SIZE = 6; // ~300 dpi for a standard-width EAN-13
+
+export function BarcodeGenerator({ request }: BarcodeGeneratorProps) {
+  const panelRef = useRef<HTMLDetailsElement>(null);
+  const [value, setValue] = useState('');
+  const [format, setFormat] = useState<GeneratorFormat>('CODE_128');
+  const [caption, setCaption] = useState('');
+  const [showText, setShowText] = useState(true);
+  const [copies, setCopies] = useState(1);
+  const [queue, setQueue] = useState<QueuedLabel[]>([]);
+  const [templateId, setTemplateId] = useState(loadLabelTemplateId);
+  const [skip, setSkip] = useState(0);
+
+  useEffect(() => {
+    if (!request) return;
+    setValue(request.value);
+    setFormat(request.format);
+    setCaption(request.caption ?? '');
+    if (panelRef.current) {
+      panelRef.current.open = true;
+      panelRef.current.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [request]);
+
+  const encoded = useMemo(() => {
+    if (!value) return { symbol: null, error: '' };
+    try {
+      return { symbol: encodeBarcode(value, format), error: '' };
+    } catch (err) {
+      return { symbol: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [value, format]);
+
+  const svg = encoded.symbol ? renderSVG(encoded.symbol, { showText }) : '';
+  const template = findLabelTemplate(templateId);
+  const perSheet = template.columns * template.rows;
+  const labelCount = queue.reduce((sum, label) => sum + label.copies, 0);
+  const fileBase = `barcode-${value.replace(/[^\w-]+/g, '_').slice(0, 40)}`;
+
+  const downloadPNG = async () => {
+    if (!encoded.symbol) return;
+    const blob = await renderPNG(encoded.symbol, {
+      showText,
+      moduleSize: PNG_MODULE_SIZE,
+      barHeight: DEFAULT_RENDER_OPTIONS.barHeight * (PNG_MODULE_SIZE / DEFAULT_RENDER_OPTIONS.moduleSize),
+    });
+    downloadBlob(blob, `${fileBase}.png`);
+  };
+
+  const addToSheet = () => {
+    if (!svg) return;
+    setQueue(prev => [...prev, { svg, caption: caption.trim() || undefined, value, copies }]);
+  };
+
+  const changeTemplate = (id: string) => {
+    setTemplateId(id);
+    saveLabelTemplateId(id);
+    setSkip(0);
+  };
+
+  const print = () => {
+    const items = queue.flatMap(({ svg, caption, copies }) => Array<LabelItem>(copies).fill({ svg, caption }));
+    printLabelSheet(buildLabelSheet(items, template, skip));
+  };
+
+  return (
+    <details className="settings-panel" ref={panelRef}>
+      <summary>🏷️ Barcode Generator &amp; Labels{labelCount > 0 ? ` (${labelCount} queued)` : ''}</summary>
+
+      <div className="settings-row">
+        <label>
+          Value{' '}
+          <input
+            type="text"
+            value={value}
+            onChange={e => setValue(e.target.value)}
+            placeholder={format === 'GS1_128' ? '(01)09501101530003(10)LOT1' : 'Text or digits'}
+          />
+        </label>
+        <label>
+          Format{' '}
+          <select value={format} onChange={e => setFormat(e.target.value as GeneratorFormat)}>
+            {GENERATOR_FORMATS.map(f => (
+              <option key={f.id} value={f.id}>{f.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="settings-row">
+        <label>
+          Caption{' '}
+          <input
+            type="text"
+            value={caption}
+            onChange={e => setCaption(e.target.value)}
+            placeholder="Optional, e.g. product name"
+          />
+        </label>
+        <label>
+          <input type="checkbox" checked={showText} onChange={e => setShowText(e.target.checked)} />
+          Human-readable text
+        </label>
+      </div>
+      <div className="settings-hint">
+        EAN-13 accepts 12 digits and adds the check digit. GS1-128 takes (AI)value pairs; FNC1 separators are inserted automatically.
+      </div>
+
+      {encoded.error && <div className="settings-hint budget-warning">⚠️ {encoded.error}</div>}
+      {svg && (
+        <div className="generator-preview">
+          <img src={svgDataUrl(svg)} alt={`${format} barcode for ${value}`} />
+          {caption.trim() && <div className="generator-caption">{caption.trim()}</div>}
+        </div>
+      )}
+
+      <div className="settings-actions">
+        <button
+          onClick={() => downloadFile(svg, `${fileBase}.svg`, 'image/svg+xml')}
+          className="copy-btn"
+          disabled={!svg}
+        >
+          ⬇️ SVG
+        </button>
+        <button onClick={downloadPNG} className="copy-btn" disabled={!svg}>
+          ⬇️ PNG
+        </button>
+        <label className="generator-copies">
+          Copies{' '}
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={copies}
+            onChange={e => setCopies(Math.min(500, Math.max(1, Number(e.target.value) || 1)))}
+          />
+        </label>
+        <button onClick={addToSheet} className="copy-btn" disabled={!svg}>
+          ➕ Add to sheet
+        </button>
+      </div>
+
+      <div className="settings-row">
+        <label>
+          Label stock{' '}
+          <select value={templateId} onChange={e => changeTemplate(e.target.value)}>
+            {LABEL_TEMPLATES.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Skip first{' '}
+          <input
+            type="number"
+            min={0}
+            max={perSheet - 1}
+            value={skip}
+            onChange={e => setSkip(Math.min(perSheet - 1, Math.max(0, Number(e.target.value) || 0)))}
+          />
+          {' '}labels
+        </label>
+      </div>
+      <div className="settings-hint">
+        Skip labels already used on a partly used sheet. Print at 100% / actual size with no page margins.
+      </div>
+
+      {queue.length > 0 && (
+        <ul className="label-queue">
+          {queue.map((label, index) => (
+            <li key={index}>
+              <span>{label.value}{label.caption ? ` - ${label.caption}` : ''} × {label.copies}</span>
+              <button
+                onClick={() => setQueue(prev => prev.filter((_, i) => i !== index))}
+                className="clear-btn"
+                aria-label={`Remove ${label.value}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="settings-actions">
+        <button onClick={print} className="copy-btn" disabled={labelCount === 0}>
+          🖨️ Print {labelCount} label(s) - {Math.ceil((labelCount + skip) / perSheet) || 0} sheet(s)
+        </button>
+        <button onClick={() => setQueue([])} className="clear-btn" disabled={queue.length === 0}>
+          Clear sheet
+        </button>
+      </div>
+    </details>
+  );
+}
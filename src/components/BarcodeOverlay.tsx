@@ -0,0 +1,47 @@
+import type { DecodedBarcode } from '../lib/decoders';
+
+interface BarcodeOverlayProps {
+  barcodes: DecodedBarcode[];
+  videoWidth: number;
+  videoHeight: number;
+  selectedValue?: string;
+  onSelect: (barcode: DecodedBarcode) => void;
+}
+
+// Live outlines over the video. The SVG viewBox uses video pixel coordinates and
+// "slice" matches the video's `object-fit: cover`, so boxes line up without manual scaling.
+export function BarcodeOverlay({ barcodes, videoWidth, videoHeight, selectedValue, onSelect }: BarcodeOverlayProps) {
+  if (!videoWidth || !videoHeight) return null;
+
+  const labelSize = Math.max(14, Math.round(videoWidth / 45));
+
+  return (
+    <svg
+      className="barcode-overlay"
+      viewBox={`0 0 ${videoWidth} ${videoHeight}`}
+      preserveAspectRatio="xMidYMid slice"
+    >
+      {barcodes.filter(barcode => barcode.points).map(barcode => {
+        const points = barcode.points!;
+        const [labelX, labelY] = points.reduce(
+          ([minX, minY], [x, y]) => [Math.min(minX, x), Math.min(minY, y)],
+          [Infinity, Infinity]
+        );
+        const isSelected = barcode.value === selectedValue;
+
+        return (
+          <g
+            key={barcode.value}
+            className={`barcode-outline ${isSelected ? 'selected' : ''}`}
+            onClick={() => onSelect(barcode)}
+          >
+            <polygon points={points.map(p => p.join(',')).join(' ')} />
+            <text x={labelX} y={labelY - 6} fontSize={labelSize}>
+              {barcode.value}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -1,59 +1,377 @@
-import { useEffect, useRef, useState } from 'react';
-import { BrowserMultiFormatReader } from '@zxing/browser';
-import { DecodeHintType } from '@zxing/library';
-import Quagga from '@ericblade/quagga2';
+import { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import './BarcodeScanner.css';
+import { DEFAULT_OCR_CONFIG, OCR_BACKEND_LABELS, extractText } from '../lib/ocr';
+import type { OcrConfig, OcrExtraction } from '../lib/ocr';
+import { NetworkError, RetryableError, isOffline } from '../lib/aiOcr';
+import { AI_FALLBACK_LABEL, readBarcodeWithAI } from '../lib/aiBarcode';
+import { enqueueExtraction } from '../lib/offlineQueue';
+import type { ScanStatus } from '../lib/offlineQueue';
+import { extractProductWithAI } from '../lib/productExtraction';
+import type { ProductInfo } from '../lib/productExtraction';
+import { documentSummary, extractDocumentWithAI } from '../lib/documentExtraction';
+import type { DocumentInfo } from '../lib/documentExtraction';
+import type { CatalogProduct } from '../lib/catalog';
+import type { ParsedPayload } from '../lib/payloads';
+import { assessBarcode, createAgreementGate, createRepeatGate } from '../lib/confidence';
+import type { BarcodeAssessment } from '../lib/confidence';
+import type { BarcodeValidation } from '../lib/validation';
+import {
+  DEFAULT_DECODER_CONFIG,
+  ENGINE_LABELS,
+  decodeMultiple,
+  grabFrame,
+  resolveMultiDecoder,
+  startDecoders,
+} from '../lib/decoders';
+import type { DecodedBarcode, DecoderConfig } from '../lib/decoders';
+import {
+  DEFAULT_PREPROCESS_CONFIG,
+  captureDocument,
+  createFrameProcessor,
+  detectPageIn,
+  frameRegion,
+  ocrPreprocessConfig,
+} from '../lib/preprocess';
+import type { FrameProcessor, PreprocessConfig, ProcessedFrame, Quad } from '../lib/preprocess';
+import {
+  focusAt,
+  listCameras,
+  loadDeviceSettings,
+  loadPreferredDevice,
+  pickCamera,
+  pointInVideo,
+  restoreDeviceSettings,
+  savePreferredDevice,
+  setResolution,
+  videoConstraints,
+} from '../lib/camera';
+import type { CameraFacingMode } from '../lib/camera';
+import { createStabilityMonitor } from '../lib/stability';
+import type { StabilityState, StabilityStatus } from '../lib/stability';
+import { subscribeFlash } from '../lib/rules';
+import type { FlashColor } from '../lib/rules';
+import { MAX_SESSION_PAGES, extractSession, movePage, putPage } from '../lib/captureSession';
+import type { SessionPage } from '../lib/captureSession';
+import { BarcodeOverlay } from './BarcodeOverlay';
+import { CameraControls } from './CameraControls';
+import { CaptureSessionTray } from './CaptureSessionTray';
 
-interface BarcodeScannerProps {
+export interface BarcodeScannerProps {
   onScan: (data: ScanResult) => void;
-  videoRef: React.RefObject<HTMLVideoElement>;
+  onError?: (message: string) => void;
+  onStateChange?: (state: ScannerState) => void;
+  ref?: React.Ref<BarcodeScannerHandle>;
+  videoRef?: React.RefObject<HTMLVideoElement | null>; // Only needed to reach the video from outside
+  decoderConfig?: DecoderConfig;
+  ocrConfig?: OcrConfig;
+  preprocessConfig?: PreprocessConfig;
+  initialMode?: ScanMode;
+  initialCamera?: string; // deviceId; defaults to the last picked camera
+  autoStart?: boolean;    // Open the camera on mount (default true)
 }
 
+// Imperative control for hosts that embed the scanner
+export interface BarcodeScannerHandle {
+  start: () => void;
+  stop: () => void;  // Releases the camera
+  setMode: (mode: ScanMode) => void;
+  setCamera: (deviceId: string) => void; // '' = pick by facing mode
+}
+
+export type ScannerState = 'starting' | 'scanning' | 'processing' | 'stopped' | 'error';
+
 export interface ScanResult {
   barcode?: {
     value: string;
     format: string;
   };
   text?: string;
+  product?: ProductInfo; // Structured fields from product extraction mode
+  document?: DocumentInfo; // Header fields and line items from document mode
+  parsed?: ParsedPayload; // Recognized barcode payload (GS1, URL, vCard, Wi-Fi...)
+  validation?: BarcodeValidation; // Check-digit result for the barcode value
+  confidence?: number;    // 0-1 score combining engine, quality and validation
+  catalog?: CatalogProduct; // Catalog lookup for the barcode's GTIN
+  mode?: ScanMode;   // Scan mode active when the result was produced
+  source?: string;   // Decoder that produced the result (ZXing, Quagga, AI)
+  camera?: string;   // Camera label, or facing mode when labels are hidden
+  file?: {           // Set when decoded from an uploaded image or PDF
+    name: string;
+    page?: number;
+  };
+  status?: ScanStatus; // 'pending' while the frame waits in the offline AI queue
+  queueId?: number;    // Offline queue job that will fill in text/product
+  aiDerived?: boolean; // Barcode read by the vision-model fallback, not a decoder
+  rules?: string[];    // Names of the scan rules that fired
+  rejected?: string;   // Reason, when a rule rejected the scan
+  pages?: number;      // Shots stitched into this result by a capture session
 }
 
-type CameraFacingMode = 'user' | 'environment';
-type ScanMode = 'barcode-ocr' | 'ocr-only';
 
-export function BarcodeScanner({ onScan, videoRef }: BarcodeScannerProps) {
+const STABILITY_LABELS: Record<StabilityStatus, string> = {
+  moving: '✋ Hold still',
+  blurry: '🔍 Focusing...',
+  unchanged: '✅ Captured - move to the next text',
+  steady: '⏳ Hold still...',
+  ready: '📸 Capturing',
+};
+
+// AI fallback crops even when frame preprocessing is switched off
+const AI_CROP_ONLY: PreprocessConfig = {
+  enabled: true,
+  cropToFrame: true,
+  grayscale: false,
+  autoContrast: false,
+  sharpen: false,
+  binarize: false,
+  deskew: false,
+  debugView: false,
+};
+export type ScanMode = 'barcode-ocr' | 'ocr-only';
+
+export function BarcodeScanner({
+  onScan,
+  onError,
+  onStateChange,
+  ref,
+  videoRef: externalVideoRef,
+  decoderConfig = DEFAULT_DECODER_CONFIG,
+  ocrConfig = DEFAULT_OCR_CONFIG,
+  preprocessConfig = DEFAULT_PREPROCESS_CONFIG,
+  initialMode = 'barcode-ocr',
+  initialCamera,
+  autoStart = true,
+}: BarcodeScannerProps) {
+  const internalVideoRef = useRef<HTMLVideoElement>(null);
+  const videoRef = externalVideoRef ?? internalVideoRef;
   const [error, setError] = useState('');
   const [debugInfo, setDebugInfo] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [facingMode, setFacingMode] = useState<CameraFacingMode>('environment'); // Default to back camera
-  const [scanMode, setScanMode] = useState<ScanMode>('barcode-ocr'); // Default to barcode + OCR
+  const [scanMode, setScanMode] = useState<ScanMode>(initialMode); // Default to barcode + OCR
   const [availableCameras, setAvailableCameras] = useState<MediaDeviceInfo[]>([]);
-  const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
-  const quaggaRunningRef = useRef<boolean>(false);
-  const lastBarcodeRef = useRef<string>('');
+  const [deviceId, setDeviceId] = useState(() => initialCamera ?? loadPreferredDevice()); // '' = pick by facing mode
+  const [running, setRunning] = useState(autoStart);
+  const streamRef = useRef<MediaStream | null>(null);
+  const onErrorRef = useRef(onError);
+  const onStateChangeRef = useRef(onStateChange);
+  const [videoTrack, setVideoTrack] = useState<MediaStreamTrack | null>(null);
+  const [focusPoint, setFocusPoint] = useState<{ x: number; y: number } | null>(null);
+  const [multiMode, setMultiMode] = useState(false); // Outline every code in frame, tap to pick one
+  const [detectedBarcodes, setDetectedBarcodes] = useState<DecodedBarcode[]>([]);
+  const [selectedBarcode, setSelectedBarcode] = useState('');
+  const stopDecodersRef = useRef<(() => void) | null>(null);
+  const resumeDecodersRef = useRef<(() => Promise<void>) | null>(null);
   const lastScanTimeRef = useRef<number>(0);
   const ocrIntervalRef = useRef<number | null>(null);
+  const activeCameraRef = useRef<string>('');
+  const multiModeRef = useRef<boolean>(false);
+  const agreementGateRef = useRef(createAgreementGate());
+  const repeatGateRef = useRef(createRepeatGate());
+  // Decoder callbacks outlive renders; always report through the latest onScan
+  const onScanRef = useRef(onScan);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const debugCanvasRef = useRef<HTMLCanvasElement>(null);
+  const processorRef = useRef<FrameProcessor | null>(null);
+  const aiFallbackTimerRef = useRef<number | null>(null);
+  const lastDecodeTimeRef = useRef<number>(0);
+  const aiAttemptTimeRef = useRef<number>(0);
+  const aiBusyRef = useRef<boolean>(false);
+  const [stability, setStability] = useState<StabilityState | null>(null);
+  const [ruleFlash, setRuleFlash] = useState<FlashColor | null>(null);
+  const [pageQuad, setPageQuad] = useState<Quad | null>(null);
+  const [sessionActive, setSessionActive] = useState(false); // Shots collect into one result
+  const [sessionPages, setSessionPages] = useState<SessionPage[]>([]);
+  const [retakeId, setRetakeId] = useState<string | null>(null);
+  const processingRef = useRef<boolean>(false);
+  const performOCRScanRef = useRef<() => Promise<void>>(async () => {});
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+    onErrorRef.current = onError;
+    onStateChangeRef.current = onStateChange;
+  }, [onScan, onError, onStateChange]);
+
+  useImperativeHandle(ref, () => ({
+    start: () => setRunning(true),
+    stop: () => setRunning(false),
+    setMode: setScanMode,
+    setCamera: id => {
+      setDeviceId(id);
+      savePreferredDevice(id);
+    },
+  }), []);
+
+  const scannerState: ScannerState = error
+    ? 'error'
+    : !running ? 'stopped' : isProcessing ? 'processing' : videoTrack ? 'scanning' : 'starting';
+
+  useEffect(() => {
+    onStateChangeRef.current?.(scannerState);
+  }, [scannerState]);
+
+  useEffect(() => {
+    if (error) onErrorRef.current?.(error);
+  }, [error]);
+
+  // The auto-capture loop outlives renders; always run the latest scan handler
+  useEffect(() => {
+    performOCRScanRef.current = performOCRScan;
+    processingRef.current = isProcessing;
+  });
+
+  // Scan rules flash the overlay for feedback that doesn't need reading
+  useEffect(() => {
+    let timer: number | undefined;
+    const unsubscribe = subscribeFlash(color => {
+      clearTimeout(timer);
+      setRuleFlash(color);
+      timer = window.setTimeout(() => setRuleFlash(null), 700);
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(timer);
+    };
+  }, []);
 
   useEffect(() => {
     // Get available cameras
-    navigator.mediaDevices.enumerateDevices()
-      .then(devices => {
-        const cameras = devices.filter(device => device.kind === 'videoinput');
-        setAvailableCameras(cameras);
-      })
+    listCameras()
+      .then(setAvailableCameras)
       .catch(err => console.error('Error listing cameras:', err));
   }, []);
 
   useEffect(() => {
-    startScanning();
+    if (!running) {
+      stopCamera();
+      setError('');
+      setDebugInfo('⏸️ Scanner stopped');
+      return;
+    }
+    let current = true;
+    startScanning(() => current);
 
     return () => {
-      // Cleanup
+      // Cleanup; a start still waiting on the camera or decoders is now stale
+      current = false;
+      resumeDecodersRef.current = null;
       if (ocrIntervalRef.current) {
         clearInterval(ocrIntervalRef.current);
       }
+      stopAiFallback();
+      stopDecodersRef.current?.();
+      stopDecodersRef.current = null;
     };
-  }, [facingMode, scanMode]);
+  }, [running, facingMode, deviceId, scanMode, decoderConfig, preprocessConfig]);
+
+  useEffect(() => () => {
+    processorRef.current?.dispose();
+    processorRef.current = null;
+    // Release the camera when the scanner leaves the page
+    streamRef.current?.getTracks().forEach(track => track.stop());
+  }, []);
+
+  useEffect(() => {
+    multiModeRef.current = multiMode;
+    setDetectedBarcodes([]);
+    setSelectedBarcode('');
+    if (!multiMode || scanMode !== 'barcode-ocr') return;
+
+    // Locate all codes in the current frame, then schedule the next pass
+    let cancelled = false;
+    let timer: number | undefined;
+    const canvas = document.createElement('canvas');
+    const decoderPromise = resolveMultiDecoder(decoderConfig.symbology);
+
+    // The single-code decoders would only compete for the CPU meanwhile
+    stopDecodersRef.current?.();
+    stopDecodersRef.current = null;
 
-  const startScanning = async () => {
+    const detectLoop = async () => {
+      if (cancelled) return;
+      try {
+        const frame = videoRef.current && grabFrame(videoRef.current, canvas);
+        if (frame) {
+          const barcodes = await decodeMultiple(await decoderPromise, frame);
+          if (!cancelled) setDetectedBarcodes(barcodes.filter(barcode => barcode.points));
+        }
+      } catch (err) {
+        console.error('Multi-barcode detection error:', err);
+      }
+      if (!cancelled) timer = window.setTimeout(detectLoop, 200);
+    };
+
+    setDebugInfo('🔲 Multi mode - Tap a barcode to select');
+    detectLoop();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      // Unset when the scanner itself is restarting, which starts fresh decoders
+      resumeDecodersRef.current?.();
+    };
+  }, [multiMode, scanMode, videoRef, decoderConfig.symbology]);
+
+  useEffect(() => {
+    setStability(null);
+    if (scanMode !== 'ocr-only' || !ocrConfig.autoCapture) return;
+
+    // Sample the scanner frame area several times a second; OCR fires once it's
+    // steady, sharp and different from the last capture
+    const monitor = createStabilityMonitor({ holdMs: ocrConfig.autoCaptureHoldMs });
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < video.HAVE_CURRENT_DATA || processingRef.current || document.hidden) return;
+
+      const region = frameRef.current ? frameRegion(video, frameRef.current) : null;
+      const state = monitor.sample(video, region);
+      if (!state) return;
+
+      // Only re-render when the indicator would visibly change
+      setStability(prev =>
+        prev?.status === state.status && Math.abs(prev.progress - state.progress) < 0.1 ? prev : state
+      );
+
+      if (state.status === 'ready') {
+        monitor.markCaptured();
+        performOCRScanRef.current();
+      }
+    }, 150);
+
+    return () => clearInterval(timer);
+  }, [scanMode, ocrConfig.autoCapture, ocrConfig.autoCaptureHoldMs, videoRef]);
+
+  const documentMode = scanMode === 'ocr-only' && ocrConfig.extraction === 'document' && ocrConfig.backend === 'cloud';
+
+  // Document mode: outline the detected page live, so users can see it will be flattened
+  useEffect(() => {
+    setPageQuad(null);
+    if (!documentMode) return;
+
+    const sample = document.createElement('canvas');
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < video.HAVE_CURRENT_DATA || processingRef.current || document.hidden) return;
+      setPageQuad(detectPageIn(video, sample));
+    }, 300);
+
+    return () => clearInterval(timer);
+  }, [documentMode, videoRef]);
+
+  const extractionKind: OcrExtraction = documentMode
+    ? 'document'
+    : ocrConfig.extraction === 'product' && ocrConfig.backend === 'cloud' ? 'product' : 'text';
+
+  const ocrIdleMessage = () =>
+    sessionActive
+      ? '📚 Session - Add a shot of each side or page'
+      : ocrConfig.autoCapture
+      ? `🎯 Auto-capture - hold steady over ${documentMode ? 'the page' : 'text'}`
+      : documentMode ? '📄 Document Mode - Fit the whole page, then tap to scan' : '📸 OCR Mode - Tap to scan';
+
+  // isCurrent turns false once the effect that started this has been cleaned up;
+  // anything a stale start opens after that is closed again straight away
+  const startScanning = async (isCurrent: () => boolean) => {
     try {
       setError('');
       setDebugInfo('📸 Starting camera...');
@@ -64,93 +382,69 @@ export function BarcodeScanner({ onScan, videoRef }: BarcodeScannerProps) {
         ocrIntervalRef.current = null;
       }
 
-      // Stop any existing barcode scanner
-      if (codeReaderRef.current) {
-        codeReaderRef.current = null;
-      }
-
-      // Stop Quagga if running
-      if (quaggaRunningRef.current) {
-        try {
-          Quagga.stop();
-          quaggaRunningRef.current = false;
-        } catch (e) {
-          console.log('Quagga already stopped');
-        }
-      }
+      // Stop any running decoder engines
+      stopAiFallback();
+      stopDecodersRef.current?.();
+      stopDecodersRef.current = null;
 
       // Stop any existing video stream
-      if (videoRef.current?.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach(track => track.stop());
-        videoRef.current.srcObject = null;
-      }
+      stopCamera();
 
       // If OCR-only mode, start camera and OCR interval instead of barcode scanning
       if (scanMode === 'ocr-only') {
-        await startOCROnlyMode();
+        await startOCROnlyMode(isCurrent);
         return;
       }
 
       // Barcode + OCR mode (original behavior)
-      const codeReader = new BrowserMultiFormatReader();
-      
-      // SPEED-OPTIMIZED: Remove TRY_HARDER for instant scanning
-      const hints = new Map();
-      // TRY_HARDER removed - makes it 3-5x faster
-      hints.set(DecodeHintType.ASSUME_GS1, false);
-      codeReader.hints = hints;
-      
-      codeReaderRef.current = codeReader;
+      if (!(await openCamera(isCurrent))) return;
 
-      // Get video devices and select based on facing mode
-      const devices = await navigator.mediaDevices.enumerateDevices();
-      const videoDevices = devices.filter(device => device.kind === 'videoinput');
-      
-      let selectedDeviceId: string | undefined;
-      
-      if (videoDevices.length > 0) {
-        // Try to find a camera matching the facing mode
-        const backCamera = videoDevices.find(device => 
-          device.label.toLowerCase().includes('back') || 
-          device.label.toLowerCase().includes('rear') ||
-          device.label.toLowerCase().includes('environment')
-        );
-        const frontCamera = videoDevices.find(device => 
-          device.label.toLowerCase().includes('front') || 
-          device.label.toLowerCase().includes('user') ||
-          device.label.toLowerCase().includes('face')
-        );
-        
-        if (facingMode === 'environment' && backCamera) {
-          selectedDeviceId = backCamera.deviceId;
-        } else if (facingMode === 'user' && frontCamera) {
-          selectedDeviceId = frontCamera.deviceId;
-        } else {
-          // Fallback: use first camera for front, last for back
-          selectedDeviceId = facingMode === 'environment' 
-            ? videoDevices[videoDevices.length - 1].deviceId 
-            : videoDevices[0].deviceId;
-        }
-      }
+      // With preprocessing on, every frame is cropped and enhanced before decoding
+      const grab = preprocessConfig.enabled
+        ? async (video: HTMLVideoElement) => (await processFrame(video, preprocessConfig))?.canvas ?? null
+        : undefined;
+
+      // Multi mode pauses the decoders while the user picks from the outlines,
+      // and resumes them through resumeDecodersRef when it ends
+      const runDecoders = async () => {
+        const stopDecoders = await startDecoders(videoRef.current!, decoderConfig, results => {
+          // A frame already in flight when multi mode began
+          if (multiModeRef.current) return;
+          const [first] = results;
+          const assessment = assessBarcode(first);
 
-      await codeReader.decodeFromVideoDevice(
-        selectedDeviceId,
-        videoRef.current!,
-        async (result) => {
-          if (result) {
-            const barcodeValue = result.getText();
-            const barcodeFormat = result.getBarcodeFormat().toString();
-            await handleBarcodeDetected(barcodeValue, barcodeFormat, 'ZXing');
+          // Never accept a value whose check digit is wrong - it's a misread
+          if (!assessment.validation.valid) {
+            agreementGateRef.current.reset();
+            setDebugInfo(`⚠️ Rejected ${first.value} - ${assessment.validation.reason}`);
+            return;
           }
+          lastDecodeTimeRef.current = Date.now();
+
+          // Low-confidence reads must repeat on consecutive frames before they count
+          if (!agreementGateRef.current.submit(first.value, assessment.confidence)) {
+            setDebugInfo(`✋ Hold steady - confirming ${first.value}`);
+            return;
+          }
+
+          handleBarcodeDetected(first, assessment);
+        }, grab);
+        if (!isCurrent() || multiModeRef.current) {
+          stopDecoders();
+          return;
         }
-      );
+        stopDecodersRef.current?.();
+        stopDecodersRef.current = stopDecoders;
+      };
+      resumeDecodersRef.current = runDecoders;
+      if (!multiModeRef.current) await runDecoders();
+      if (!isCurrent()) return;
 
-      // DON'T start Quagga - ZXing is faster and more reliable
-      // startQuagga();
+      if (decoderConfig.aiFallback.enabled) startAiFallback();
 
-      setDebugInfo('👁️ Ready - Lightning fast mode');
+      setDebugInfo(multiModeRef.current ? '🔲 Multi mode - Tap a barcode to select' : '👁️ Ready - Lightning fast mode');
     } catch (err: any) {
+      if (!isCurrent()) return;
       console.error('Scanner error:', err);
       let errorMessage = 'Failed to start camera. ';
       
@@ -169,75 +463,66 @@ export function BarcodeScanner({ onScan, videoRef }: BarcodeScannerProps) {
     }
   };
 
-  const startOCROnlyMode = async () => {
-    try {
-      // Start camera without barcode scanning
-      const devices = await navigator.mediaDevices.enumerateDevices();
-      const videoDevices = devices.filter(device => device.kind === 'videoinput');
-      
-      let constraints: MediaStreamConstraints = {
-        video: {
-          facingMode: facingMode,
-          width: { ideal: 1280 },      // Lower res = faster processing
-          height: { ideal: 720 },
-          frameRate: { ideal: 30 },    // 30 FPS for smooth scanning
-          // @ts-ignore - advanced constraints
-          focusMode: 'continuous',
-          focusDistance: { ideal: 0 }  // Auto-focus
-        }
-      };
+  // Tracked outside the video element so the camera is released even after unmount
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setVideoTrack(null);
+  };
 
-      // Try to use specific device if available
-      if (videoDevices.length > 0) {
-        const backCamera = videoDevices.find(device => 
-          device.label.toLowerCase().includes('back') || 
-          device.label.toLowerCase().includes('rear') ||
-          device.label.toLowerCase().includes('environment')
-        );
-        const frontCamera = videoDevices.find(device => 
-          device.label.toLowerCase().includes('front') || 
-          device.label.toLowerCase().includes('user')
-        );
-        
-        let selectedDevice;
-        if (facingMode === 'environment' && backCamera) {
-          selectedDevice = backCamera;
-        } else if (facingMode === 'user' && frontCamera) {
-          selectedDevice = frontCamera;
-        } else {
-          selectedDevice = facingMode === 'environment' 
-            ? videoDevices[videoDevices.length - 1]
-            : videoDevices[0];
-        }
+  // Open the picked camera (or the one matching the facing mode) with its
+  // remembered resolution, torch, zoom and exposure. Resolves false, with the
+  // stream stopped, when the start was superseded while it waited.
+  const openCamera = async (isCurrent: () => boolean): Promise<boolean> => {
+    const cameras = await listCameras();
+    const device = cameras.find(camera => camera.deviceId && camera.deviceId === deviceId)
+      ?? pickCamera(cameras, facingMode);
+    const requested = loadDeviceSettings(device?.deviceId ?? '');
 
-        if (selectedDevice) {
-          constraints = {
-            video: {
-              deviceId: { exact: selectedDevice.deviceId },
-              width: { ideal: 1280 },
-              height: { ideal: 720 },
-              frameRate: { ideal: 30 },
-              // @ts-ignore - advanced constraints
-              focusMode: 'continuous',
-              focusDistance: { ideal: 0 }
-            }
-          };
-        }
-      }
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: videoConstraints(device?.deviceId || undefined, facingMode, requested.resolution),
+    });
+    if (!isCurrent()) {
+      stream.getTracks().forEach(track => track.stop());
+      return false;
+    }
+    streamRef.current = stream;
+    const [track] = stream.getVideoTracks();
+    activeCameraRef.current = track?.label || device?.label || facingMode;
 
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play();
+    }
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        await videoRef.current.play();
+    if (track) {
+      // Before the first permission grant deviceIds are hidden, so the saved
+      // settings may only be known now
+      const settings = loadDeviceSettings(track.getSettings().deviceId ?? '');
+      if (settings.resolution !== requested.resolution) {
+        await setResolution(track, settings.resolution).catch(() => {});
       }
+      await restoreDeviceSettings(track, settings);
+    }
+    // A newer start has already stopped this stream
+    if (!isCurrent()) return false;
+    setVideoTrack(track ?? null);
+    // Labels only appear once permission is granted
+    setAvailableCameras(await listCameras());
+    return true;
+  };
 
-      setDebugInfo('📸 OCR Mode - Click to scan or auto-scans every 3s');
+  const startOCROnlyMode = async (isCurrent: () => boolean) => {
+    try {
+      // Start camera without barcode scanning
+      if (!(await openCamera(isCurrent))) return;
 
-      // No auto-scan - user will tap to scan
-      setDebugInfo('📸 OCR Mode - Tap scan button');
+      // Auto-capture (when enabled) runs in its own effect; otherwise the user taps to scan
+      setDebugInfo(ocrIdleMessage());
 
     } catch (err: any) {
+      if (!isCurrent()) return;
       console.error('OCR mode error:', err);
       let errorMessage = 'Failed to start OCR mode: ';
       
@@ -258,165 +543,391 @@ export function BarcodeScanner({ onScan, videoRef }: BarcodeScannerProps) {
 
   const performOCRScan = async () => {
     if (isProcessing) return;
+    if (sessionActive) {
+      await addSessionPage();
+      return;
+    }
+
+    const ocrLabel = OCR_BACKEND_LABELS[ocrConfig.backend];
 
     setIsProcessing(true);
     lastScanTimeRef.current = Date.now();
-    setDebugInfo('🔍 AI reading text...');
+    setDebugInfo(`🔍 ${ocrLabel} reading text...`);
+
+    if (documentMode) {
+      await performDocumentScan();
+      return;
+    }
 
-    const screenshot = captureFrame();
+    const screenshot = await captureFrame();
     if (!screenshot) {
       setIsProcessing(false);
       setDebugInfo('❌ Failed to capture image');
       setTimeout(() => {
-        setDebugInfo('📸 OCR Mode - Tap to scan');
+        setDebugInfo(ocrIdleMessage());
       }, 2000);
       return;
     }
 
+    if (extractionKind === 'product') {
+      await performProductScan(screenshot);
+      return;
+    }
     try {
-      const extractedText = await extractTextWithAI(screenshot);
+      const extractedText = await extractText(screenshot, ocrConfig, (status, progress) => {
+        // Tesseract reports model loading and recognition progress separately
+        setDebugInfo(`🔍 ${ocrLabel}: ${status} ${Math.round(progress * 100)}%`);
+      });
       
       console.log('OCR Result:', extractedText); // Debug log
       
       if (extractedText && extractedText.trim() && extractedText !== 'NO_TEXT_FOUND') {
-        onScan({
-          text: extractedText
+        onScanRef.current({
+          text: extractedText,
+          mode: 'ocr-only',
+          source: ocrLabel,
+          camera: activeCameraRef.current
         });
         setDebugInfo('✅ Text extracted!');
         setTimeout(() => {
-          setDebugInfo('📸 OCR Mode - Tap to scan');
+          setDebugInfo(ocrIdleMessage());
         }, 1500);
       } else {
         setDebugInfo('⚠️ No text detected - Point at clear text');
         setTimeout(() => {
-          setDebugInfo('📸 OCR Mode - Tap to scan');
+          setDebugInfo(ocrIdleMessage());
         }, 2000);
       }
     } catch (err) {
+      if (err instanceof RetryableError) {
+        await queueOCRScan(screenshot, 'text', err);
+        return;
+      }
       console.error('OCR failed:', err);
       setDebugInfo('❌ OCR failed - Try again');
       setTimeout(() => {
-        setDebugInfo('📸 OCR Mode - Tap to scan');
+        setDebugInfo(ocrIdleMessage());
+      }, 2000);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const performProductScan = async (screenshot: string) => {
+    setDebugInfo('🔍 AI reading product fields...');
+
+    try {
+      const product = await extractProductWithAI(screenshot);
+
+      if (product) {
+        onScanRef.current({
+          text: [product.brand, product.productName].filter(Boolean).join(' '),
+          product,
+          mode: 'ocr-only',
+          source: OCR_BACKEND_LABELS.cloud,
+          camera: activeCameraRef.current
+        });
+        setDebugInfo('✅ Product fields extracted!');
+      } else {
+        setDebugInfo('⚠️ No product details detected');
+      }
+    } catch (err) {
+      if (err instanceof RetryableError) {
+        await queueOCRScan(screenshot, 'product', err);
+        return;
+      }
+      console.error('Product extraction failed:', err);
+      setDebugInfo('❌ Extraction failed - Try again');
+    } finally {
+      setIsProcessing(false);
+      setTimeout(() => {
+        setDebugInfo(ocrIdleMessage());
+      }, 2000);
+    }
+  };
+
+  // Full frame rather than the scanner frame: the page is found and flattened first
+  const performDocumentScan = async () => {
+    const video = videoRef.current;
+    const page = video ? captureDocument(video) : null;
+    if (!page) {
+      setIsProcessing(false);
+      setDebugInfo('❌ Failed to capture image');
+      setTimeout(() => setDebugInfo(ocrIdleMessage()), 2000);
+      return;
+    }
+    const image = page.canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+    setDebugInfo(page.corrected ? '🔍 AI reading document (page flattened)...' : '🔍 AI reading document (no page edges found)...');
+
+    try {
+      const document = await extractDocumentWithAI(image);
+
+      if (document) {
+        onScanRef.current({
+          text: documentSummary(document),
+          document,
+          mode: 'ocr-only',
+          source: OCR_BACKEND_LABELS.cloud,
+          camera: activeCameraRef.current
+        });
+        setDebugInfo(`✅ ${document.lineItems.length} line item(s) extracted!`);
+      } else {
+        setDebugInfo('⚠️ No document details detected');
+      }
+    } catch (err) {
+      if (err instanceof RetryableError) {
+        await queueOCRScan(image, 'document', err);
+        return;
+      }
+      console.error('Document extraction failed:', err);
+      setDebugInfo('❌ Extraction failed - Try again');
+    } finally {
+      setIsProcessing(false);
+      setTimeout(() => {
+        setDebugInfo(ocrIdleMessage());
       }, 2000);
+    }
+  };
+
+  // Same framing as a single shot: the page flattened in document mode, otherwise the (preprocessed) frame
+  const capturePage = async (): Promise<string | null> => {
+    if (!documentMode) return captureFrame();
+    const page = videoRef.current ? captureDocument(videoRef.current) : null;
+    return page ? page.canvas.toDataURL('image/jpeg', 0.9).split(',')[1] : null;
+  };
+
+  const addSessionPage = async () => {
+    if (!retakeId && sessionPages.length >= MAX_SESSION_PAGES) {
+      setDebugInfo(`⚠️ Session full (${MAX_SESSION_PAGES} shots) - Read or discard it`);
+      return;
+    }
+
+    setIsProcessing(true);
+    lastScanTimeRef.current = Date.now();
+    const image = await capturePage();
+    setIsProcessing(false);
+    if (!image) {
+      setDebugInfo('❌ Failed to capture image');
+      return;
+    }
+
+    const retakeIndex = sessionPages.findIndex(page => page.id === retakeId);
+    setSessionPages(prev => putPage(prev, image, retakeId));
+    setRetakeId(null);
+    setDebugInfo(retakeIndex >= 0 ? `🔄 Page ${retakeIndex + 1} retaken` : `📄 Page ${sessionPages.length + 1} added`);
+  };
+
+  const submitSession = async () => {
+    if (isProcessing || sessionPages.length === 0) return;
+
+    const ocrLabel = OCR_BACKEND_LABELS[ocrConfig.backend];
+    const images = sessionPages.map(page => page.image);
+    setIsProcessing(true);
+
+    try {
+      const result = await extractSession(images, extractionKind, ocrConfig, (page, total, status) => {
+        setDebugInfo(`🔍 ${ocrLabel} reading page ${page}/${total}${status ? `: ${status}` : ''}...`);
+      });
+
+      if (result) {
+        onScanRef.current({
+          ...result,
+          mode: 'ocr-only',
+          source: ocrLabel,
+          camera: activeCameraRef.current,
+          pages: images.length
+        });
+        setSessionPages([]);
+        setRetakeId(null);
+        setDebugInfo(`✅ ${images.length} page(s) read as one!`);
+      } else {
+        setDebugInfo('⚠️ Nothing detected on these pages');
+      }
+    } catch (err) {
+      // The shots stay in the tray, so the session can simply be read again
+      if (err instanceof NetworkError) {
+        setDebugInfo('📥 Offline - session kept, read it again once back online');
+      } else {
+        console.error('Session extraction failed:', err);
+        setDebugInfo('❌ Extraction failed - Try again');
+      }
     } finally {
       setIsProcessing(false);
+      setTimeout(() => {
+        setDebugInfo(ocrIdleMessage());
+      }, 2500);
     }
   };
 
+  const toggleSession = () => {
+    if (sessionActive && sessionPages.length > 0 && !window.confirm('Discard the captured pages?')) return;
+    setSessionActive(prev => !prev);
+    setSessionPages([]);
+    setRetakeId(null);
+  };
+
+  // No signal: keep the frame and let the offline queue run the AI later
+  // Offline, rate-limited or upstream down: the queue retries the frame later
+  const queueOCRScan = async (screenshot: string, extraction: OcrExtraction, reason: RetryableError) => {
+    const why = reason instanceof NetworkError ? 'Offline' : 'AI unavailable';
+    try {
+      const queueId = await enqueueExtraction(screenshot, extraction);
+      onScanRef.current({
+        text: '',
+        mode: 'ocr-only',
+        source: OCR_BACKEND_LABELS.cloud,
+        camera: activeCameraRef.current,
+        status: 'pending',
+        queueId
+      });
+      setDebugInfo(`📥 ${why} - queued for AI extraction`);
+    } catch (err) {
+      console.error('Failed to queue frame:', err);
+      setDebugInfo(`❌ ${why} and could not queue - Try again`);
+    }
+    setTimeout(() => {
+      setDebugInfo(ocrIdleMessage());
+    }, 2000);
+  };
+
   // INSTANT barcode handler - retail-speed scanning!
-  const handleBarcodeDetected = async (barcodeValue: string, barcodeFormat: string, source: string) => {
+  const handleBarcodeDetected = async (barcode: DecodedBarcode, assessment: BarcodeAssessment) => {
+    const { value: barcodeValue, format: barcodeFormat } = barcode;
     const now = Date.now();
     
-    // Only skip if EXACT same barcode scanned within 1 second
-    if (barcodeValue === lastBarcodeRef.current && now - lastScanTimeRef.current < 1000) {
+    // Skip the same barcode until it has been out of view for the rescan gap,
+    // so a code held in front of the camera is one scan (one unit when counting)
+    if (!repeatGateRef.current.submit(barcodeValue, decoderConfig.rescanGapSeconds * 1000, now)) {
       return;
     }
     
     // Update immediately
-    lastBarcodeRef.current = barcodeValue;
     lastScanTimeRef.current = now;
     
     // Show status
     setDebugInfo(`⚡ ${barcodeValue}`);
     
     // Send barcode IMMEDIATELY
-    onScan({
+    onScanRef.current({
       barcode: {
         value: barcodeValue,
         format: barcodeFormat
       },
-      text: ''
+      parsed: assessment.parsed,
+      validation: assessment.validation,
+      confidence: assessment.confidence,
+      text: '',
+      mode: 'barcode-ocr',
+      source: ENGINE_LABELS[barcode.engine],
+      camera: activeCameraRef.current
     });
     
     setDebugInfo('👁️ Ready');
     
-    // NO AI extraction - pure speed mode
-    // If you need OCR, switch to OCR-only mode
+    // NO AI extraction - pure speed mode. The AI only steps in (when enabled)
+    // after the decoders have found nothing; for text, switch to OCR-only mode
   };
 
-  const startQuagga = () => {
-    if (!videoRef.current || quaggaRunningRef.current) return;
+  const stopAiFallback = () => {
+    if (aiFallbackTimerRef.current) {
+      clearInterval(aiFallbackTimerRef.current);
+      aiFallbackTimerRef.current = null;
+    }
+  };
+
+  // Ask the vision model once the decoders have come up empty for the timeout
+  const startAiFallback = () => {
+    lastDecodeTimeRef.current = Date.now();
+    aiFallbackTimerRef.current = window.setInterval(() => {
+      const { timeoutSeconds, throttleSeconds } = decoderConfig.aiFallback;
+      const now = Date.now();
+      if (aiBusyRef.current || multiModeRef.current || document.hidden || isOffline()) return;
+      if (now - lastDecodeTimeRef.current < timeoutSeconds * 1000) return;
+      if (now - aiAttemptTimeRef.current < throttleSeconds * 1000) return;
+      runAiFallback();
+    }, 500);
+  };
+
+  const runAiFallback = async () => {
+    aiBusyRef.current = true;
+    aiAttemptTimeRef.current = Date.now();
+    setDebugInfo('🤖 No barcode decoded - asking AI...');
 
     try {
-      Quagga.init({
-        inputStream: {
-          name: "Live",
-          type: "LiveStream",
-          target: videoRef.current,
-          constraints: {
-            facingMode: facingMode,
-            width: { ideal: 1920 },
-            height: { ideal: 1080 }
-          },
-          area: { // Focus on center area where user likely points barcode
-            top: "20%",
-            right: "10%",
-            left: "10%",
-            bottom: "20%"
-          }
-        },
-        decoder: {
-          readers: [
-            "code_128_reader",    // USPS tracking, shipping labels - PRIMARY
-            "code_39_reader",     // General purpose
-            "ean_reader",         // Products
-            "upc_reader",         // Products
-            "codabar_reader"      // Other formats
-          ],
-          multiple: false,
-          // Add quality settings for better accuracy
-          debug: {
-            drawBoundingBox: false,
-            showFrequency: false,
-            drawScanline: false,
-            showPattern: false
-          }
-        },
-        locate: true,
-        locator: {
-          patchSize: "medium",       // Medium for speed
-          halfSample: true           // Half sample for SPEED
-        },
-        frequency: 10,               // 10 per second - balance speed and accuracy
-        numOfWorkers: 0,             // Use main thread
-        debug: false
-      }, (err) => {
-        if (err) {
-          console.error('Quagga initialization error:', err);
-          return;
-        }
-        
-        Quagga.start();
-        quaggaRunningRef.current = true;
-        
-        Quagga.onDetected(async (result) => {
-          if (result && result.codeResult && result.codeResult.code) {
-            const code = result.codeResult.code;
-            const format = result.codeResult.format || 'unknown';
-            
-            // Very lenient - accept almost all scans for speed
-            const quality = result.codeResult.decodedCodes
-              .filter((c: any) => c.error !== undefined)
-              .reduce((sum: number, c: any) => sum + c.error, 0) / result.codeResult.decodedCodes.length;
-            
-            // Only reject terrible quality (0.5 = 50% error rate)
-            if (quality > 0.5) {
-              return;
-            }
-            
-            await handleBarcodeDetected(code, format, 'Quagga');
-          }
-        });
+      const screenshot = await captureCroppedFrame();
+      if (!screenshot) return;
+
+      const outcome = await readBarcodeWithAI(screenshot, decoderConfig.symbology);
+      if (outcome.status === 'rejected') {
+        setDebugInfo(`⚠️ AI read ${outcome.value} rejected - ${outcome.reason}`);
+        return;
+      }
+      if (outcome.status === 'none') {
+        setDebugInfo('🤖 AI could not read a barcode - keep aiming');
+        return;
+      }
+
+      const { read } = outcome;
+      repeatGateRef.current.submit(read.barcode.value, decoderConfig.rescanGapSeconds * 1000);
+      lastScanTimeRef.current = Date.now();
+      lastDecodeTimeRef.current = Date.now();
+      onScanRef.current({
+        barcode: read.barcode,
+        parsed: read.parsed,
+        validation: read.validation,
+        confidence: read.confidence,
+        text: read.text,
+        mode: 'barcode-ocr',
+        source: AI_FALLBACK_LABEL,
+        camera: activeCameraRef.current,
+        aiDerived: true
       });
+      setDebugInfo(`🤖 ${read.barcode.value}`);
     } catch (err) {
-      console.error('Quagga start error:', err);
+      // Offline: the decoders keep running, the AI simply sits this one out
+      if (!(err instanceof NetworkError)) console.error('AI fallback failed:', err);
+    } finally {
+      aiBusyRef.current = false;
     }
   };
 
-  const captureFrame = (): string | null => {
+  // Draw the processed frame into the corner preview with timing and skew
+  const showDebugFrame = (frame: ProcessedFrame) => {
+    const canvas = debugCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = 240;
+    canvas.height = Math.round((240 * frame.canvas.height) / frame.canvas.width);
+    ctx.drawImage(frame.canvas, 0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, 0, canvas.width, 16);
+    ctx.fillStyle = '#0f0';
+    ctx.font = '11px monospace';
+    ctx.fillText(
+      `${frame.canvas.width}x${frame.canvas.height} ${frame.durationMs.toFixed(0)}ms skew ${frame.skewDegrees.toFixed(1)}°`,
+      4, 12
+    );
+  };
+
+  // Crop to the on-screen scanner frame and run the preprocessing pipeline
+  const processFrame = async (video: HTMLVideoElement, config: PreprocessConfig) => {
+    processorRef.current ??= createFrameProcessor();
+    const region = config.cropToFrame && frameRef.current ? frameRegion(video, frameRef.current) : null;
+    const processed = await processorRef.current.process(video, region, config);
+    if (processed && config.debugView) showDebugFrame(processed);
+    return processed;
+  };
+
+  const captureFrame = async (): Promise<string | null> => {
     if (!videoRef.current) return null;
 
     try {
+      if (preprocessConfig.enabled) {
+        const processed = await processFrame(videoRef.current, ocrPreprocessConfig(preprocessConfig, ocrConfig.backend));
+        return processed ? processed.canvas.toDataURL('image/jpeg', 0.92).split(',')[1] : null;
+      }
+
+
       const canvas = document.createElement('canvas');
       const video = videoRef.current;
       canvas.width = video.videoWidth;
@@ -425,7 +936,7 @@ export function BarcodeScanner({ onScan, videoRef }: BarcodeScannerProps) {
       
       if (!ctx) return null;
       
-      // Draw original image - NO PROCESSING for maximum speed
+      // Preprocessing off - send the untouched frame
       ctx.drawImage(video, 0, 0);
       
       // Return as JPEG with good quality
@@ -436,139 +947,211 @@ export function BarcodeScanner({ onScan, videoRef }: BarcodeScannerProps) {
     }
   };
 
-  const extractTextWithAI = async (base64Image: string): Promise<string> => {
-    try {
-      // Call OpenRouter API
-      const apiKey = import.meta.env.VITE_OPENROUTER_API_KEY;
-      
-      if (!apiKey) {
-        console.warn('OpenRouter API key not configured');
-        return '';
-      }
-
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.href,
-        },
-        body: JSON.stringify({
-          model: 'openai/gpt-4o-mini',
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: 'You are an expert OCR system. Extract ALL text visible in this image. Read everything - words, numbers, labels, signs, product names, brands, prices, dates, addresses, handwriting, printed text, etc. Even if text is blurry, tilted, small, faded, or partially obscured - do your best to read it. Format the output as plain text, preserving line breaks where appropriate. If you see NOTHING readable at all, return the text "NO_TEXT_FOUND".'
-                },
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: `data:image/jpeg;base64,${base64Image}`
-                  }
-                }
-              ]
-            }
-          ],
-          max_tokens: 500,
-          temperature: 0.1
-        })
-      });
+  // Just the scanner frame area - fewer tokens and no neighbouring codes for the AI to mix up
+  const captureCroppedFrame = async (): Promise<string | null> => {
+    if (!videoRef.current) return null;
 
-      const data = await response.json();
-      
-      console.log('AI Text Extraction response:', data);
-      
-      if (data.error) {
-        console.error('AI API Error:', data.error);
-        return '';
-      }
-      
-      if (data.choices && data.choices[0]?.message?.content) {
-        const text = data.choices[0].message.content.trim();
-        
-        // Check if AI found no text
-        if (text === 'NO_TEXT_FOUND' || text === '') {
-          return '';
-        }
-        
-        return text;
-      }
-      
-      return '';
+    const config: PreprocessConfig = preprocessConfig.enabled
+      ? { ...ocrPreprocessConfig(preprocessConfig, 'cloud'), cropToFrame: true, debugView: false }
+      : AI_CROP_ONLY;
+    try {
+      const processed = await processFrame(videoRef.current, config);
+      return processed ? processed.canvas.toDataURL('image/jpeg', 0.92).split(',')[1] : null;
     } catch (err) {
-      console.error('Text extraction error:', err);
-      return '';
+      console.error('Frame capture error:', err);
+      return null;
     }
   };
 
   const toggleCamera = () => {
+    // Flipping front/back goes back to automatic device selection
+    selectDevice('');
     setFacingMode(prev => prev === 'environment' ? 'user' : 'environment');
   };
 
+  const selectDevice = (id: string) => {
+    setDeviceId(id);
+    savePreferredDevice(id);
+  };
+
+  const handleVideoTap = async (e: React.MouseEvent<HTMLVideoElement>) => {
+    const video = videoRef.current;
+    if (!video || !videoTrack) return;
+    const point = pointInVideo(video, e.clientX, e.clientY);
+    if (!point) return;
+
+    try {
+      if (!await focusAt(videoTrack, point.x, point.y)) return;
+      const view = video.getBoundingClientRect();
+      setFocusPoint({ x: e.clientX - view.left, y: e.clientY - view.top });
+      setTimeout(() => setFocusPoint(null), 1000);
+    } catch (err) {
+      console.warn('Tap to focus failed:', err);
+    }
+  };
+
+  const toggleMultiMode = () => {
+    setMultiMode(prev => !prev);
+  };
+
+  const selectDetectedBarcode = (barcode: DecodedBarcode) => {
+    // The user picked this code explicitly, so only the check digit gates it
+    const assessment = assessBarcode(barcode);
+    if (!assessment.validation.valid) {
+      setDebugInfo(`⚠️ Rejected ${barcode.value} - ${assessment.validation.reason}`);
+      return;
+    }
+    setSelectedBarcode(barcode.value);
+    handleBarcodeDetected(barcode, assessment);
+  };
+
   const toggleScanMode = () => {
     setScanMode(prev => prev === 'barcode-ocr' ? 'ocr-only' : 'barcode-ocr');
   };
 
   return (
-    <div className="scanner-container">
-      <video 
-        ref={videoRef} 
-        className="scanner-video"
-        playsInline
-        autoPlay
-        muted
-      />
-      <div className="scanner-overlay">
-        <div className="scanner-frame">
-          <div className="corner top-left"></div>
-          <div className="corner top-right"></div>
-          <div className="corner bottom-left"></div>
-          <div className="corner bottom-right"></div>
-          <div className="scan-line"></div>
+    <>
+      <div className="scanner-container">
+        <video 
+          ref={videoRef} 
+          className="scanner-video"
+          playsInline
+          autoPlay
+          muted
+          onClick={handleVideoTap}
+        />
+        {focusPoint && (
+          <div className="focus-ring" style={{ left: focusPoint.x, top: focusPoint.y }} />
+        )}
+        <div className="scanner-overlay">
+          <div className="scanner-frame" ref={frameRef}>
+            <div className="corner top-left"></div>
+            <div className="corner top-right"></div>
+            <div className="corner bottom-left"></div>
+            <div className="corner bottom-right"></div>
+            {!multiMode && <div className="scan-line"></div>}
+          </div>
         </div>
-      </div>
-      <button 
-        className="mode-toggle-btn" 
-        onClick={toggleScanMode}
-        aria-label="Toggle scan mode"
-        title={scanMode === 'barcode-ocr' ? 'Switch to OCR Only' : 'Switch to Barcode + OCR'}
-      >
-        {scanMode === 'barcode-ocr' ? '📊' : '📝'}
-      </button>
-      {availableCameras.length > 1 && (
+        {ruleFlash && <div className={`rule-flash ${ruleFlash}`} />}
+        {pageQuad && videoRef.current && (
+          <svg
+            className="barcode-overlay page-outline"
+            viewBox={`0 0 ${videoRef.current.videoWidth} ${videoRef.current.videoHeight}`}
+            preserveAspectRatio="xMidYMid slice"
+          >
+            <polygon points={pageQuad.map(p => `${p.x},${p.y}`).join(' ')} />
+          </svg>
+        )}
+        {stability && (
+          <div className={`stability-indicator ${stability.status}`}>
+            <span>{STABILITY_LABELS[stability.status]}</span>
+            <div className="stability-progress">
+              <div style={{ width: `${Math.round(stability.progress * 100)}%` }} />
+            </div>
+          </div>
+        )}
+        {preprocessConfig.enabled && preprocessConfig.debugView && (
+          <canvas ref={debugCanvasRef} className="preprocess-debug" aria-label="Processed frame" />
+        )}
+        {multiMode && scanMode === 'barcode-ocr' && (
+          <BarcodeOverlay
+            barcodes={detectedBarcodes}
+            videoWidth={videoRef.current?.videoWidth ?? 0}
+            videoHeight={videoRef.current?.videoHeight ?? 0}
+            selectedValue={selectedBarcode}
+            onSelect={selectDetectedBarcode}
+          />
+        )}
         <button 
-          className="camera-switch-btn" 
-          onClick={toggleCamera}
-          aria-label="Switch camera"
+          className="mode-toggle-btn" 
+          onClick={toggleScanMode}
+          aria-label="Toggle scan mode"
+          title={scanMode === 'barcode-ocr' ? 'Switch to OCR Only' : 'Switch to Barcode + OCR'}
         >
-          🔄
+          {scanMode === 'barcode-ocr' ? '📊' : '📝'}
         </button>
-      )}
-      {scanMode === 'ocr-only' && (
-        <button 
-          className="ocr-scan-btn" 
-          onClick={performOCRScan}
-          disabled={isProcessing}
-          aria-label="Scan text"
-        >
-          {isProcessing ? '⏳' : '📸'}
-        </button>
-      )}
-      {error && (
-        <div className="error-message">
-          <p>{error}</p>
+        {scanMode === 'barcode-ocr' && (
+          <button 
+            className={`multi-toggle-btn ${multiMode ? 'active' : ''}`}
+            onClick={toggleMultiMode}
+            aria-label="Toggle multi-barcode mode"
+            title={multiMode ? 'Single barcode mode' : 'Detect all barcodes in frame'}
+          >
+            🔲
+          </button>
+        )}
+        {availableCameras.length > 1 && (
+          <button 
+            className="camera-switch-btn" 
+            onClick={toggleCamera}
+            aria-label="Switch camera"
+          >
+            🔄
+          </button>
+        )}
+        {scanMode === 'ocr-only' && (
+          <button
+            className={`session-toggle-btn ${sessionActive ? 'active' : ''}`}
+            onClick={toggleSession}
+            aria-label="Toggle capture session"
+            title={sessionActive ? 'Single-shot capture' : 'Capture several shots as one result'}
+          >
+            📚
+          </button>
+        )}
+        {scanMode === 'ocr-only' && (
+          <button 
+            className="ocr-scan-btn" 
+            onClick={performOCRScan}
+            disabled={isProcessing}
+            aria-label={sessionActive ? 'Add page' : 'Scan text'}
+          >
+            {isProcessing ? '⏳' : sessionActive ? '➕' : '📸'}
+          </button>
+        )}
+        {error && (
+          <div className="error-message">
+            <p>{error}</p>
+          </div>
+        )}
+        <div className="debug-info">
+          {isProcessing && <span className="processing-spinner">⏳ </span>}
+          {debugInfo}
+        </div>
+        <div className="mode-indicator">
+          {scanMode === 'barcode-ocr'
+            ? '📊 Barcode + OCR'
+            : `📝 OCR Only · ${ocrConfig.backend === 'local' ? '💻 Offline' : '☁️ Cloud'}${
+              extractionKind === 'product' ? ' · 🏷️ Product' : ''}${
+              documentMode ? ' · 📄 Document' : ''}${
+              sessionActive ? ' · 📚 Session' : ''}${
+              ocrConfig.autoCapture ? ' · 🎯 Auto' : ''}`}
         </div>
-      )}
-      <div className="debug-info">
-        {isProcessing && <span className="processing-spinner">⏳ </span>}
-        {debugInfo}
-      </div>
-      <div className="mode-indicator">
-        {scanMode === 'barcode-ocr' ? '📊 Barcode + OCR' : '📝 OCR Only'}
       </div>
-    </div>
+      {scanMode === 'ocr-only' && sessionActive && (
+        <CaptureSessionTray
+          pages={sessionPages}
+          retakeId={retakeId}
+          busy={isProcessing}
+          onMove={(id, offset) => setSessionPages(prev => movePage(prev, id, offset))}
+          onRetake={setRetakeId}
+          onRemove={id => {
+            setSessionPages(prev => prev.filter(page => page.id !== id));
+            if (retakeId === id) setRetakeId(null);
+          }}
+          onSubmit={submitSession}
+          onDiscard={() => {
+            setSessionPages([]);
+            setRetakeId(null);
+          }}
+        />
+      )}
+      <CameraControls
+        track={videoTrack}
+        cameras={availableCameras}
+        selectedDeviceId={deviceId}
+        onSelectDevice={selectDevice}
+      />
+    </>
   );
 }
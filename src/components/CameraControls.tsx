@@ -0,0 +1,154 @@
+import { useEffect, useReducer, useState } from 'react';
+import {
+  RESOLUTIONS,
+  getCameraCapabilities,
+  loadDeviceSettings,
+  saveDeviceSettings,
+  setExposureCompensation,
+  setResolution,
+  setTorch,
+  setZoom,
+} from '../lib/camera';
+import type { CameraCapabilities, DeviceSettings, ResolutionId } from '../lib/camera';
+
+interface CameraControlsProps {
+  track: MediaStreamTrack | null;
+  cameras: MediaDeviceInfo[];
+  selectedDeviceId: string;          // '' = automatic by facing mode
+  onSelectDevice: (deviceId: string) => void;
+}
+
+export function CameraControls({ track, cameras, selectedDeviceId, onSelectDevice }: CameraControlsProps) {
+  const [capabilities, setCapabilities] = useState<CameraCapabilities | null>(null);
+  const [settings, setSettings] = useState<DeviceSettings>(() => loadDeviceSettings(''));
+  const [error, setError] = useState('');
+  // Track settings change under us after applyConstraints; re-read them
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+
+  const activeDeviceId = track?.getSettings().deviceId ?? '';
+
+  useEffect(() => {
+    setError('');
+    setCapabilities(track ? getCameraCapabilities(track) : null);
+    setSettings(loadDeviceSettings(track?.getSettings().deviceId ?? ''));
+  }, [track]);
+
+  const update = (patch: Partial<DeviceSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveDeviceSettings(activeDeviceId, next);
+  };
+
+  // Constraint changes can be rejected mid-stream (e.g. torch while another app holds it)
+  const apply = (action: Promise<void>) => {
+    action.then(() => { setError(''); refresh(); }).catch(err => {
+      console.warn('Camera control failed:', err);
+      setError('This camera rejected the setting');
+    });
+  };
+
+  const toggleTorch = () => {
+    if (!track) return;
+    apply(setTorch(track, !settings.torch));
+    update({ torch: !settings.torch });
+  };
+
+  const changeZoom = (zoom: number) => {
+    if (!track) return;
+    apply(setZoom(track, zoom));
+    update({ zoom });
+  };
+
+  const changeExposure = (exposureCompensation: number) => {
+    if (!track) return;
+    apply(setExposureCompensation(track, exposureCompensation));
+    update({ exposureCompensation });
+  };
+
+  const changeResolution = (resolution: ResolutionId) => {
+    if (!track) return;
+    apply(setResolution(track, resolution));
+    update({ resolution });
+  };
+
+  const trackSettings = track?.getSettings();
+
+  return (
+    <div className="camera-controls">
+      <div className="camera-controls-row">
+        {cameras.length > 1 && (
+          <select
+            value={selectedDeviceId}
+            onChange={e => onSelectDevice(e.target.value)}
+            aria-label="Camera"
+          >
+            <option value="">Auto (front/back)</option>
+            {cameras.map((camera, index) => (
+              <option key={camera.deviceId || index} value={camera.deviceId}>
+                {camera.label || `Camera ${index + 1}`}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={settings.resolution}
+          onChange={e => changeResolution(e.target.value as ResolutionId)}
+          aria-label="Resolution"
+          disabled={!track}
+        >
+          {RESOLUTIONS.map(r => (
+            <option key={r.id} value={r.id}>{r.label}</option>
+          ))}
+        </select>
+        {capabilities?.torch && (
+          <button
+            className={`torch-btn ${settings.torch ? 'active' : ''}`}
+            onClick={toggleTorch}
+            aria-label="Toggle torch"
+            aria-pressed={settings.torch}
+          >
+            🔦
+          </button>
+        )}
+        {trackSettings?.width && (
+          <span className="camera-resolution">{trackSettings.width}×{trackSettings.height}</span>
+        )}
+      </div>
+
+      {capabilities?.zoom && (
+        <label className="camera-slider">
+          🔍 Zoom
+          <input
+            type="range"
+            min={capabilities.zoom.min}
+            max={capabilities.zoom.max}
+            step={capabilities.zoom.step}
+            value={settings.zoom ?? capabilities.zoom.min}
+            onChange={e => changeZoom(Number(e.target.value))}
+          />
+          <span>{(settings.zoom ?? capabilities.zoom.min).toFixed(1)}×</span>
+        </label>
+      )}
+
+      {capabilities?.exposureCompensation && (
+        <label className="camera-slider">
+          ☀️ Exposure
+          <input
+            type="range"
+            min={capabilities.exposureCompensation.min}
+            max={capabilities.exposureCompensation.max}
+            step={capabilities.exposureCompensation.step}
+            value={settings.exposureCompensation ?? 0}
+            onChange={e => changeExposure(Number(e.target.value))}
+          />
+          <span>{(settings.exposureCompensation ?? 0).toFixed(1)}</span>
+        </label>
+      )}
+
+      {capabilities && (capabilities.pointsOfInterest || capabilities.focusModes.includes('single-shot')) && (
+        <div className="camera-hint">Tap the video to focus.</div>
+      )}
+      {error && <div className="camera-hint camera-error">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { MAX_SESSION_PAGES } from '../lib/captureSession';
+import type { SessionPage } from '../lib/captureSession';
+
+interface CaptureSessionTrayProps {
+  pages: SessionPage[];
+  retakeId: string | null;  // Page the next shot replaces
+  busy: boolean;
+  onMove: (id: string, offset: number) => void;
+  onRetake: (id: string | null) => void;
+  onRemove: (id: string) => void;
+  onSubmit: () => void;
+  onDiscard: () => void;
+}
+
+export function CaptureSessionTray({
+  pages,
+  retakeId,
+  busy,
+  onMove,
+  onRetake,
+  onRemove,
+  onSubmit,
+  onDiscard,
+}: CaptureSessionTrayProps) {
+  const retakeIndex = pages.findIndex(page => page.id === retakeId);
+
+  return (
+    <div className="session-tray">
+      <div className="session-header">
+        <span>📚 Capture session · {pages.length}/{MAX_SESSION_PAGES}</span>
+        <span className="session-hint">
+          {retakeIndex >= 0
+            ? `Next shot replaces page ${retakeIndex + 1}`
+            : pages.length === 0 ? 'Take a shot of each side or page' : 'Shots overlapping a little stitch best'}
+        </span>
+      </div>
+
+      {pages.length > 0 && (
+        <ol className="session-pages">
+          {pages.map((page, index) => (
+            <li key={page.id} className={page.id === retakeId ? 'retake' : ''}>
+              <img src={`data:image/jpeg;base64,${page.image}`} alt={`Page ${index + 1}`} />
+              <div className="session-page-actions">
+                <button onClick={() => onMove(page.id, -1)} disabled={busy || index === 0} aria-label="Move page left">
+                  ◀
+                </button>
+                <button
+                  onClick={() => onRetake(page.id === retakeId ? null : page.id)}
+                  disabled={busy}
+                  aria-label={`Retake page ${index + 1}`}
+                >
+                  🔄
+                </button>
+                <button onClick={() => onRemove(page.id)} disabled={busy} aria-label={`Remove page ${index + 1}`}>
+                  ✕
+                </button>
+                <button
+                  onClick={() => onMove(page.id, 1)}
+                  disabled={busy || index === pages.length - 1}
+                  aria-label="Move page right"
+                >
+                  ▶
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="session-actions">
+        <button onClick={onSubmit} className="session-submit" disabled={busy || pages.length === 0}>
+          ✅ Read {pages.length} page(s) as one
+        </button>
+        <button onClick={onDiscard} className="session-discard" disabled={busy || pages.length === 0}>
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { CatalogProduct } from '../lib/catalog';
+
+interface CatalogCardProps {
+  product: CatalogProduct;
+}
+
+export function CatalogCard({ product }: CatalogCardProps) {
+  const price = product.price !== undefined
+    ? `${product.price.toFixed(2)}${product.currency ? ` ${product.currency}` : ''}`
+    : undefined;
+
+  return (
+    <div className="catalog-section">
+      <div className="section-title">🛒 Catalog</div>
+      <div className="catalog-card">
+        {product.imageUrl && (
+          <img src={product.imageUrl} alt={product.name ?? ''} className="catalog-image" loading="lazy" />
+        )}
+        <div className="catalog-details">
+          <div className="catalog-name">{product.name ?? 'Unnamed product'}</div>
+          {product.brand && <div className="catalog-brand">{product.brand}</div>}
+          <div className="catalog-facts">
+            {price && <span>💶 {price}</span>}
+            {product.stock !== undefined && (
+              <span className={product.stock > 0 ? 'catalog-in-stock' : 'catalog-out-of-stock'}>
+                📦 {product.stock} in stock
+              </span>
+            )}
+            {product.sku && <span>#{product.sku}</span>}
+          </div>
+          <div className="catalog-provider">via {product.provider}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  ALL_PROVIDERS,
+  PROVIDER_LABELS,
+  clearCatalog,
+  clearLookupCache,
+  countCatalog,
+  importCatalog,
+} from '../lib/catalog';
+import type { LookupConfig, ProviderId } from '../lib/catalog';
+import { formatHeaderLines, parseHeaderLines } from '../lib/webhooks';
+
+interface CatalogSettingsProps {
+  config: LookupConfig;
+  onChange: (config: LookupConfig) => void;
+}
+
+export function CatalogSettings({ config, onChange }: CatalogSettingsProps) {
+  const [catalogSize, setCatalogSize] = useState<number | null>(null);
+  const [status, setStatus] = useState('');
+  const [replace, setReplace] = useState(false);
+  const [headersText, setHeadersText] = useState(() => formatHeaderLines(config.http.headers));
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    countCatalog().then(setCatalogSize).catch(() => setCatalogSize(null));
+  }, []);
+
+  // Cached answers reflect the old provider set, so drop them on any change
+  const update = (next: LookupConfig) => {
+    onChange(next);
+    clearLookupCache().catch(err => console.error('Failed to clear lookup cache:', err));
+  };
+
+  const toggleProvider = (id: ProviderId) => {
+    const providers = config.providers.includes(id)
+      ? config.providers.filter(p => p !== id)
+      // Lookup order follows the list order, not click order
+      : ALL_PROVIDERS.filter(p => p === id || config.providers.includes(p));
+    update({ ...config, providers });
+  };
+
+  const handleImport = async (file: File) => {
+    setStatus(`⏳ Importing ${file.name}...`);
+    try {
+      const { imported, skipped } = await importCatalog(await file.text(), file.name, replace);
+      setCatalogSize(await countCatalog());
+      await clearLookupCache();
+      setStatus(`✅ Imported ${imported} products${skipped ? `, skipped ${skipped} rows without a valid GTIN` : ''}`);
+    } catch (err) {
+      console.error('Catalog import failed:', err);
+      setStatus(`❌ ${err instanceof Error ? err.message : 'Import failed'}`);
+    }
+  };
+
+  const handleClear = async () => {
+    await clearCatalog();
+    await clearLookupCache();
+    setCatalogSize(0);
+    setStatus('Catalog cleared');
+  };
+
+  return (
+    <details className="settings-panel">
+      <summary>🛒 Product Lookup</summary>
+
+      <div className="settings-hint">
+        Enabled providers are tried in this order; earlier ones win, later ones fill in missing fields.
+      </div>
+      <div className="settings-row">
+        {ALL_PROVIDERS.map(id => (
+          <label key={id}>
+            <input
+              type="checkbox"
+              checked={config.providers.includes(id)}
+              onChange={() => toggleProvider(id)}
+            />
+            {PROVIDER_LABELS[id]}
+          </label>
+        ))}
+      </div>
+
+      <div className="settings-hint">
+        Local catalog: {catalogSize ?? '…'} products. Import CSV or JSON with a GTIN/EAN column and any of
+        name, brand, image, price, currency, stock, sku.
+      </div>
+      <div className="settings-row">
+        <label>
+          <input type="checkbox" checked={replace} onChange={e => setReplace(e.target.checked)} />
+          Replace existing
+        </label>
+      </div>
+      <div className="settings-actions">
+        <button onClick={() => inputRef.current?.click()} className="copy-btn">📥 Import Catalog</button>
+        <button onClick={handleClear} className="clear-btn" disabled={!catalogSize}>Clear</button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          hidden
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {status && <div className="settings-hint">{status}</div>}
+
+      {config.providers.includes('http') && (
+        <>
+          <div className="settings-hint">
+            Custom API: GET the URL with {'{gtin}'} replaced; respond with JSON fields name, brand, imageUrl,
+            price, currency, stock, sku (404 = unknown).
+          </div>
+          <div className="settings-row">
+            <input
+              type="url"
+              value={config.http.urlTemplate}
+              onChange={e => update({ ...config, http: { ...config.http, urlTemplate: e.target.value.trim() } })}
+              placeholder="https://erp.example.com/items/{gtin}"
+              className="webhook-url"
+            />
+          </div>
+          <textarea
+            value={headersText}
+            onChange={e => setHeadersText(e.target.value)}
+            onBlur={() => update({ ...config, http: { ...config.http, headers: parseHeaderLines(headersText) } })}
+            placeholder="Authorization: Bearer ..."
+            rows={2}
+            className="webhook-headers"
+          />
+        </>
+      )}
+
+      <div className="settings-row">
+        <label>
+          Cache hours{' '}
+          <input
+            type="number"
+            min={0}
+            value={config.cacheHours}
+            onChange={e => onChange({ ...config, cacheHours: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </label>
+        <button onClick={() => clearLookupCache().then(() => setStatus('Lookup cache cleared'))} className="clear-btn">
+          Clear Cache
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import {
+  ALL_ENGINES,
+  ENGINE_LABELS,
+  getEngineStats,
+  resetEngineStats,
+} from '../lib/decoders';
+import type { AiFallbackConfig, DecodeStrategy, DecoderConfig, EngineId } from '../lib/decoders';
+
+interface DecoderSettingsProps {
+  config: DecoderConfig;
+  onChange: (config: DecoderConfig) => void;
+}
+
+const STRATEGY_LABELS: Record<DecodeStrategy, string> = {
+  priority: 'Priority order (fallback to next engine)',
+  'first-wins': 'Parallel - first result wins',
+  consensus: 'Parallel - consensus voting',
+};
+
+export function DecoderSettings({ config, onChange }: DecoderSettingsProps) {
+  const [stats, setStats] = useState(getEngineStats);
+
+  // Enabled engines first in priority order, then the disabled ones
+  const ordered: EngineId[] = [
+    ...config.engines,
+    ...ALL_ENGINES.filter(id => !config.engines.includes(id)),
+  ];
+
+  const toggleEngine = (id: EngineId) => {
+    const engines = config.engines.includes(id)
+      ? config.engines.filter(e => e !== id)
+      : [...config.engines, id];
+    if (engines.length === 0) return; // Always keep at least one engine
+    onChange({ ...config, engines });
+  };
+
+  const moveEngine = (id: EngineId, delta: number) => {
+    const engines = [...config.engines];
+    const index = engines.indexOf(id);
+    const target = index + delta;
+    if (index < 0 || target < 0 || target >= engines.length) return;
+    [engines[index], engines[target]] = [engines[target], engines[index]];
+    onChange({ ...config, engines });
+  };
+
+  const setAiFallback = (patch: Partial<AiFallbackConfig>) => {
+    onChange({ ...config, aiFallback: { ...config.aiFallback, ...patch } });
+  };
+
+  return (
+    <details className="settings-panel">
+      <summary>⚙️ Decoder Engines</summary>
+
+      <div className="settings-row">
+        <label>
+          Strategy{' '}
+          <select
+            value={config.strategy}
+            onChange={e => onChange({ ...config, strategy: e.target.value as DecodeStrategy })}
+          >
+            {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        {config.strategy === 'consensus' && (
+          <label>
+            Engines that must agree{' '}
+            <input
+              type="number"
+              min={1}
+              max={ALL_ENGINES.length}
+              value={config.consensusMin}
+              onChange={e => onChange({ ...config, consensusMin: Number(e.target.value) || 1 })}
+            />
+          </label>
+        )}
+        <label>
+          Read the same code again after{' '}
+          <input
+            type="number"
+            min={0.5}
+            max={30}
+            step={0.5}
+            value={config.rescanGapSeconds}
+            onChange={e => onChange({ ...config, rescanGapSeconds: Number(e.target.value) || 0.5 })}
+          />
+          {' '}s out of view
+        </label>
+      </div>
+
+      <ul className="engine-list">
+        {ordered.map(id => {
+          const enabled = config.engines.includes(id);
+          const index = config.engines.indexOf(id);
+          return (
+            <li key={id} className={enabled ? '' : 'disabled'}>
+              <label>
+                <input type="checkbox" checked={enabled} onChange={() => toggleEngine(id)} />
+                {enabled && <span className="engine-rank">{index + 1}.</span>}
+                {ENGINE_LABELS[id]}
+              </label>
+              {enabled && (
+                <span className="engine-order">
+                  <button onClick={() => moveEngine(id, -1)} disabled={index === 0} aria-label="Move up">▲</button>
+                  <button onClick={() => moveEngine(id, 1)} disabled={index === config.engines.length - 1} aria-label="Move down">▼</button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="settings-row">
+        <label>
+          <input
+            type="checkbox"
+            checked={config.aiFallback.enabled}
+            onChange={e => setAiFallback({ enabled: e.target.checked })}
+          />
+          🤖 AI fallback for worn labels
+        </label>
+        {config.aiFallback.enabled && (
+          <>
+            <label>
+              after{' '}
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={config.aiFallback.timeoutSeconds}
+                onChange={e => setAiFallback({ timeoutSeconds: Number(e.target.value) || 1 })}
+              />
+              {' '}s without a read
+            </label>
+            <label>
+              at most every{' '}
+              <input
+                type="number"
+                min={1}
+                max={300}
+                value={config.aiFallback.throttleSeconds}
+                onChange={e => setAiFallback({ throttleSeconds: Number(e.target.value) || 1 })}
+              />
+              {' '}s
+            </label>
+          </>
+        )}
+      </div>
+      {config.aiFallback.enabled && (
+        <div className="settings-hint">
+          Each attempt is a paid AI request. Reads are only accepted when their check digit verifies.
+        </div>
+      )}
+
+      <table className="engine-stats">
+        <thead>
+          <tr>
+            <th>Engine</th>
+            <th>Frames</th>
+            <th>Hit rate</th>
+            <th>Avg ms</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ALL_ENGINES.map(id => {
+            const { attempts, hits, totalMs } = stats[id];
+            return (
+              <tr key={id}>
+                <td>{ENGINE_LABELS[id]}</td>
+                <td>{attempts}</td>
+                <td>{attempts ? `${Math.round((hits / attempts) * 100)}%` : '-'}</td>
+                <td>{attempts ? (totalMs / attempts).toFixed(1) : '-'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="settings-actions">
+        <button onClick={() => setStats(getEngineStats())} className="copy-btn">🔄 Refresh stats</button>
+        <button onClick={() => { resetEngineStats(); setStats(getEngineStats()); }} className="clear-btn">Reset</button>
+      </div>
+    </details>
+  );
+}
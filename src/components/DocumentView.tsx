@@ -0,0 +1,69 @@
+import { DOCUMENT_FIELD_LABELS, DOCUMENT_TYPE_LABELS, formatAmount, lineItemsMismatch } from '../lib/documentExtraction';
+import type { DocumentInfo } from '../lib/documentExtraction';
+
+interface DocumentViewProps {
+  document: DocumentInfo;
+}
+
+const AMOUNT_FIELDS = ['subtotal', 'tax', 'total'] as const;
+
+export function DocumentView({ document }: DocumentViewProps) {
+  const { currency } = document;
+  const mismatch = lineItemsMismatch(document);
+
+  return (
+    <div className="document-view">
+      <table className="product-fields">
+        <tbody>
+          <tr>
+            <th>{DOCUMENT_FIELD_LABELS.documentType}</th>
+            <td>{DOCUMENT_TYPE_LABELS[document.documentType]}</td>
+          </tr>
+          {(['vendor', 'documentNumber', 'date'] as const).filter(field => document[field] !== null).map(field => (
+            <tr key={field}>
+              <th>{DOCUMENT_FIELD_LABELS[field]}</th>
+              <td>{document[field]}</td>
+            </tr>
+          ))}
+          {AMOUNT_FIELDS.filter(field => document[field] !== null).map(field => (
+            <tr key={field}>
+              <th>{DOCUMENT_FIELD_LABELS[field]}</th>
+              <td>{formatAmount(document[field], currency)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {document.lineItems.length > 0 && (
+        <table className="document-lines">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>SKU</th>
+              <th>Qty</th>
+              <th>Unit</th>
+              <th>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {document.lineItems.map((item, index) => (
+              <tr key={index}>
+                <td>{item.description}</td>
+                <td>{item.sku ?? ''}</td>
+                <td>{item.quantity ?? ''}</td>
+                <td>{formatAmount(item.unitPrice, null)}</td>
+                <td>{formatAmount(item.lineTotal, null)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {mismatch !== null && (
+        <div className="settings-hint budget-warning">
+          ⚠️ Line totals are off by {formatAmount(mismatch, currency)} - check for missed or misread lines
+        </div>
+      )}
+    </div>
+  );
+}
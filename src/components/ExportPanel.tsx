@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  exportScans,
+} from '../lib/exportScans';
+import type { ExportableScan, ExportColumn, ExportFormat } from '../lib/exportScans';
+
+interface ExportPanelProps {
+  scans: ExportableScan[];
+  baseName: string;
+}
+
+export function ExportPanel({ scans, baseName }: ExportPanelProps) {
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+
+  const toggleColumn = (column: ExportColumn) => {
+    setColumns(prev => prev.includes(column)
+      ? prev.filter(c => c !== column)
+      // Keep the canonical column order regardless of click order
+      : EXPORT_COLUMNS.map(c => c.key).filter(c => c === column || prev.includes(c)));
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    exportScans(scans, format, columns, baseName);
+  };
+
+  const disabled = scans.length === 0;
+  const hasLineItems = scans.some(scan => scan.document && scan.document.lineItems.length > 0);
+
+  return (
+    <details className="export-panel">
+      <summary>⬇️ Export ({scans.length})</summary>
+      <div className="export-columns">
+        {EXPORT_COLUMNS.map(({ key, label }) => (
+          <label key={key}>
+            <input
+              type="checkbox"
+              checked={columns.includes(key)}
+              onChange={() => toggleColumn(key)}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+      <div className="export-buttons">
+        <button onClick={() => handleExport('csv')} className="copy-btn" disabled={disabled || columns.length === 0}>
+          CSV
+        </button>
+        <button onClick={() => handleExport('spreadsheet')} className="copy-btn" disabled={disabled || columns.length === 0}>
+          Excel CSV
+        </button>
+        <button onClick={() => handleExport('jsonl')} className="copy-btn" disabled={disabled}>
+          JSON Lines
+        </button>
+        <button onClick={() => handleExport('line-items')} className="copy-btn" disabled={!hasLineItems}>
+          Line Items CSV
+        </button>
+      </div>
+    </details>
+  );
+}
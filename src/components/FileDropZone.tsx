@@ -0,0 +1,85 @@
+import { useRef, useState } from 'react';
+import type { ScanResult } from './BarcodeScanner';
+import { ACCEPTED_FILE_TYPES, isSupportedFile, scanFile } from '../lib/fileDecode';
+import type { DecoderConfig } from '../lib/decoders';
+import type { OcrConfig } from '../lib/ocr';
+
+interface FileDropZoneProps {
+  onScan: (data: ScanResult) => void;
+  decoderConfig?: DecoderConfig;
+  ocrConfig?: OcrConfig;
+}
+
+export function FileDropZone({ onScan, decoderConfig, ocrConfig }: FileDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [status, setStatus] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const processFiles = async (files: File[]) => {
+    const supported = files.filter(isSupportedFile);
+    if (supported.length === 0) {
+      setStatus('⚠️ Use JPEG, PNG, WebP or PDF files');
+      return;
+    }
+
+    setIsProcessing(true);
+    let total = 0;
+    // Failures and cut-off notices, shown with the final status so they aren't lost
+    const problems: string[] = [];
+
+    for (const file of supported) {
+      try {
+        const { found, notices } = await scanFile(file, onScan, {
+          decoderConfig,
+          ocrConfig,
+          onProgress: setStatus,
+        });
+        total += found;
+        problems.push(...notices);
+      } catch (err) {
+        console.error(`Failed to scan ${file.name}:`, err);
+        problems.push(`could not read ${file.name}`);
+      }
+    }
+
+    setIsProcessing(false);
+    const summary = total > 0 ? `✅ ${total} result(s) from ${supported.length} file(s)` : '⚠️ Nothing detected';
+    setStatus(problems.length > 0 ? `${summary} - ⚠️ ${problems.join('; ')}` : summary);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (isProcessing) return;
+    processFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    processFiles(Array.from(e.target.files ?? []));
+    e.target.value = ''; // Allow re-selecting the same file
+  };
+
+  return (
+    <div
+      className={`file-drop-zone ${isDragging ? 'dragging' : ''}`}
+      onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      onClick={() => !isProcessing && inputRef.current?.click()}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_FILE_TYPES}
+        multiple
+        hidden
+        onChange={handleChange}
+      />
+      <div className="file-drop-title">
+        {isProcessing ? '⏳ Processing...' : '📁 Drop images or PDFs here, or tap to upload'}
+      </div>
+      {status && <div className="file-drop-status">{status}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import {
+  addCount,
+  compareCounts,
+  createSession,
+  deleteSession,
+  exportSessionCSV,
+  listSessions,
+  parseExpectedList,
+  sessionTotals,
+  setQuantity,
+} from '../lib/inventory';
+import type { CountStatus, InventorySession } from '../lib/inventory';
+
+interface InventoryPanelProps {
+  session: InventorySession | null;
+  onChange: (session: InventorySession | null) => void;
+}
+
+const STATUS_LABELS: Record<CountStatus, string> = {
+  ok: '✅',
+  over: '⬆️ Over',
+  short: '⬇️ Short',
+  unexpected: '❓ Not expected',
+  counted: '',
+};
+
+export function InventoryPanel({ session, onChange }: InventoryPanelProps) {
+  const [saved, setSaved] = useState<InventorySession[]>([]);
+  const [newName, setNewName] = useState('');
+  const [expectedText, setExpectedText] = useState('');
+  const [expectedError, setExpectedError] = useState('');
+  const [onlyDiscrepancies, setOnlyDiscrepancies] = useState(false);
+
+  useEffect(() => {
+    if (session) return;
+    listSessions().then(setSaved).catch(err => console.error('Failed to list sessions:', err));
+  }, [session]);
+
+  if (!session) {
+    return (
+      <div className="results-section inventory-panel">
+        <h2>📦 Inventory Count</h2>
+        <div className="settings-row">
+          <input
+            type="text"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="Session name (e.g. Aisle 4 cycle count)"
+            className="history-search"
+          />
+          <button onClick={() => onChange(createSession(newName))} className="copy-btn">
+            ▶️ Start
+          </button>
+        </div>
+
+        {saved.length > 0 && (
+          <div className="inventory-saved">
+            <div className="section-title">Resume a session</div>
+            {saved.map(s => (
+              <div key={s.id} className="inventory-saved-row">
+                <button onClick={() => onChange(s)} className="copy-btn">
+                  {s.name} · {sessionTotals(s).units} units · {new Date(s.updatedAt).toLocaleString()}
+                </button>
+                <button
+                  onClick={() => deleteSession(s.id!).then(() => setSaved(prev => prev.filter(x => x.id !== s.id)))}
+                  className="clear-btn"
+                  aria-label={`Delete ${s.name}`}
+                >
+                  🗑️
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const totals = sessionTotals(session);
+  const rows = compareCounts(session);
+  const discrepancies = rows.filter(row => row.status === 'over' || row.status === 'short' || row.status === 'unexpected');
+  const visible = onlyDiscrepancies ? discrepancies : rows;
+
+  const applyExpected = () => {
+    try {
+      const expected = parseExpectedList(expectedText);
+      setExpectedError('');
+      onChange({ ...session, expected: Object.keys(expected).length > 0 ? expected : undefined, updatedAt: Date.now() });
+    } catch {
+      setExpectedError('Could not parse the list - use "sku,quantity" per line or JSON');
+    }
+  };
+
+  return (
+    <div className="results-section inventory-panel">
+      <div className="results-header">
+        <h2>📦 {session.name}</h2>
+        <button onClick={() => onChange(null)} className="clear-btn">
+          Close
+        </button>
+      </div>
+
+      <div className="inventory-totals">
+        <span><strong>{totals.skus}</strong> SKUs</span>
+        <span><strong>{totals.units}</strong> units</span>
+        {session.expected && <span><strong>{discrepancies.length}</strong> discrepancies</span>}
+      </div>
+
+      <details className="export-panel">
+        <summary>📋 Expected quantities {session.expected ? `(${Object.keys(session.expected).length})` : ''}</summary>
+        <textarea
+          value={expectedText}
+          onChange={e => setExpectedText(e.target.value)}
+          placeholder={'sku,quantity\n4006381333931,12\n5901234123457,4'}
+          rows={5}
+          className="inventory-expected"
+        />
+        {expectedError && <div className="history-error">{expectedError}</div>}
+        <div className="export-buttons">
+          <button onClick={applyExpected} className="copy-btn">Apply</button>
+        </div>
+      </details>
+
+      {session.expected && (
+        <label className="inventory-filter">
+          <input
+            type="checkbox"
+            checked={onlyDiscrepancies}
+            onChange={e => setOnlyDiscrepancies(e.target.checked)}
+          />
+          Only show discrepancies
+        </label>
+      )}
+
+      {visible.length === 0 ? (
+        <div className="history-empty">Scan a barcode to start counting.</div>
+      ) : (
+        <table className="inventory-table">
+          <thead>
+            <tr>
+              <th>SKU</th>
+              <th>Qty</th>
+              {session.expected && <th>Exp.</th>}
+              {session.expected && <th>Status</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(row => (
+              <tr key={row.sku} className={`inventory-${row.status}`}>
+                <td className="inventory-sku">{row.sku}</td>
+                <td>
+                  <div className="inventory-qty">
+                    <button onClick={() => onChange(addCount(session, row.sku, -1))} aria-label="Decrease">−</button>
+                    <input
+                      type="number"
+                      min={0}
+                      value={row.counted}
+                      onChange={e => onChange(setQuantity(session, row.sku, Math.max(0, Number(e.target.value) || 0)))}
+                    />
+                    <button onClick={() => onChange(addCount(session, row.sku, 1))} aria-label="Increase">+</button>
+                  </div>
+                </td>
+                {session.expected && <td>{row.expected ?? '—'}</td>}
+                {session.expected && (
+                  <td>
+                    {STATUS_LABELS[row.status]}
+                    {row.difference ? ` ${row.difference > 0 ? '+' : ''}${row.difference}` : ''}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="export-buttons">
+        <button onClick={() => exportSessionCSV(session)} className="copy-btn" disabled={rows.length === 0}>
+          ⬇️ Export Count CSV
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 import { useRef, useState } from 'react';
-import Tesseract from 'tesseract.js';
+import { recognizeLocally } from '../lib/localOcr';
 
 interface OCRScannerProps {
   videoRef: React.RefObject<HTMLVideoElement>;
   onOCRResult: (text: string) => void;
+  languages?: string[];
 }
 
-export const OCRScanner = ({ videoRef, onOCRResult }: OCRScannerProps) => {
+export const OCRScanner = ({ videoRef, onOCRResult, languages = ['eng'] }: OCRScannerProps) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [ocrProgress, setOcrProgress] = useState(0);
   const canvasRef = useRef<HTMLCanvasElement>(document.createElement('canvas'));
@@ -36,20 +37,13 @@ export const OCRScanner = ({ videoRef, onOCRResult }: OCRScannerProps) => {
         canvas.toBlob((b) => resolve(b!), 'image/png');
       });
 
-      // Perform OCR
-      const result = await Tesseract.recognize(
-        blob,
-        'eng',
-        {
-          logger: (m) => {
-            if (m.status === 'recognizing text') {
-              setOcrProgress(Math.round(m.progress * 100));
-            }
-          }
+      // Perform OCR on the shared worker
+      const text = await recognizeLocally(blob, languages, (status, progress) => {
+        if (status === 'recognizing text') {
+          setOcrProgress(Math.round(progress * 100));
         }
-      );
+      });
 
-      const text = result.data.text.trim();
       if (text) {
         console.log('📝 OCR Result:', text);
         onOCRResult(text);
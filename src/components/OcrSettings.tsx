@@ -0,0 +1,120 @@
+import { OCR_LANGUAGES } from '../lib/localOcr';
+import type { OcrBackend, OcrConfig, OcrExtraction } from '../lib/ocr';
+
+interface OcrSettingsProps {
+  config: OcrConfig;
+  onChange: (config: OcrConfig) => void;
+}
+
+export function OcrSettings({ config, onChange }: OcrSettingsProps) {
+  const setBackend = (backend: OcrBackend) => {
+    onChange({ ...config, backend });
+  };
+
+  const setExtraction = (extraction: OcrExtraction) => {
+    onChange({ ...config, extraction });
+  };
+
+  const toggleLanguage = (code: string) => {
+    const languages = config.languages.includes(code)
+      ? config.languages.filter(l => l !== code)
+      : [...config.languages, code];
+    if (languages.length === 0) return; // Tesseract needs at least one language
+    onChange({ ...config, languages });
+  };
+
+  return (
+    <details className="settings-panel">
+      <summary>📝 OCR Backend</summary>
+
+      <div className="settings-row">
+        <label>
+          <input
+            type="radio"
+            name="ocr-backend"
+            checked={config.backend === 'cloud'}
+            onChange={() => setBackend('cloud')}
+          />
+          ☁️ Cloud AI (best accuracy, needs connection)
+        </label>
+        <label>
+          <input
+            type="radio"
+            name="ocr-backend"
+            checked={config.backend === 'local'}
+            onChange={() => setBackend('local')}
+          />
+          💻 Local Tesseract (offline, images stay on device)
+        </label>
+      </div>
+
+      <div className="settings-row">
+        <label>
+          Extract{' '}
+          <select
+            value={config.backend === 'local' ? 'text' : config.extraction}
+            onChange={e => setExtraction(e.target.value as OcrExtraction)}
+            disabled={config.backend === 'local'}
+          >
+            <option value="text">All text (free-form)</option>
+            <option value="product">Product fields (name, price, expiry...)</option>
+            <option value="document">Document / receipt (header + line items)</option>
+          </select>
+        </label>
+        {config.backend === 'local' && (
+          <span className="settings-hint">Product and document fields need the cloud backend.</span>
+        )}
+      </div>
+
+      <div className="settings-row">
+        <label>
+          <input
+            type="checkbox"
+            checked={config.autoCapture}
+            onChange={e => onChange({ ...config, autoCapture: e.target.checked })}
+          />
+          🎯 Auto-capture when steady and in focus
+        </label>
+        {config.autoCapture && (
+          <label>
+            Hold{' '}
+            <select
+              value={config.autoCaptureHoldMs}
+              onChange={e => onChange({ ...config, autoCaptureHoldMs: Number(e.target.value) })}
+            >
+              <option value={400}>0.4 s</option>
+              <option value={700}>0.7 s</option>
+              <option value={1200}>1.2 s</option>
+              <option value={2000}>2 s</option>
+            </select>
+          </label>
+        )}
+      </div>
+      {config.autoCapture && (
+        <div className="settings-hint">
+          OCR-only mode fires by itself once the camera holds still on new, sharp content - the same page is never sent twice in a row.
+        </div>
+      )}
+
+      {config.backend === 'local' && (
+        <>
+          <div className="settings-hint">
+            Language packs download once, then work offline.
+          </div>
+          <div className="language-list">
+            {OCR_LANGUAGES.map(({ code, label }) => (
+              <label key={code}>
+                <input
+                  type="checkbox"
+                  checked={config.languages.includes(code)}
+                  onChange={() => toggleLanguage(code)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </details>
+  );
+}
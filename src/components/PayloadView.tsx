@@ -0,0 +1,179 @@
+import { toVCard } from '../lib/payloads';
+import type { ParsedPayload } from '../lib/payloads';
+import { downloadFile } from '../lib/exportScans';
+
+interface PayloadViewProps {
+  payload: ParsedPayload;
+}
+
+const TITLES: Record<ParsedPayload['kind'], string> = {
+  gs1: '🏭 GS1 Data',
+  url: '🔗 Link',
+  contact: '📇 Contact',
+  wifi: '📶 Wi-Fi',
+  email: '✉️ Email',
+  phone: '📞 Phone',
+  sms: '💬 SMS',
+  geo: '📍 Location',
+  emvco: '💳 Payment QR',
+};
+
+const copy = (text: string) => navigator.clipboard.writeText(text);
+
+function PayloadFields({ rows }: { rows: [string, string | undefined][] }) {
+  return (
+    <table className="product-fields">
+      <tbody>
+        {rows.filter(([, value]) => value).map(([label, value]) => (
+          <tr key={label}>
+            <th>{label}</th>
+            <td>{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function PayloadBody({ payload }: PayloadViewProps) {
+  switch (payload.kind) {
+    case 'gs1':
+      return (
+        <PayloadFields
+          rows={payload.fields.map(field => [`(${field.ai}) ${field.label}`, field.display ?? field.value])}
+        />
+      );
+
+    case 'url':
+      return (
+        <>
+          <div className="result-text">{payload.url}</div>
+          <a href={payload.url} target="_blank" rel="noopener noreferrer" className="copy-btn payload-action">
+            🔗 Open Link
+          </a>
+        </>
+      );
+
+    case 'contact':
+      return (
+        <>
+          <PayloadFields
+            rows={[
+              ['Name', payload.name],
+              ['Organization', payload.organization],
+              ['Title', payload.title],
+              ['Phone', payload.phones.join(', ')],
+              ['Email', payload.emails.join(', ')],
+              ['Web', payload.urls.join(', ')],
+              ['Address', payload.address],
+            ]}
+          />
+          <button
+            onClick={() => downloadFile(toVCard(payload), `${payload.name || 'contact'}.vcf`, 'text/vcard')}
+            className="copy-btn payload-action"
+          >
+            📇 Save Contact
+          </button>
+        </>
+      );
+
+    case 'wifi':
+      return (
+        <>
+          <PayloadFields
+            rows={[
+              ['Network', payload.ssid],
+              ['Security', payload.security],
+              ['Hidden', payload.hidden ? 'Yes' : undefined],
+            ]}
+          />
+          {payload.password && (
+            <button onClick={() => copy(payload.password!)} className="copy-btn payload-action">
+              🔑 Copy Password
+            </button>
+          )}
+        </>
+      );
+
+    case 'email': {
+      const params = new URLSearchParams();
+      if (payload.subject) params.set('subject', payload.subject);
+      if (payload.body) params.set('body', payload.body);
+      const query = params.toString();
+      return (
+        <>
+          <PayloadFields rows={[['To', payload.to], ['Subject', payload.subject], ['Body', payload.body]]} />
+          <a href={`mailto:${payload.to}${query ? `?${query}` : ''}`} className="copy-btn payload-action">
+            ✉️ Compose Email
+          </a>
+        </>
+      );
+    }
+
+    case 'phone':
+      return (
+        <>
+          <div className="result-text">{payload.number}</div>
+          <a href={`tel:${payload.number.replace(/\s/g, '')}`} className="copy-btn payload-action">
+            📞 Call
+          </a>
+        </>
+      );
+
+    case 'sms':
+      return (
+        <>
+          <PayloadFields rows={[['To', payload.number], ['Message', payload.body]]} />
+          <a
+            href={`sms:${payload.number}${payload.body ? `?body=${encodeURIComponent(payload.body)}` : ''}`}
+            className="copy-btn payload-action"
+          >
+            💬 Send SMS
+          </a>
+        </>
+      );
+
+    case 'geo':
+      return (
+        <>
+          <PayloadFields
+            rows={[
+              ['Coordinates', `${payload.latitude}, ${payload.longitude}`],
+              ['Query', payload.query],
+            ]}
+          />
+          <a
+            href={`https://www.openstreetmap.org/?mlat=${payload.latitude}&mlon=${payload.longitude}#map=17/${payload.latitude}/${payload.longitude}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="copy-btn payload-action"
+          >
+            📍 Open Map
+          </a>
+        </>
+      );
+
+    case 'emvco':
+      return (
+        <PayloadFields
+          rows={[
+            ['Merchant', payload.merchantName],
+            ['City', payload.merchantCity],
+            ['Country', payload.countryCode],
+            ['Amount', payload.amount && `${payload.amount} ${payload.currency ?? ''}`.trim()],
+            ['Type', payload.dynamic ? 'Dynamic (one-time)' : 'Static'],
+            ['Checksum', payload.crcValid ? '✅ Valid' : '⚠️ Invalid'],
+          ]}
+        />
+      );
+  }
+}
+
+export function PayloadView({ payload }: PayloadViewProps) {
+  return (
+    <div className="payload-section">
+      <div className="section-title">{TITLES[payload.kind]}</div>
+      <PayloadBody payload={payload} />
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import type { PreprocessConfig } from '../lib/preprocess';
+
+interface PreprocessSettingsProps {
+  config: PreprocessConfig;
+  onChange: (config: PreprocessConfig) => void;
+}
+
+const STEPS: { key: keyof PreprocessConfig; label: string }[] = [
+  { key: 'cropToFrame', label: 'Crop to scanner frame' },
+  { key: 'grayscale', label: 'Grayscale' },
+  { key: 'autoContrast', label: 'Auto-contrast (dim aisles)' },
+  { key: 'sharpen', label: 'Sharpen (slight blur)' },
+  { key: 'binarize', label: 'Adaptive binarize (glare, shrink-wrap)' },
+  { key: 'deskew', label: 'Deskew (tilted labels)' },
+];
+
+export function PreprocessSettings({ config, onChange }: PreprocessSettingsProps) {
+  const toggle = (key: keyof PreprocessConfig) => {
+    onChange({ ...config, [key]: !config[key] });
+  };
+
+  return (
+    <details className="settings-panel">
+      <summary>🎛️ Frame Preprocessing {config.enabled ? '' : '(off)'}</summary>
+
+      <div className="settings-row">
+        <label>
+          <input type="checkbox" checked={config.enabled} onChange={() => toggle('enabled')} />
+          Enhance frames before decoding and OCR
+        </label>
+      </div>
+
+      {config.enabled && (
+        <>
+          <div className="language-list">
+            {STEPS.map(({ key, label }) => (
+              <label key={key}>
+                <input type="checkbox" checked={config[key]} onChange={() => toggle(key)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div className="settings-hint">
+            Runs in a background worker. Cloud OCR skips grayscale and binarization - vision models read color better.
+          </div>
+          <div className="settings-row">
+            <label>
+              <input type="checkbox" checked={config.debugView} onChange={() => toggle('debugView')} />
+              🐞 Show processed frame
+            </label>
+          </div>
+        </>
+      )}
+    </details>
+  );
+}
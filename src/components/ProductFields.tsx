@@ -0,0 +1,25 @@
+import { PRODUCT_FIELD_LABELS, formatProductValue } from '../lib/productExtraction';
+import type { ProductInfo } from '../lib/productExtraction';
+
+interface ProductFieldsProps {
+  product: ProductInfo;
+}
+
+// Currency is folded into the price row
+const FIELDS = (Object.keys(PRODUCT_FIELD_LABELS) as (keyof ProductInfo)[])
+  .filter(field => field !== 'currency');
+
+export function ProductFields({ product }: ProductFieldsProps) {
+  return (
+    <table className="product-fields">
+      <tbody>
+        {FIELDS.filter(field => product[field] !== null).map(field => (
+          <tr key={field}>
+            <th>{PRODUCT_FIELD_LABELS[field]}</th>
+            <td>{formatProductValue(product, field)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,296 @@
+import { useRef, useState } from 'react';
+import {
+  FEEDBACK_SOUNDS,
+  FLASH_COLORS,
+  PRODUCT_FIELDS,
+  createRule,
+  isWebUrl,
+  mergeRules,
+  parseRulesJson,
+  playCue,
+  rulesToJson,
+} from '../lib/rules';
+import type { FeedbackSound, FlashColor, Gs1Condition, ProductField, RuleActions, RuleMatch, ScanRule } from '../lib/rules';
+import { compilePattern } from '../lib/decoders';
+import { downloadFile } from '../lib/exportScans';
+
+interface RulesSettingsProps {
+  rules: ScanRule[];
+  onChange: (rules: ScanRule[]) => void;
+}
+
+// "17" or "10 ^LOT" per line <-> GS1 conditions
+const parseGs1Lines = (text: string): Gs1Condition[] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.match(/^\s*\(?(\d{2,4})\)?\s*(.*?)\s*$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, ai, pattern]) => ({ ai, pattern: pattern || undefined }));
+
+const formatGs1Lines = (conditions: Gs1Condition[] = []) =>
+  conditions.map(c => (c.pattern ? `${c.ai} ${c.pattern}` : c.ai)).join('\n');
+
+const parseFormats = (text: string) =>
+  text.split(/[\s,]+/).filter(Boolean).map(format => format.toUpperCase());
+
+const invalidPattern = (pattern?: string) => Boolean(pattern) && !compilePattern(pattern!);
+
+// Preset for pickers: anything that doesn't match the expected pattern is refused loudly
+const wrongItemRule = (): ScanRule => ({
+  ...createRule(),
+  name: 'Wrong item',
+  match: { pattern: '^EXPECTED$', negate: true },
+  actions: { sound: 'error', vibrate: true, flash: 'red', reject: 'Not the expected item' },
+  stop: true,
+});
+
+function RuleEditor({ rule, onChange, onRemove, onMove }: {
+  rule: ScanRule;
+  onChange: (rule: ScanRule) => void;
+  onRemove: () => void;
+  onMove: (offset: number) => void;
+}) {
+  // Free-text fields are parsed on blur so half-typed input survives
+  const [formatsText, setFormatsText] = useState(() => (rule.match.formats ?? []).join(', '));
+  const [gs1Text, setGs1Text] = useState(() => formatGs1Lines(rule.match.gs1));
+
+  const setMatch = (patch: Partial<RuleMatch>) => onChange({ ...rule, match: { ...rule.match, ...patch } });
+  const setActions = (patch: Partial<RuleActions>) => onChange({ ...rule, actions: { ...rule.actions, ...patch } });
+  const { match, actions } = rule;
+
+  return (
+    <div className="webhook-endpoint rule-editor">
+      <div className="settings-row">
+        <label>
+          <input type="checkbox" checked={rule.enabled} onChange={e => onChange({ ...rule, enabled: e.target.checked })} />
+          Enabled
+        </label>
+        <input
+          type="text"
+          value={rule.name}
+          onChange={e => onChange({ ...rule, name: e.target.value })}
+          placeholder="Name (e.g. Lot must start with L)"
+        />
+      </div>
+
+      <div className="rule-section">When</div>
+      <div className="settings-row">
+        <input
+          type="text"
+          value={formatsText}
+          onChange={e => setFormatsText(e.target.value)}
+          onBlur={() => setMatch({ formats: parseFormats(formatsText) })}
+          placeholder="Formats, e.g. EAN_13, CODE_128 (any)"
+        />
+        <input
+          type="text"
+          value={match.pattern ?? ''}
+          onChange={e => setMatch({ pattern: e.target.value || undefined })}
+          placeholder="Value regex, e.g. ^400"
+          className={invalidPattern(match.pattern) ? 'input-invalid' : ''}
+        />
+      </div>
+      <textarea
+        value={gs1Text}
+        onChange={e => setGs1Text(e.target.value)}
+        onBlur={() => setMatch({ gs1: parseGs1Lines(gs1Text) })}
+        placeholder={'GS1 AIs that must be present, one per line, optional regex:\n17\n10 ^L\\d+'}
+        rows={2}
+        className="webhook-headers"
+      />
+      <div className="settings-row">
+        <label>
+          Catalog{' '}
+          <select
+            value={match.lookup ?? ''}
+            onChange={e => setMatch({ lookup: (e.target.value || undefined) as RuleMatch['lookup'] })}
+          >
+            <option value="">Any</option>
+            <option value="found">Product found</option>
+            <option value="not-found">Product not found</option>
+          </select>
+        </label>
+        <select
+          value={match.product?.field ?? ''}
+          onChange={e => setMatch({
+            product: e.target.value
+              ? { field: e.target.value as ProductField, pattern: match.product?.pattern ?? '' }
+              : undefined,
+          })}
+          aria-label="Catalog field"
+        >
+          <option value="">No field check</option>
+          {PRODUCT_FIELDS.map(field => <option key={field} value={field}>{field}</option>)}
+        </select>
+        {match.product && (
+          <input
+            type="text"
+            value={match.product.pattern}
+            onChange={e => setMatch({ product: { field: match.product!.field, pattern: e.target.value } })}
+            placeholder="Field regex"
+            className={invalidPattern(match.product.pattern) ? 'input-invalid' : ''}
+          />
+        )}
+      </div>
+      <div className="settings-row">
+        <label>
+          <input
+            type="checkbox"
+            checked={match.negate === true}
+            onChange={e => setMatch({ negate: e.target.checked || undefined })}
+          />
+          Fire when the scan does <strong>not</strong> match
+        </label>
+      </div>
+
+      <div className="rule-section">Then</div>
+      <div className="settings-row">
+        <label>
+          Sound{' '}
+          <select
+            value={actions.sound ?? ''}
+            onChange={e => {
+              const sound = (e.target.value || undefined) as FeedbackSound | undefined;
+              setActions({ sound });
+              if (sound) playCue(sound);
+            }}
+          >
+            <option value="">None</option>
+            {FEEDBACK_SOUNDS.map(sound => <option key={sound} value={sound}>{sound}</option>)}
+          </select>
+        </label>
+        <label>
+          Flash{' '}
+          <select
+            value={actions.flash ?? ''}
+            onChange={e => setActions({ flash: (e.target.value || undefined) as FlashColor | undefined })}
+          >
+            <option value="">None</option>
+            {FLASH_COLORS.map(color => <option key={color} value={color}>{color}</option>)}
+          </select>
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={actions.vibrate === true}
+            onChange={e => setActions({ vibrate: e.target.checked || undefined })}
+          />
+          Vibrate
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={actions.copy === true}
+            onChange={e => setActions({ copy: e.target.checked || undefined })}
+          />
+          Copy value
+        </label>
+      </div>
+      <div className="settings-row">
+        <input
+          type="text"
+          value={actions.openUrl ?? ''}
+          onChange={e => setActions({ openUrl: e.target.value.trim() || undefined })}
+          placeholder="Open URL, e.g. https://erp.example.com/item/{gtin}"
+          className={`webhook-url ${actions.openUrl && !isWebUrl(actions.openUrl) ? 'input-invalid' : ''}`}
+        />
+      </div>
+      <div className="settings-row">
+        <input
+          type="text"
+          value={actions.reject ?? ''}
+          onChange={e => setActions({ reject: e.target.value || undefined })}
+          placeholder="Reject with reason (leave empty to accept)"
+          className="webhook-url"
+        />
+        <label>
+          <input type="checkbox" checked={rule.stop} onChange={e => onChange({ ...rule, stop: e.target.checked })} />
+          Stop here
+        </label>
+      </div>
+
+      <div className="settings-actions">
+        <button onClick={() => onMove(-1)} className="copy-btn" aria-label="Move rule up">⬆️</button>
+        <button onClick={() => onMove(1)} className="copy-btn" aria-label="Move rule down">⬇️</button>
+        <button onClick={onRemove} className="clear-btn">🗑️ Remove</button>
+      </div>
+    </div>
+  );
+}
+
+export function RulesSettings({ rules, onChange }: RulesSettingsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState('');
+
+  const updateRule = (rule: ScanRule) => {
+    onChange(rules.map(r => r.id === rule.id ? rule : r));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseRulesJson(await file.text());
+      onChange(mergeRules(rules, imported));
+      setStatus(`✅ Imported ${imported.length} rule(s) from ${file.name}`);
+    } catch (err) {
+      console.error('Rule import failed:', err);
+      setStatus(`❌ ${err instanceof Error ? err.message : 'Import failed'}`);
+    }
+  };
+
+  const enabledCount = rules.filter(r => r.enabled).length;
+
+  return (
+    <details className="settings-panel">
+      <summary>📏 Scan Rules {enabledCount > 0 ? `(${enabledCount} active)` : ''}</summary>
+
+      <div className="settings-hint">
+        Rules run top to bottom on every barcode; all conditions that are set must hold. When several rules fire,
+        the higher one wins for each action. Rules on catalog results wait for the lookup before the scan is shown.
+        URL templates take {'{value}'}, {'{format}'}, {'{gtin}'} and {'{ai:10}'}; allow pop-ups for this site.
+      </div>
+
+      {rules.map((rule, index) => (
+        <RuleEditor
+          key={rule.id}
+          rule={rule}
+          onChange={updateRule}
+          onRemove={() => onChange(rules.filter(r => r.id !== rule.id))}
+          onMove={offset => moveRule(index, offset)}
+        />
+      ))}
+
+      <div className="settings-actions">
+        <button onClick={() => onChange([...rules, createRule()])} className="copy-btn">➕ Add Rule</button>
+        <button onClick={() => onChange([...rules, wrongItemRule()])} className="copy-btn">🚫 Wrong-item Check</button>
+        <button onClick={() => inputRef.current?.click()} className="copy-btn">📥 Import</button>
+        <button
+          onClick={() => downloadFile(rulesToJson(rules), 'scan-rules.json', 'application/json')}
+          className="copy-btn"
+          disabled={rules.length === 0}
+        >
+          📤 Export
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {status && <div className="settings-hint">{status}</div>}
+    </details>
+  );
+}
@@ -0,0 +1,221 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  clearHistory,
+  deleteHistoryEntries,
+  listHistoryFormats,
+  queryHistory,
+} from '../lib/scanHistory';
+import type { HistoryEntry } from '../lib/scanHistory';
+import { ExportPanel } from './ExportPanel';
+import { ProductFields } from './ProductFields';
+import { DocumentView } from './DocumentView';
+import { PayloadView } from './PayloadView';
+import { CatalogCard } from './CatalogCard';
+
+interface ScanHistoryProps {
+  refreshKey: number; // Bump to reload after new scans are saved
+  onLabel?: (entry: HistoryEntry) => void; // Open the entry's barcode in the label generator
+}
+
+// Convert a yyyy-mm-dd input value to a timestamp at the start/end of that day
+const parseDay = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+export function ScanHistory({ refreshKey, onLabel }: ScanHistoryProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [formats, setFormats] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [format, setFormat] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const [results, knownFormats] = await Promise.all([
+        queryHistory({
+          search,
+          format,
+          from: parseDay(fromDay, false),
+          to: parseDay(toDay, true),
+        }),
+        listHistoryFormats(),
+      ]);
+      setEntries(results);
+      // Only visible rows stay selected, so a bulk delete never hits filtered-out scans
+      const visible = new Set(results.map(entry => entry.id));
+      setSelected(prev => new Set([...prev].filter(id => visible.has(id))));
+      setFormats(knownFormats);
+      setError('');
+    } catch (err) {
+      console.error('History load error:', err);
+      setError('Could not open scan history on this device.');
+    }
+  }, [search, format, fromDay, toDay]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const toggleSelected = (id: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(prev => prev.size === entries.length
+      ? new Set()
+      : new Set(entries.map(entry => entry.id)));
+  };
+
+  const deleteEntries = async (ids: number[]) => {
+    try {
+      await deleteHistoryEntries(ids);
+    } catch (err) {
+      console.error('History delete error:', err);
+      setError('Could not delete the selected scans.');
+      return;
+    }
+    setSelected(prev => new Set([...prev].filter(id => !ids.includes(id))));
+    await load();
+  };
+
+  const deleteAll = async () => {
+    if (!window.confirm('Delete the entire scan history?')) return;
+    try {
+      await clearHistory();
+    } catch (err) {
+      console.error('History clear error:', err);
+      setError('Could not delete the scan history.');
+      return;
+    }
+    setSelected(new Set());
+    await load();
+  };
+
+  return (
+    <div className="results-section history-section">
+      <div className="results-header">
+        <h2>Scan History</h2>
+        <span className="history-count">{entries.length} scans</span>
+      </div>
+
+      <div className="history-filters">
+        <input
+          type="search"
+          placeholder="🔍 Search barcode or text"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          className="history-search"
+        />
+        <select value={format} onChange={e => setFormat(e.target.value)}>
+          <option value="">All formats</option>
+          {formats.map(f => (
+            <option key={f} value={f}>{f}</option>
+          ))}
+        </select>
+        <label>
+          From <input type="date" value={fromDay} onChange={e => setFromDay(e.target.value)} />
+        </label>
+        <label>
+          To <input type="date" value={toDay} onChange={e => setToDay(e.target.value)} />
+        </label>
+      </div>
+
+      <div className="history-actions">
+        <button onClick={toggleAll} className="copy-btn" disabled={entries.length === 0}>
+          {selected.size === entries.length && entries.length > 0 ? 'Select None' : 'Select All'}
+        </button>
+        <button
+          onClick={() => deleteEntries([...selected])}
+          className="clear-btn"
+          disabled={selected.size === 0}
+        >
+          Delete Selected ({selected.size})
+        </button>
+        <button onClick={deleteAll} className="clear-btn" disabled={entries.length === 0}>
+          Delete All
+        </button>
+      </div>
+
+      <ExportPanel scans={entries} baseName="history" />
+
+      {error && <div className="history-error">{error}</div>}
+
+      <div className="results-list">
+        {entries.length === 0 && !error && (
+          <div className="history-empty">No scans match these filters.</div>
+        )}
+        {entries.map(entry => (
+          <div key={entry.id} className="result-card history-card">
+            <div className="result-header">
+              <label className="history-select">
+                <input
+                  type="checkbox"
+                  checked={selected.has(entry.id)}
+                  onChange={() => toggleSelected(entry.id)}
+                />
+                <span className="result-format">
+                  {entry.barcode?.format || '📝 Text'}
+                </span>
+              </label>
+              <span className="result-time">
+                {new Date(entry.timestamp).toLocaleString()}
+              </span>
+            </div>
+
+            {entry.barcode && (
+              <div className="result-text">
+                <strong>Value:</strong> {entry.barcode.value}
+              </div>
+            )}
+            {entry.catalog && <CatalogCard product={entry.catalog} />}
+            {entry.parsed && <PayloadView payload={entry.parsed} />}
+            {entry.product
+              ? <ProductFields product={entry.product} />
+              : entry.document
+                ? <DocumentView document={entry.document} />
+                : entry.text && <div className="result-text">{entry.text}</div>}
+
+            <div className="history-meta">
+              <span className={`result-status ${entry.status ?? 'completed'}`}>
+                {entry.status === 'pending' ? '⏳ Pending' : '✅ Completed'}
+              </span>
+              {entry.mode && <span>{entry.mode === 'ocr-only' ? '📝 OCR Only' : '📊 Barcode + OCR'}</span>}
+              {entry.source && <span>⚙️ {entry.source}</span>}
+              {entry.confidence !== undefined && <span>🎯 {Math.round(entry.confidence * 100)}%</span>}
+              {entry.validation?.checked && <span>✅ {entry.validation.scheme}</span>}
+              {entry.aiDerived && <span>🤖 AI read</span>}
+              {entry.camera && <span>📷 {entry.camera}</span>}
+              {entry.file && <span>📁 {entry.file.name}{entry.file.page ? ` p.${entry.file.page}` : ''}</span>}
+              {entry.pages && <span>📚 {entry.pages} shots</span>}
+            </div>
+
+            <div className="history-actions">
+              {entry.barcode && onLabel && (
+                <button onClick={() => onLabel(entry)} className="copy-btn">
+                  🏷️ Label
+                </button>
+              )}
+              <button onClick={() => deleteEntries([entry.id])} className="clear-btn">
+                🗑️ Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
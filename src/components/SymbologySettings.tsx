@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import {
+  BUILT_IN_PRESETS,
+  SYMBOLOGY_FORMATS,
+  compilePattern,
+  loadCustomPresets,
+  presetMatches,
+  saveCustomPresets,
+} from '../lib/decoders';
+import type { SymbologyConfig, SymbologyPreset } from '../lib/decoders';
+
+interface SymbologySettingsProps {
+  config: SymbologyConfig;
+  onChange: (config: SymbologyConfig) => void;
+}
+
+const DIMENSIONS = ['1D', '2D'] as const;
+
+export function SymbologySettings({ config, onChange }: SymbologySettingsProps) {
+  const [customPresets, setCustomPresets] = useState<SymbologyPreset[]>(loadCustomPresets);
+  const [presetName, setPresetName] = useState('');
+  // Committed on blur: every config change restarts the camera decoders
+  const [patternDraft, setPatternDraft] = useState(config.pattern);
+  const [syncedPattern, setSyncedPattern] = useState(config.pattern);
+  if (config.pattern !== syncedPattern) {
+    setSyncedPattern(config.pattern);
+    setPatternDraft(config.pattern);
+  }
+
+  const presets = [...BUILT_IN_PRESETS, ...customPresets];
+  const activePreset = presets.find(preset => presetMatches(preset, config));
+  const patternInvalid = patternDraft !== '' && compilePattern(patternDraft) === null;
+
+  const toggleFormat = (id: string) => {
+    // An empty whitelist means "all", so the first untick starts from the full list
+    const current = config.formats.length === 0 ? SYMBOLOGY_FORMATS.map(f => f.id) : config.formats;
+    const formats = current.includes(id) ? current.filter(f => f !== id) : [...current, id];
+    if (formats.length === 0) return; // Keep at least one format
+    onChange({ ...config, formats: formats.length === SYMBOLOGY_FORMATS.length ? [] : formats });
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (preset) onChange(preset.config);
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name || BUILT_IN_PRESETS.some(p => p.name === name)) return;
+    const next = [...customPresets.filter(p => p.name !== name), { name, config }];
+    setCustomPresets(next);
+    saveCustomPresets(next);
+    setPresetName('');
+  };
+
+  const deletePreset = (name: string) => {
+    const next = customPresets.filter(p => p.name !== name);
+    setCustomPresets(next);
+    saveCustomPresets(next);
+  };
+
+  const isEnabled = (id: string) => config.formats.length === 0 || config.formats.includes(id);
+
+  return (
+    <details className="settings-panel">
+      <summary>🏷️ Symbologies {activePreset ? `· ${activePreset.name}` : '· Custom'}</summary>
+
+      <div className="settings-row">
+        <label>
+          Preset{' '}
+          <select value={activePreset?.name ?? ''} onChange={e => applyPreset(e.target.value)}>
+            {!activePreset && <option value="">Custom</option>}
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </select>
+        </label>
+        {activePreset && !activePreset.builtIn && (
+          <button onClick={() => deletePreset(activePreset.name)} className="clear-btn">🗑️ Delete preset</button>
+        )}
+      </div>
+
+      {DIMENSIONS.map(dimension => (
+        <div key={dimension}>
+          <div className="settings-hint">{dimension} formats</div>
+          <div className="language-list">
+            {SYMBOLOGY_FORMATS.filter(format => format.dimension === dimension).map(format => (
+              <label key={format.id}>
+                <input
+                  type="checkbox"
+                  checked={isEnabled(format.id)}
+                  onChange={() => toggleFormat(format.id)}
+                />
+                {format.label}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      <div className="settings-hint">Quagga2 reads 1D formats only; GS1 DataBar and MaxiCode need ZXing.</div>
+
+      <div className="settings-row">
+        <label>
+          <input
+            type="checkbox"
+            checked={config.tryHarder}
+            onChange={e => onChange({ ...config, tryHarder: e.target.checked })}
+          />
+          Try harder (slower, for damaged codes)
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={config.assumeGs1}
+            onChange={e => onChange({ ...config, assumeGs1: e.target.checked })}
+          />
+          GS1 mode (keep FNC1 separators)
+        </label>
+      </div>
+
+      <div className="settings-row">
+        <label>
+          Min length{' '}
+          <input
+            type="number"
+            min={0}
+            value={config.minLength}
+            onChange={e => onChange({ ...config, minLength: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </label>
+        <label>
+          Pattern{' '}
+          <input
+            type="text"
+            value={patternDraft}
+            onChange={e => setPatternDraft(e.target.value)}
+            onBlur={() => patternDraft !== config.pattern && onChange({ ...config, pattern: patternDraft })}
+            onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+            placeholder="^1Z[0-9A-Z]{16}$"
+            className={patternInvalid ? 'input-invalid' : ''}
+          />
+        </label>
+      </div>
+      {patternInvalid && <div className="history-error">Invalid regular expression - the filter is ignored.</div>}
+
+      <div className="settings-row">
+        <input
+          type="text"
+          value={presetName}
+          onChange={e => setPresetName(e.target.value)}
+          placeholder="Save current settings as..."
+        />
+        <button onClick={savePreset} className="copy-btn" disabled={!presetName.trim()}>💾 Save Preset</button>
+      </div>
+    </details>
+  );
+}
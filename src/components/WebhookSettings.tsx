@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import {
+  clearDeliveryLog,
+  createEndpoint,
+  deliverScan,
+  formatHeaderLines,
+  getDeliveryLog,
+  parseHeaderLines,
+  subscribeDeliveryLog,
+} from '../lib/webhooks';
+import type { DeliveryStatus, WebhookConfig, WebhookEndpoint } from '../lib/webhooks';
+
+interface WebhookSettingsProps {
+  config: WebhookConfig;
+  onChange: (config: WebhookConfig) => void;
+}
+
+const STATUS_ICONS: Record<DeliveryStatus, string> = {
+  delivered: '✅',
+  retrying: '🔁',
+  failed: '❌',
+};
+
+const MOCK_URL = '/api/mock-webhook';
+
+function EndpointEditor({ endpoint, onChange, onRemove }: {
+  endpoint: WebhookEndpoint;
+  onChange: (endpoint: WebhookEndpoint) => void;
+  onRemove: () => void;
+}) {
+  // Headers are edited as free text and parsed on blur so half-typed lines survive
+  const [headersText, setHeadersText] = useState(() => formatHeaderLines(endpoint.headers));
+
+  return (
+    <div className="webhook-endpoint">
+      <div className="settings-row">
+        <label>
+          <input
+            type="checkbox"
+            checked={endpoint.enabled}
+            onChange={e => onChange({ ...endpoint, enabled: e.target.checked })}
+          />
+          Enabled
+        </label>
+        <input
+          type="text"
+          value={endpoint.name}
+          onChange={e => onChange({ ...endpoint, name: e.target.value })}
+          placeholder="Name (e.g. ERP intake)"
+        />
+      </div>
+      <div className="settings-row">
+        <input
+          type="url"
+          value={endpoint.url}
+          onChange={e => onChange({ ...endpoint, url: e.target.value.trim() })}
+          placeholder="https://erp.example.com/intake/scans"
+          className="webhook-url"
+        />
+      </div>
+      <div className="settings-row">
+        <input
+          type="password"
+          value={endpoint.secret ?? ''}
+          onChange={e => onChange({ ...endpoint, secret: e.target.value || undefined })}
+          placeholder="HMAC secret (optional)"
+          autoComplete="off"
+        />
+      </div>
+      <textarea
+        value={headersText}
+        onChange={e => setHeadersText(e.target.value)}
+        onBlur={() => onChange({ ...endpoint, headers: parseHeaderLines(headersText) })}
+        placeholder={'Authorization: Bearer ...\nX-Site: WH-01'}
+        rows={2}
+        className="webhook-headers"
+      />
+      <div className="settings-actions">
+        <button onClick={onRemove} className="clear-btn">🗑️ Remove</button>
+      </div>
+    </div>
+  );
+}
+
+export function WebhookSettings({ config, onChange }: WebhookSettingsProps) {
+  const [log, setLog] = useState(getDeliveryLog);
+
+  useEffect(() => subscribeDeliveryLog(setLog), []);
+
+  const updateEndpoint = (endpoint: WebhookEndpoint) => {
+    onChange({ ...config, endpoints: config.endpoints.map(e => e.id === endpoint.id ? endpoint : e) });
+  };
+
+  const removeEndpoint = (id: string) => {
+    onChange({ ...config, endpoints: config.endpoints.filter(e => e.id !== id) });
+  };
+
+  const addEndpoint = (url?: string) => {
+    const endpoint = createEndpoint(url);
+    if (url === MOCK_URL) endpoint.name = 'Local mock receiver';
+    onChange({ ...config, endpoints: [...config.endpoints, endpoint] });
+  };
+
+  const sendTest = () => {
+    deliverScan({
+      barcode: { value: '4006381333931', format: 'EAN_13' },
+      text: 'Webhook test from the barcode scanner',
+      mode: 'barcode-ocr',
+      source: 'Test',
+    }, config);
+  };
+
+  const enabledCount = config.endpoints.filter(e => e.enabled && e.url).length;
+
+  return (
+    <details className="settings-panel">
+      <summary>🔗 Webhooks {enabledCount > 0 ? `(${enabledCount} active)` : ''}</summary>
+
+      <div className="settings-hint">
+        Each scan is POSTed as JSON to every enabled endpoint. Endpoints must allow CORS from this site.
+        With a secret, requests carry X-Scanner-Signature: sha256=HMAC(secret, "timestamp.body").
+      </div>
+
+      {config.endpoints.map(endpoint => (
+        <EndpointEditor
+          key={endpoint.id}
+          endpoint={endpoint}
+          onChange={updateEndpoint}
+          onRemove={() => removeEndpoint(endpoint.id)}
+        />
+      ))}
+
+      <div className="settings-row">
+        <label>
+          Attempts{' '}
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={config.maxAttempts}
+            onChange={e => onChange({ ...config, maxAttempts: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+          />
+        </label>
+      </div>
+
+      <div className="settings-actions">
+        <button onClick={() => addEndpoint()} className="copy-btn">➕ Add Endpoint</button>
+        {import.meta.env.DEV && (
+          <button onClick={() => addEndpoint(MOCK_URL)} className="copy-btn">🧪 Add Mock</button>
+        )}
+        <button onClick={sendTest} className="copy-btn" disabled={enabledCount === 0}>📤 Send Test</button>
+      </div>
+
+      {log.length > 0 && (
+        <>
+          <table className="engine-stats webhook-log">
+            <thead>
+              <tr>
+                <th></th>
+                <th>Endpoint</th>
+                <th>Scan</th>
+                <th>Try</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {log.slice(0, 20).map(entry => (
+                <tr key={`${entry.deliveryId}-${entry.endpointId}`} title={new Date(entry.timestamp).toLocaleString()}>
+                  <td>{STATUS_ICONS[entry.status]}</td>
+                  <td>{entry.endpointName}</td>
+                  <td>{entry.summary}</td>
+                  <td>{entry.attempt}</td>
+                  <td>{entry.error ?? entry.httpStatus}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="settings-actions">
+            <button onClick={clearDeliveryLog} className="clear-btn">Clear Log</button>
+          </div>
+        </>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,197 @@
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { BarcodeScanner } from '../components/BarcodeScanner';
+import type { BarcodeScannerHandle, ScanMode, ScanResult, ScannerState } from '../components/BarcodeScanner';
+import { setOcrEndpoint } from '../lib/aiSettings';
+import { DEFAULT_AI_FALLBACK, DEFAULT_DECODER_CONFIG, DEFAULT_SYMBOLOGY } from '../lib/decoders';
+import type { AiFallbackConfig, DecoderConfig, SymbologyConfig } from '../lib/decoders';
+import { DEFAULT_OCR_CONFIG } from '../lib/ocr';
+import type { OcrConfig } from '../lib/ocr';
+import { DEFAULT_PREPROCESS_CONFIG } from '../lib/preprocess';
+import type { PreprocessConfig } from '../lib/preprocess';
+import scannerStyles from '../components/BarcodeScanner.css?inline';
+
+// <barcode-scanner>: the React scanner behind a framework-free custom element.
+// Styles live in its shadow root, so the host page's CSS can't break it.
+
+// Each part is merged over the defaults, so hosts only set what they change
+export interface ScannerConfig {
+  decoders?: Partial<Omit<DecoderConfig, 'symbology' | 'aiFallback'>> & {
+    symbology?: Partial<SymbologyConfig>; // Merged field by field too
+    aiFallback?: Partial<AiFallbackConfig>;
+  };
+  ocr?: Partial<OcrConfig>;               // Backend (cloud / local), languages, extraction
+  preprocess?: Partial<PreprocessConfig>;
+  endpoint?: string;                      // URL of the OCR proxy; defaults to /api/ocr
+}
+
+interface ResolvedConfig {
+  decoders: DecoderConfig;
+  ocr: OcrConfig;
+  preprocess: PreprocessConfig;
+}
+
+const resolveConfig = ({ decoders, ocr, preprocess }: ScannerConfig): ResolvedConfig => ({
+  decoders: {
+    ...DEFAULT_DECODER_CONFIG,
+    ...decoders,
+    symbology: { ...DEFAULT_SYMBOLOGY, ...decoders?.symbology },
+    aiFallback: { ...DEFAULT_AI_FALLBACK, ...decoders?.aiFallback },
+  },
+  ocr: { ...DEFAULT_OCR_CONFIG, ...ocr },
+  preprocess: { ...DEFAULT_PREPROCESS_CONFIG, ...preprocess },
+});
+
+export interface BarcodeScannerElementEventMap {
+  scan: CustomEvent<ScanResult>;
+  error: CustomEvent<{ message: string }>;
+  statechange: CustomEvent<{ state: ScannerState }>;
+}
+
+const SCAN_MODES: ScanMode[] = ['barcode-ocr', 'ocr-only'];
+
+const HOST_STYLES = `
+:host {
+  display: block;
+}
+
+:host([hidden]) {
+  display: none;
+}
+`;
+
+export class BarcodeScannerElement extends HTMLElement {
+  static observedAttributes = ['mode', 'camera', 'autostart'];
+
+  #root: Root | null = null;
+  #handle: BarcodeScannerHandle | null = null;
+  #config: ScannerConfig = {};
+  // Merged once per config change: fresh objects on every render would
+  // restart the camera, since the scanner restarts when its configs change
+  #resolved = resolveConfig({});
+  #mode: ScanMode = 'barcode-ocr';
+  #camera: string | undefined;
+  #autoStart = true;
+
+  get config(): ScannerConfig {
+    return this.#config;
+  }
+
+  set config(config: ScannerConfig) {
+    this.#config = config;
+    this.#resolved = resolveConfig(config);
+    setOcrEndpoint(config.endpoint);
+    this.#render();
+  }
+
+  start() {
+    this.#autoStart = true;
+    this.#apply(handle => handle.start());
+  }
+
+  stop() {
+    this.#autoStart = false;
+    this.#apply(handle => handle.stop());
+  }
+
+  setMode(mode: ScanMode) {
+    this.#mode = mode;
+    this.#apply(handle => handle.setMode(mode));
+  }
+
+  setCamera(deviceId: string) {
+    this.#camera = deviceId;
+    this.#apply(handle => handle.setCamera(deviceId));
+  }
+
+  // Typed listeners: element.addEventListener('scan', e => e.detail.barcode)
+  addEventListener<K extends keyof BarcodeScannerElementEventMap>(
+    type: K,
+    listener: (this: BarcodeScannerElement, event: BarcodeScannerElementEventMap[K]) => void,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions) {
+    super.addEventListener(type, listener, options);
+  }
+
+  removeEventListener<K extends keyof BarcodeScannerElementEventMap>(
+    type: K,
+    listener: (this: BarcodeScannerElement, event: BarcodeScannerElementEventMap[K]) => void,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions) {
+    super.removeEventListener(type, listener, options);
+  }
+
+  // autostart="false" only counts before the element is first connected
+  attributeChangedCallback(name: string, _previous: string | null, value: string | null) {
+    if (name === 'mode' && SCAN_MODES.includes(value as ScanMode)) this.setMode(value as ScanMode);
+    if (name === 'camera') this.setCamera(value ?? '');
+    if (name === 'autostart') this.#autoStart = value !== 'false';
+  }
+
+  connectedCallback() {
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+    if (!this.#root) {
+      const style = document.createElement('style');
+      style.textContent = HOST_STYLES + scannerStyles;
+      const container = document.createElement('div');
+      shadow.replaceChildren(style, container);
+      this.#root = createRoot(container);
+    }
+    this.#render();
+  }
+
+  disconnectedCallback() {
+    // Unmounting stops the camera; reconnecting mounts a fresh scanner
+    this.#root?.unmount();
+    this.#root = null;
+    this.#handle = null;
+  }
+
+  #emit<K extends keyof BarcodeScannerElementEventMap>(type: K, detail: BarcodeScannerElementEventMap[K]['detail']) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  // Until React has mounted the scanner there is no handle; the stored state
+  // then reaches it as initial props of the pending render instead
+  #apply(call: (handle: BarcodeScannerHandle) => void) {
+    if (this.#handle) call(this.#handle);
+    else this.#render();
+  }
+
+  #render() {
+    if (!this.#root) return;
+    const { decoders, ocr, preprocess } = this.#resolved;
+
+    this.#root.render(
+      <BarcodeScanner
+        ref={handle => {
+          this.#handle = handle;
+        }}
+        onScan={result => this.#emit('scan', result)}
+        onError={message => this.#emit('error', { message })}
+        onStateChange={state => this.#emit('statechange', { state })}
+        decoderConfig={decoders}
+        ocrConfig={ocr}
+        preprocessConfig={preprocess}
+        initialMode={this.#mode}
+        initialCamera={this.#camera}
+        autoStart={this.#autoStart}
+      />
+    );
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'barcode-scanner': BarcodeScannerElement;
+  }
+}
+
+// A subclass per tag name, since one constructor can only be registered once
+export const defineBarcodeScannerElement = (tagName = 'barcode-scanner') => {
+  if (!customElements.get(tagName)) customElements.define(tagName, class extends BarcodeScannerElement {});
+};
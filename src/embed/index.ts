@@ -0,0 +1,25 @@
+// Public entry of the scanner library: the React component, the
+// <barcode-scanner> custom element and the types and defaults they take
+
+export { BarcodeScanner } from '../components/BarcodeScanner';
+export type {
+  BarcodeScannerHandle,
+  BarcodeScannerProps,
+  ScanMode,
+  ScanResult,
+  ScannerState,
+} from '../components/BarcodeScanner';
+
+export { BarcodeScannerElement, defineBarcodeScannerElement } from './element';
+export type { BarcodeScannerElementEventMap, ScannerConfig } from './element';
+
+export { ALL_ENGINES, DEFAULT_DECODER_CONFIG } from '../lib/decoders';
+export type { DecoderConfig, EngineId } from '../lib/decoders';
+export { DEFAULT_OCR_CONFIG } from '../lib/ocr';
+export { DEFAULT_OCR_ENDPOINT, setOcrEndpoint } from '../lib/aiSettings';
+export type { OcrBackend, OcrConfig, OcrExtraction } from '../lib/ocr';
+export { DEFAULT_PREPROCESS_CONFIG } from '../lib/preprocess';
+export type { PreprocessConfig } from '../lib/preprocess';
+
+// Scans taken offline in cloud OCR mode are queued; call this once back online
+export { processQueue } from '../lib/offlineQueue';
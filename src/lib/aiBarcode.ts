@@ -0,0 +1,101 @@
+import { NetworkError, requestVision } from './aiOcr';
+import { parseJSONReply } from './productExtraction';
+import { SYMBOLOGY_FORMATS, createResultFilter, normalizeFormat } from './decoders';
+import type { SymbologyConfig } from './decoders';
+import { parsePayload } from './payloads';
+import type { ParsedPayload } from './payloads';
+import { validateBarcode } from './validation';
+import type { BarcodeValidation } from './validation';
+
+// Vision-model fallback for labels no decoder engine can read (worn, torn,
+// smudged). The model reads the digits printed under the bars; a read is only
+// accepted when a check digit confirms it, since models happily invent digits.
+
+export const AI_FALLBACK_LABEL = 'AI fallback';
+
+// Check digit confirmed, but no decoder actually saw the bars
+const AI_CONFIDENCE = 0.6;
+
+export interface AiBarcodeRead {
+  barcode: {
+    value: string;
+    format: string;
+  };
+  text: string;
+  parsed?: ParsedPayload;
+  validation: BarcodeValidation;
+  confidence: number;
+}
+
+export type AiBarcodeOutcome =
+  | { status: 'found'; read: AiBarcodeRead }
+  | { status: 'rejected'; value: string; reason: string }
+  | { status: 'none' };
+
+const KNOWN_FORMATS = new Set(SYMBOLOGY_FORMATS.map(format => format.id));
+
+// Digit count usually pins down the retail symbology when the model's guess is off
+const guessFormat = (value: string, claimed: string | null): string => {
+  if (/^\d+$/.test(value)) {
+    switch (value.length) {
+      case 8: return claimed === 'UPC_E' ? 'UPC_E' : 'EAN_8';
+      case 12: return 'UPC_A';
+      case 13: return 'EAN_13';
+      case 14: return 'ITF';
+    }
+  }
+  return claimed && KNOWN_FORMATS.has(claimed) ? claimed : 'CODE_128';
+};
+
+const optionalString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+export const readBarcodeWithAI = async (
+  base64Image: string,
+  symbology: SymbologyConfig
+): Promise<AiBarcodeOutcome> => {
+  let reply: string;
+  try {
+    reply = await requestVision('barcode', base64Image, { maxTokens: 300, temperature: 0 });
+  } catch (err) {
+    if (err instanceof NetworkError) throw err;
+    console.error('AI barcode read error:', err);
+    return { status: 'none' };
+  }
+
+  const raw = parseJSONReply(reply);
+  if (typeof raw !== 'object' || raw === null) {
+    console.warn('AI barcode read returned no valid JSON:', reply);
+    return { status: 'none' };
+  }
+
+  const source = raw as Record<string, unknown>;
+  const value = optionalString(source.barcode)?.replace(/\s+/g, '');
+  if (!value) return { status: 'none' };
+
+  const claimed = optionalString(source.format);
+  const format = guessFormat(value, claimed && normalizeFormat(claimed));
+  const parsed = parsePayload(value) ?? undefined;
+  const validation = validateBarcode(value, format, parsed);
+
+  if (!validation.valid) {
+    return { status: 'rejected', value, reason: validation.reason ?? 'Check digit mismatch' };
+  }
+  if (!validation.checked) {
+    return { status: 'rejected', value, reason: 'No check digit to confirm the AI read' };
+  }
+  if (!createResultFilter(symbology)({ value, format })) {
+    return { status: 'rejected', value, reason: 'Not allowed by symbology filters' };
+  }
+
+  return {
+    status: 'found',
+    read: {
+      barcode: { value, format },
+      text: optionalString(source.text) ?? '',
+      parsed,
+      validation,
+      confidence: AI_CONFIDENCE,
+    },
+  };
+};
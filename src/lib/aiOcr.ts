@@ -0,0 +1,121 @@
+import { fetchModelCatalog, getOcrEndpoint, loadAiConfig, promptFor, resolveModel } from './aiSettings';
+import type { PromptKind } from './aiSettings';
+import { isOverBudget, recordUsage } from './aiUsage';
+
+// Vision-model text extraction through the server-side /api/ocr proxy
+// (or the endpoint set with setOcrEndpoint). The provider API key lives on
+// the server; the browser never sees it.
+
+// Thrown when the request may succeed later (rate limit, budget, upstream
+// error), so queued frames are kept and tried again instead of dropped
+export class RetryableError extends Error {
+  retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'RetryableError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Thrown when the proxy can't be reached at all, so callers can queue the frame
+export class NetworkError extends RetryableError {
+  constructor(message = 'Network unavailable') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Timeouts, rate limits and server failures; other statuses (bad request,
+// auth, too large) fail the same way every time
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export interface VisionOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+// Send one image to the proxy, to be read with the user's template for kind
+// or else the server's, and return the model's reply. Rate limits and upstream
+// failures throw RetryableError, and requests the proxy rejects (bad input,
+// auth, size) a plain Error, rather than passing for an empty reply.
+// Model, sampling defaults and the budget come from the AI settings.
+export const requestVision = async (
+  kind: PromptKind,
+  base64Image: string,
+  options: VisionOptions = {}
+): Promise<string> => {
+  if (isOffline()) throw new NetworkError();
+
+  const config = loadAiConfig();
+  if (isOverBudget(config.monthlyBudget)) {
+    throw new RetryableError('Monthly AI budget reached - request skipped');
+  }
+
+  const catalog = await fetchModelCatalog();
+  const model = resolveModel(config, catalog);
+
+  let response: Response;
+  try {
+    response = await fetch(getOcrEndpoint(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        kind,
+        prompt: promptFor(kind, config),
+        image: base64Image,
+        maxTokens: options.maxTokens ?? config.maxTokens,
+        temperature: options.temperature ?? config.temperature,
+      }),
+    });
+  } catch (err) {
+    throw new NetworkError(err instanceof Error ? err.message : undefined);
+  }
+
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new RetryableError('OCR rate limit reached', retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    // Gateway pages and crashed proxies answer with HTML or nothing
+    const message = `OCR proxy answered ${response.status} without JSON`;
+    throw isRetryableStatus(response.status) ? new RetryableError(message) : new Error(message);
+  }
+
+  if (data.usage) {
+    const billedModel = model ?? catalog?.defaultModel;
+    recordUsage(data.usage, catalog?.models.find(option => option.id === billedModel));
+  }
+  
+  if (data.error || !response.ok) {
+    const message = `AI API error: ${(typeof data.error === 'string' ? data.error : data.error?.message) ?? response.status}`;
+    // An error inside a 200 reply is an upstream hiccup
+    throw response.ok || isRetryableStatus(response.status) ? new RetryableError(message) : new Error(message);
+  }
+  
+  return data.choices?.[0]?.message?.content?.trim() ?? '';
+};
+
+export const extractTextWithAI = async (base64Image: string): Promise<string> => {
+  try {
+    const text = await requestVision('text', base64Image);
+    
+    // Check if AI found no text
+    if (text === 'NO_TEXT_FOUND' || text === '') {
+      return '';
+    }
+    
+    return text;
+  } catch (err) {
+    if (err instanceof RetryableError) throw err;
+    console.error('Text extraction error:', err);
+    return '';
+  }
+};
@@ -0,0 +1,93 @@
+// User-tunable AI settings: model, sampling, and prompt templates sent to the
+// /api/ocr proxy. The provider and API key are configured on the server,
+// which also holds the default templates and checks custom ones.
+
+export type PromptKind = 'text' | 'product' | 'document' | 'barcode';
+
+export interface AiConfig {
+  model: string;        // '' = the server's default model
+  temperature: number;  // Free-text OCR; structured extraction always uses 0
+  maxTokens: number;    // Reply limit for free-text OCR
+  prompts: Partial<Record<PromptKind, string>>; // Overrides; missing = server template
+  monthlyBudget: number; // USD; 0 = no limit
+}
+
+export interface ModelOption {
+  id: string;
+  inputPrice: number;   // USD per million prompt tokens
+  outputPrice: number;  // USD per million completion tokens
+}
+
+export interface ModelCatalog {
+  provider: string;
+  defaultModel: string;
+  models: ModelOption[];
+  prompts?: Record<PromptKind, string>;  // The server's default templates
+}
+
+export const PROMPT_LABELS: Record<PromptKind, string> = {
+  text: 'Text OCR',
+  product: 'Product fields (must ask for the JSON keys)',
+  document: 'Documents and receipts (must ask for the JSON keys)',
+  barcode: 'AI barcode fallback (must ask for the JSON keys)',
+};
+
+export const DEFAULT_AI_CONFIG: AiConfig = {
+  model: '',
+  temperature: 0.1,
+  maxTokens: 500,
+  prompts: {},
+  monthlyBudget: 0,
+};
+
+const CONFIG_KEY = 'ai-config';
+export const DEFAULT_OCR_ENDPOINT = '/api/ocr';
+
+export const loadAiConfig = (): AiConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    return saved ? { ...DEFAULT_AI_CONFIG, ...saved } : DEFAULT_AI_CONFIG;
+  } catch {
+    return DEFAULT_AI_CONFIG;
+  }
+};
+
+export const saveAiConfig = (config: AiConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+export const promptFor = (kind: PromptKind, config: AiConfig = loadAiConfig()): string | undefined =>
+  config.prompts[kind]?.trim() || undefined;
+
+// The server's provider and selectable models, fetched once per page load
+let catalogPromise: Promise<ModelCatalog | null> | null = null;
+
+// Where the /api/ocr proxy lives, for pages that embed the scanner but serve
+// the proxy from another origin or path. One endpoint applies to the whole page.
+let ocrEndpoint = DEFAULT_OCR_ENDPOINT;
+
+export const getOcrEndpoint = () => ocrEndpoint;
+
+export const setOcrEndpoint = (url = DEFAULT_OCR_ENDPOINT) => {
+  if (url === ocrEndpoint) return;
+  ocrEndpoint = url;
+  catalogPromise = null; // The catalog belongs to the old proxy
+};
+
+export const fetchModelCatalog = (): Promise<ModelCatalog | null> => {
+  catalogPromise ??= fetch(ocrEndpoint)
+    .then(response => (response.ok ? response.json() as Promise<ModelCatalog> : null))
+    .catch(() => null)
+    .then(catalog => {
+      // Let a later call retry after a failure (e.g. first load while offline)
+      if (!catalog) catalogPromise = null;
+      return catalog;
+    });
+  return catalogPromise;
+};
+
+// The model to request: the configured one if the server still allows it
+export const resolveModel = (config: AiConfig, catalog: ModelCatalog | null): string | undefined =>
+  config.model && (!catalog || catalog.models.some(model => model.id === config.model))
+    ? config.model
+    : undefined;
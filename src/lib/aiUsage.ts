@@ -0,0 +1,101 @@
+import type { ModelOption } from './aiSettings';
+
+// Running AI cost meter: token usage from every proxy response, totalled for
+// this page session (memory) and per calendar month (localStorage)
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;         // USD
+}
+
+export interface UsageSnapshot {
+  session: UsageTotals;
+  month: UsageTotals;
+  monthKey: string;     // YYYY-MM
+}
+
+// OpenAI-style usage block; OpenRouter adds the billed cost when asked to
+export interface ResponseUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  cost?: number;
+}
+
+const USAGE_KEY = 'ai-usage';
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 });
+
+const currentMonthKey = () => new Date().toISOString().slice(0, 7);
+
+const loadMonths = (): Record<string, UsageTotals> => {
+  try {
+    return JSON.parse(localStorage.getItem(USAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+let session = emptyTotals();
+const listeners = new Set<(snapshot: UsageSnapshot) => void>();
+
+export const getUsage = (): UsageSnapshot => {
+  const monthKey = currentMonthKey();
+  return { session, month: loadMonths()[monthKey] ?? emptyTotals(), monthKey };
+};
+
+const notify = () => {
+  const snapshot = getUsage();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+export const subscribeUsage = (listener: (snapshot: UsageSnapshot) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Prefer the provider's billed cost; otherwise price the tokens from the model list
+export const estimateCost = (usage: ResponseUsage, price?: ModelOption): number => {
+  if (typeof usage.cost === 'number') return usage.cost;
+  if (!price) return 0;
+  return ((usage.prompt_tokens ?? 0) * price.inputPrice + (usage.completion_tokens ?? 0) * price.outputPrice) / 1_000_000;
+};
+
+const add = (totals: UsageTotals, usage: ResponseUsage, cost: number): UsageTotals => ({
+  requests: totals.requests + 1,
+  promptTokens: totals.promptTokens + (usage.prompt_tokens ?? 0),
+  completionTokens: totals.completionTokens + (usage.completion_tokens ?? 0),
+  cost: totals.cost + cost,
+});
+
+export const recordUsage = (usage: ResponseUsage, price?: ModelOption) => {
+  const cost = estimateCost(usage, price);
+  const months = loadMonths();
+  const monthKey = currentMonthKey();
+
+  session = add(session, usage, cost);
+  months[monthKey] = add(months[monthKey] ?? emptyTotals(), usage, cost);
+  localStorage.setItem(USAGE_KEY, JSON.stringify(months));
+  notify();
+};
+
+export const isOverBudget = (monthlyBudget: number): boolean =>
+  monthlyBudget > 0 && getUsage().month.cost >= monthlyBudget;
+
+export const resetSessionUsage = () => {
+  session = emptyTotals();
+  notify();
+};
+
+export const resetMonthUsage = () => {
+  const months = loadMonths();
+  delete months[currentMonthKey()];
+  localStorage.setItem(USAGE_KEY, JSON.stringify(months));
+  notify();
+};
+
+export const formatCost = (cost: number): string =>
+  cost === 0 ? '$0' : cost < 0.01 ? `$${cost.toFixed(5)}` : `$${cost.toFixed(2)}`;
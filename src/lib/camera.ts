@@ -0,0 +1,195 @@
+// Camera selection and MediaStreamTrack controls (torch, zoom, focus, exposure).
+// Support varies widely - mostly Chrome on Android - so every control is
+// feature-detected through getCapabilities() and hidden when missing.
+
+export type CameraFacingMode = 'user' | 'environment';
+
+export type ResolutionId = 'vga' | 'hd' | 'fhd' | 'uhd';
+
+export const RESOLUTIONS: { id: ResolutionId; label: string; width: number; height: number }[] = [
+  { id: 'vga', label: '640×480 (fastest)', width: 640, height: 480 },
+  { id: 'hd', label: '1280×720', width: 1280, height: 720 },
+  { id: 'fhd', label: '1920×1080 (small codes)', width: 1920, height: 1080 },
+  { id: 'uhd', label: '3840×2160', width: 3840, height: 2160 },
+];
+
+// Remembered per camera, keyed by deviceId
+export interface DeviceSettings {
+  resolution: ResolutionId;
+  torch: boolean;
+  zoom?: number;
+  exposureCompensation?: number;
+}
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  resolution: 'hd', // Lower res = faster processing
+  torch: false,
+};
+
+interface Range {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Capabilities this app uses; most aren't in the DOM typings yet
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom?: Range;
+  exposureCompensation?: Range;
+  focusModes: string[];
+  pointsOfInterest: boolean;
+}
+
+type ExtendedCapabilities = MediaTrackCapabilities & {
+  torch?: boolean;
+  zoom?: Partial<Range>;
+  exposureCompensation?: Partial<Range>;
+  focusMode?: string[];
+  pointsOfInterest?: unknown;
+};
+
+type ExtendedConstraintSet = MediaTrackConstraintSet & {
+  torch?: boolean;
+  zoom?: number;
+  exposureCompensation?: number;
+  focusMode?: string;
+  pointsOfInterest?: { x: number; y: number }[];
+};
+
+const SETTINGS_KEY = 'camera-settings';
+const DEVICE_KEY = 'camera-device';
+
+const loadAllSettings = (): Record<string, DeviceSettings> => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadDeviceSettings = (deviceId: string): DeviceSettings => ({
+  ...DEFAULT_DEVICE_SETTINGS,
+  ...loadAllSettings()[deviceId],
+});
+
+export const saveDeviceSettings = (deviceId: string, settings: DeviceSettings) => {
+  if (!deviceId) return;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...loadAllSettings(), [deviceId]: settings }));
+};
+
+// Explicitly picked camera; '' = choose by facing mode
+export const loadPreferredDevice = (): string => localStorage.getItem(DEVICE_KEY) ?? '';
+
+export const savePreferredDevice = (deviceId: string) => {
+  if (deviceId) localStorage.setItem(DEVICE_KEY, deviceId);
+  else localStorage.removeItem(DEVICE_KEY);
+};
+
+export const listCameras = async (): Promise<MediaDeviceInfo[]> =>
+  (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'videoinput');
+
+// Labels are the only hint at which way a camera faces; without a match,
+// use the first camera for front and the last for back
+export const pickCamera = (cameras: MediaDeviceInfo[], facingMode: CameraFacingMode): MediaDeviceInfo | undefined => {
+  const matches = (device: MediaDeviceInfo, words: string[]) =>
+    words.some(word => device.label.toLowerCase().includes(word));
+
+  const match = facingMode === 'environment'
+    ? cameras.find(device => matches(device, ['back', 'rear', 'environment']))
+    : cameras.find(device => matches(device, ['front', 'user', 'face']));
+
+  return match ?? (facingMode === 'environment' ? cameras[cameras.length - 1] : cameras[0]);
+};
+
+const resolutionSize = (resolution: ResolutionId) => {
+  const { width, height } = RESOLUTIONS.find(r => r.id === resolution) ?? RESOLUTIONS[1];
+  return { width: { ideal: width }, height: { ideal: height } };
+};
+
+export const videoConstraints = (
+  deviceId: string | undefined,
+  facingMode: CameraFacingMode,
+  resolution: ResolutionId
+): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode }),
+  ...resolutionSize(resolution),
+  frameRate: { ideal: 30 },    // 30 FPS for smooth scanning
+  advanced: [{ focusMode: 'continuous' } as ExtendedConstraintSet],
+});
+
+const toRange = (range?: Partial<Range>): Range | undefined =>
+  range && range.min !== undefined && range.max !== undefined && range.max > range.min
+    ? { min: range.min, max: range.max, step: range.step || (range.max - range.min) / 100 }
+    : undefined;
+
+export const getCameraCapabilities = (track: MediaStreamTrack): CameraCapabilities => {
+  const caps = (track.getCapabilities?.() ?? {}) as ExtendedCapabilities;
+  return {
+    torch: caps.torch === true,
+    zoom: toRange(caps.zoom),
+    exposureCompensation: toRange(caps.exposureCompensation),
+    focusModes: caps.focusMode ?? [],
+    pointsOfInterest: 'pointsOfInterest' in caps,
+  };
+};
+
+const applyAdvanced = (track: MediaStreamTrack, constraints: ExtendedConstraintSet) =>
+  track.applyConstraints({ advanced: [constraints] });
+
+// Switch resolution on the live track - no need to reopen the camera
+export const setResolution = (track: MediaStreamTrack, resolution: ResolutionId) =>
+  track.applyConstraints({ ...track.getConstraints(), ...resolutionSize(resolution) });
+
+export const setTorch = (track: MediaStreamTrack, on: boolean) => applyAdvanced(track, { torch: on });
+
+export const setZoom = (track: MediaStreamTrack, zoom: number) => applyAdvanced(track, { zoom });
+
+export const setExposureCompensation = (track: MediaStreamTrack, exposureCompensation: number) =>
+  applyAdvanced(track, { exposureCompensation, exposureMode: 'continuous' } as ExtendedConstraintSet);
+
+// Focus on a point (0-1 within the frame), then hand control back to continuous AF
+export const focusAt = async (track: MediaStreamTrack, x: number, y: number) => {
+  const { focusModes, pointsOfInterest } = getCameraCapabilities(track);
+  if (!pointsOfInterest && !focusModes.includes('single-shot')) return false;
+
+  await applyAdvanced(track, {
+    ...(pointsOfInterest ? { pointsOfInterest: [{ x, y }] } : {}),
+    ...(focusModes.includes('single-shot') ? { focusMode: 'single-shot' } : {}),
+  });
+  if (focusModes.includes('continuous')) {
+    setTimeout(() => applyAdvanced(track, { focusMode: 'continuous' }).catch(() => {}), 3000);
+  }
+  return true;
+};
+
+// Re-apply the remembered torch/zoom/exposure after (re)opening a camera
+export const restoreDeviceSettings = async (track: MediaStreamTrack, settings: DeviceSettings) => {
+  const caps = getCameraCapabilities(track);
+  const constraints: ExtendedConstraintSet = {};
+  if (caps.torch && settings.torch) constraints.torch = true;
+  if (caps.zoom && settings.zoom !== undefined) constraints.zoom = settings.zoom;
+  if (caps.exposureCompensation && settings.exposureCompensation !== undefined) {
+    constraints.exposureCompensation = settings.exposureCompensation;
+  }
+  if (Object.keys(constraints).length === 0) return;
+  try {
+    await applyAdvanced(track, constraints);
+  } catch (err) {
+    console.warn('Could not restore camera settings:', err);
+  }
+};
+
+// Map a tap on the object-fit: cover video element to 0-1 frame coordinates
+export const pointInVideo = (video: HTMLVideoElement, clientX: number, clientY: number) => {
+  const { videoWidth, videoHeight } = video;
+  const view = video.getBoundingClientRect();
+  if (!videoWidth || !videoHeight || !view.width || !view.height) return null;
+
+  const scale = Math.max(view.width / videoWidth, view.height / videoHeight);
+  const offsetX = (view.width - videoWidth * scale) / 2;
+  const offsetY = (view.height - videoHeight * scale) / 2;
+  const x = (clientX - view.left - offsetX) / scale / videoWidth;
+  const y = (clientY - view.top - offsetY) / scale / videoHeight;
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+};
@@ -0,0 +1,174 @@
+import type { ScanResult } from '../components/BarcodeScanner';
+import { extractText } from './ocr';
+import type { OcrConfig, OcrExtraction } from './ocr';
+import { extractProductWithAI } from './productExtraction';
+import type { ProductInfo } from './productExtraction';
+import { documentSummary, extractDocumentWithAI } from './documentExtraction';
+import type { DocumentInfo, DocumentLineItem } from './documentExtraction';
+
+// Multi-shot capture: several frames (label sides, leaflet pages) read one by
+// one and stitched into a single result, dropping text the shots share
+
+export interface SessionPage {
+  id: string;
+  image: string; // base64 JPEG, no data: prefix
+}
+
+export const MAX_SESSION_PAGES = 12;
+
+// Consecutive shots of a wrapped panel share a strip of text; shorter matches are coincidence
+const MIN_OVERLAP_WORDS = 3;
+
+export const movePage = (pages: SessionPage[], id: string, offset: number): SessionPage[] => {
+  const index = pages.findIndex(page => page.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= pages.length) return pages;
+  const next = [...pages];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// Retakes replace the page in place so the order is kept
+export const putPage = (pages: SessionPage[], image: string, replaceId: string | null): SessionPage[] =>
+  replaceId && pages.some(page => page.id === replaceId)
+    ? pages.map(page => (page.id === replaceId ? { ...page, image } : page))
+    : [...pages, { id: crypto.randomUUID(), image }];
+
+// Case, punctuation and hyphenation differ between shots of the same words
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const wordsOf = (text: string) => text.split(/\s+/).filter(Boolean);
+
+const overlapLength = (before: string[], after: string[]): number => {
+  for (let length = Math.min(before.length, after.length); length >= MIN_OVERLAP_WORDS; length--) {
+    const tail = before.slice(before.length - length);
+    if (tail.every((word, i) => word === after[i])) return length;
+  }
+  return 0;
+};
+
+// Drops the first count words of text, keeping the rest of its line breaks
+const dropWords = (text: string, count: number) => {
+  let rest = text.trimStart();
+  for (let i = 0; i < count; i++) rest = rest.replace(/^\S+\s*/, '');
+  return rest;
+};
+
+// Joins texts in order; where one ends with the words the next starts with,
+// they are kept once. A shot whose text is already covered is skipped.
+export const mergeOverlappingText = (texts: string[]): string => {
+  let merged = '';
+  let mergedWords: string[] = [];
+
+  for (const text of texts.map(t => t.trim()).filter(Boolean)) {
+    const words = wordsOf(text).map(normalizeWord);
+    const joined = words.join(' ');
+    if (mergedWords.length > 0 && ` ${mergedWords.join(' ')} `.includes(` ${joined} `)) continue;
+
+    const overlap = overlapLength(mergedWords, words);
+    const rest = dropWords(text, overlap);
+    if (!rest) continue;
+    merged = merged ? `${merged}${overlap > 0 ? ' ' : '\n'}${rest}` : rest;
+    mergedWords = [...mergedWords, ...words.slice(overlap)];
+  }
+  return merged;
+};
+
+// First shot to show a field wins; ingredient lists are joined across shots
+export const mergeProducts = (products: ProductInfo[]): ProductInfo | null => {
+  if (products.length === 0) return null;
+  const merged = { ...products[0] };
+  for (const product of products.slice(1)) {
+    for (const field of Object.keys(merged) as (keyof ProductInfo)[]) {
+      if (merged[field] === null && product[field] !== null) {
+        (merged as Record<keyof ProductInfo, unknown>)[field] = product[field];
+      }
+    }
+  }
+  // An ingredient seen on an earlier shot is the same one seen again, not a second use
+  const seen = new Set<string>();
+  const ingredients = products.flatMap(p => p.ingredients ?? []).filter(ingredient => {
+    const key = wordsOf(ingredient).map(normalizeWord).join(' ');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  merged.ingredients = ingredients.length > 0 ? ingredients : null;
+  return merged;
+};
+
+const sameLine = (a: DocumentLineItem, b: DocumentLineItem) =>
+  normalizeWord(a.description) === normalizeWord(b.description) && a.sku === b.sku && a.lineTotal === b.lineTotal;
+
+// Header fields come from the first page that has them, totals from the last;
+// lines repeated where two shots overlap are kept once
+export const mergeDocuments = (documents: DocumentInfo[]): DocumentInfo | null => {
+  if (documents.length === 0) return null;
+  const first = <K extends keyof DocumentInfo>(field: K) =>
+    documents.find(d => d[field] !== null)?.[field] ?? null;
+  const last = <K extends keyof DocumentInfo>(field: K) =>
+    [...documents].reverse().find(d => d[field] !== null)?.[field] ?? null;
+
+  const lineItems: DocumentLineItem[] = [];
+  for (const { lineItems: items } of documents) {
+    let overlap = Math.min(lineItems.length, items.length);
+    while (overlap > 0 && !items.slice(0, overlap).every((item, i) => sameLine(lineItems[lineItems.length - overlap + i], item))) {
+      overlap--;
+    }
+    lineItems.push(...items.slice(overlap));
+  }
+
+  return {
+    documentType: documents.find(d => d.documentType !== 'other')?.documentType ?? 'other',
+    vendor: first('vendor'),
+    documentNumber: first('documentNumber'),
+    date: first('date'),
+    currency: first('currency'),
+    subtotal: last('subtotal'),
+    tax: last('tax'),
+    total: last('total'),
+    lineItems,
+  };
+};
+
+export type SessionProgressListener = (page: number, total: number, status?: string) => void;
+
+// Reads every page in order, then merges. NetworkError and other retryable
+// errors are passed on so the caller can keep the session for a retry.
+export const extractSession = async (
+  images: string[],
+  extraction: OcrExtraction,
+  config: OcrConfig,
+  onProgress?: SessionProgressListener
+): Promise<Partial<ScanResult> | null> => {
+  if (extraction === 'product') {
+    const products: ProductInfo[] = [];
+    for (const [index, image] of images.entries()) {
+      onProgress?.(index + 1, images.length);
+      const product = await extractProductWithAI(image);
+      if (product) products.push(product);
+    }
+    const product = mergeProducts(products);
+    return product ? { product, text: [product.brand, product.productName].filter(Boolean).join(' ') } : null;
+  }
+
+  if (extraction === 'document') {
+    const documents: DocumentInfo[] = [];
+    for (const [index, image] of images.entries()) {
+      onProgress?.(index + 1, images.length);
+      const document = await extractDocumentWithAI(image);
+      if (document) documents.push(document);
+    }
+    const document = mergeDocuments(documents);
+    return document ? { document, text: documentSummary(document) } : null;
+  }
+
+  const texts: string[] = [];
+  for (const [index, image] of images.entries()) {
+    onProgress?.(index + 1, images.length);
+    const text = await extractText(image, config, status => onProgress?.(index + 1, images.length, status));
+    if (text && text !== 'NO_TEXT_FOUND') texts.push(text);
+  }
+  const text = mergeOverlappingText(texts);
+  return text ? { text } : null;
+};
@@ -0,0 +1,28 @@
+import { CATALOG_CACHE_STORE, withStore } from '../db';
+import type { CatalogProduct } from './types';
+
+// Lookup cache, including misses so unknown codes don't hit remote APIs on every scan
+
+interface CacheRecord {
+  gtin: string;
+  product: CatalogProduct | null;
+  fetchedAt: number;
+}
+
+const MISS_TTL_MS = 60 * 60 * 1000; // Retry unknown codes after an hour
+
+export const readCache = async (gtin: string, ttlMs: number): Promise<CatalogProduct | null | undefined> => {
+  const record = (await withStore(CATALOG_CACHE_STORE, 'readonly', store => store.get(gtin))) as CacheRecord | undefined;
+  if (!record) return undefined;
+
+  const age = Date.now() - record.fetchedAt;
+  return age < (record.product ? ttlMs : Math.min(ttlMs, MISS_TTL_MS)) ? record.product : undefined;
+};
+
+export const writeCache = async (gtin: string, product: CatalogProduct | null): Promise<void> => {
+  await withStore(CATALOG_CACHE_STORE, 'readwrite', store => store.put({ gtin, product, fetchedAt: Date.now() }));
+};
+
+export const clearLookupCache = async (): Promise<void> => {
+  await withStore(CATALOG_CACHE_STORE, 'readwrite', store => store.clear());
+};
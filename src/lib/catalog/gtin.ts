@@ -0,0 +1,19 @@
+import type { ParsedPayload } from '../payloads';
+import { isValidGs1Key } from '../payloads';
+
+// Catalog keys are GTIN-14 so EAN-8, UPC-A, EAN-13 and ITF-14 of one item match
+export const toGtin14 = (value: string): string | null => {
+  const digits = value.trim();
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(digits)) return null;
+  const gtin = digits.padStart(14, '0');
+  return isValidGs1Key(gtin) ? gtin : null;
+};
+
+// The GTIN to look up for a scan: GS1 AI (01) when present, else the raw value
+export const gtinForScan = (value: string, parsed?: ParsedPayload): string | null => {
+  if (parsed?.kind === 'gs1') {
+    const field = parsed.fields.find(f => f.ai === '01');
+    return field ? toGtin14(field.value) : null;
+  }
+  return toGtin14(value);
+};
@@ -0,0 +1,89 @@
+import { readCache, writeCache } from './cache';
+import { createLocalProvider } from './localCatalog';
+import { createHttpProvider, createOpenFoodFactsProvider } from './remoteProviders';
+import type { CatalogProduct, CatalogProvider, LookupConfig, ProviderId } from './types';
+
+export type { CatalogProduct, CatalogProvider, HttpProviderConfig, LookupConfig, ProviderId } from './types';
+export { gtinForScan, toGtin14 } from './gtin';
+export { clearCatalog, countCatalog, importCatalog } from './localCatalog';
+export type { CatalogImportResult } from './localCatalog';
+export { clearLookupCache } from './cache';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  local: 'Local catalog',
+  openfoodfacts: 'Open Food Facts',
+  http: 'Custom API',
+};
+
+export const ALL_PROVIDERS: ProviderId[] = ['local', 'openfoodfacts', 'http'];
+
+export const DEFAULT_LOOKUP_CONFIG: LookupConfig = {
+  providers: ['local'], // Remote providers are opt-in: they send scanned codes off-device
+  http: { urlTemplate: '', headers: {} },
+  cacheHours: 24,
+};
+
+const CONFIG_KEY = 'lookup-config';
+
+export const loadLookupConfig = (): LookupConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    return saved ? { ...DEFAULT_LOOKUP_CONFIG, ...saved } : DEFAULT_LOOKUP_CONFIG;
+  } catch {
+    return DEFAULT_LOOKUP_CONFIG;
+  }
+};
+
+export const saveLookupConfig = (config: LookupConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+const createProvider = (id: ProviderId, config: LookupConfig): CatalogProvider => {
+  switch (id) {
+    case 'local': return createLocalProvider();
+    case 'openfoodfacts': return createOpenFoodFactsProvider();
+    case 'http': return createHttpProvider(config.http);
+  }
+};
+
+// Later providers only fill fields the earlier ones left empty, so a local
+// catalog's price and stock win while a remote API can still supply the image
+const mergeProducts = (products: CatalogProduct[]): CatalogProduct | null => {
+  if (products.length === 0) return null;
+  const merged = { ...products[0] };
+  products.slice(1).forEach(product => {
+    (Object.keys(product) as (keyof CatalogProduct)[]).forEach(key => {
+      if (merged[key] === undefined) Object.assign(merged, { [key]: product[key] });
+    });
+  });
+  merged.provider = products.map(p => p.provider).join(' + ');
+  return merged;
+};
+
+// Resolve a GTIN-14 through the enabled providers, using the cache when fresh
+export const lookupProduct = async (gtin: string, config: LookupConfig = loadLookupConfig()): Promise<CatalogProduct | null> => {
+  if (config.providers.length === 0) return null;
+
+  const ttlMs = config.cacheHours * 60 * 60 * 1000;
+  const cached = await readCache(gtin, ttlMs).catch(() => undefined);
+  if (cached !== undefined) return cached;
+
+  const found: CatalogProduct[] = [];
+  let failed = false;
+  for (const id of config.providers) {
+    try {
+      const product = await createProvider(id, config).lookup(gtin);
+      if (product) found.push(product);
+    } catch (err) {
+      failed = true;
+      console.warn(`${PROVIDER_LABELS[id]} lookup failed:`, err);
+    }
+  }
+
+  const product = mergeProducts(found);
+  // Don't cache a miss caused by an outage - the next scan should try again
+  if (product || !failed) {
+    await writeCache(gtin, product).catch(err => console.error('Failed to cache lookup:', err));
+  }
+  return product;
+};
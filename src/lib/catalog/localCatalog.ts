@@ -0,0 +1,159 @@
+import { CATALOG_STORE, withStore } from '../db';
+import { toGtin14 } from './gtin';
+import type { CatalogProduct, CatalogProvider } from './types';
+
+// Team-maintained catalog imported from CSV or JSON and stored in IndexedDB
+
+type CatalogRecord = Omit<CatalogProduct, 'provider'>;
+
+// Accepted column names (lower-cased, spaces/underscores ignored) for each field
+const COLUMN_ALIASES: Record<keyof CatalogRecord, string[]> = {
+  gtin: ['gtin', 'ean', 'upc', 'barcode', 'code', 'gtin14', 'ean13'],
+  name: ['name', 'productname', 'title', 'description', 'product'],
+  brand: ['brand', 'manufacturer'],
+  imageUrl: ['image', 'imageurl', 'img', 'picture', 'photo'],
+  price: ['price', 'unitprice', 'retailprice'],
+  currency: ['currency'],
+  stock: ['stock', 'qty', 'quantity', 'onhand', 'inventory'],
+  sku: ['sku', 'itemnumber', 'articlenumber', 'item', 'article'],
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]+/g, '');
+
+const fieldForColumn = (column: string): keyof CatalogRecord | undefined => {
+  const key = normalizeKey(column);
+  return (Object.keys(COLUMN_ALIASES) as (keyof CatalogRecord)[])
+    .find(field => COLUMN_ALIASES[field].includes(key));
+};
+
+// Minimal RFC 4180 parser: quoted fields, doubled quotes, CRLF; delimiter sniffed from the header
+export const parseCSV = (text: string): string[][] => {
+  const [firstLine] = text.split(/\r?\n/, 1);
+  const delimiter = [';', '\t', ','].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  // Accept "1.234,56" and "1,234.56" as well as plain decimals
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  const normalized = /,\d{1,2}$/.test(cleaned)
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const toRecord = (source: Record<string, unknown>): CatalogRecord | null => {
+  const mapped: Partial<Record<keyof CatalogRecord, unknown>> = {};
+  Object.entries(source).forEach(([column, value]) => {
+    const field = fieldForColumn(column);
+    if (field && mapped[field] === undefined) mapped[field] = value;
+  });
+
+  // Spreadsheets love to drop leading zeros; toGtin14 pads them back
+  const gtin = toGtin14(String(mapped.gtin ?? '').replace(/\D/g, ''));
+  if (!gtin) return null;
+
+  const text = (value: unknown) => (value === undefined || value === null || value === '' ? undefined : String(value).trim());
+  return {
+    gtin,
+    name: text(mapped.name),
+    brand: text(mapped.brand),
+    imageUrl: text(mapped.imageUrl),
+    price: toNumber(mapped.price),
+    currency: text(mapped.currency)?.toUpperCase(),
+    stock: toNumber(mapped.stock),
+    sku: text(mapped.sku),
+  };
+};
+
+export interface CatalogImportResult {
+  imported: number;
+  skipped: number;   // Rows without a valid GTIN
+}
+
+export const parseCatalogFile = (text: string, fileName: string): { records: CatalogRecord[]; skipped: number } => {
+  let sources: Record<string, unknown>[];
+
+  if (fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text)) {
+    const data: unknown = JSON.parse(text);
+    // Either an array of products or { products: [...] }
+    const list = Array.isArray(data) ? data : (data as { products?: unknown[] }).products;
+    if (!Array.isArray(list)) throw new Error('JSON catalog must be an array of products');
+    sources = list.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null);
+  } else {
+    const [header, ...rows] = parseCSV(text);
+    if (!header) throw new Error('Catalog file is empty');
+    sources = rows.map(row => Object.fromEntries(header.map((column, i) => [column, row[i]])));
+  }
+
+  const records = sources.map(toRecord).filter((record): record is CatalogRecord => record !== null);
+  return { records, skipped: sources.length - records.length };
+};
+
+export const importCatalog = async (text: string, fileName: string, replace = false): Promise<CatalogImportResult> => {
+  const { records, skipped } = parseCatalogFile(text, fileName);
+
+  await withStore(CATALOG_STORE, 'readwrite', store => {
+    if (replace) store.clear();
+    records.forEach(record => store.put(record));
+  });
+
+  return { imported: records.length, skipped };
+};
+
+export const countCatalog = async (): Promise<number> =>
+  (await withStore(CATALOG_STORE, 'readonly', store => store.count())) as number;
+
+export const clearCatalog = async (): Promise<void> => {
+  await withStore(CATALOG_STORE, 'readwrite', store => store.clear());
+};
+
+export const createLocalProvider = (): CatalogProvider => ({
+  id: 'local',
+  label: 'Local catalog',
+  async lookup(gtin) {
+    const record = (await withStore(CATALOG_STORE, 'readonly', store => store.get(gtin))) as CatalogRecord | undefined;
+    return record ? { ...record, provider: 'Local catalog' } : null;
+  },
+});
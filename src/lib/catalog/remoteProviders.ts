@@ -0,0 +1,68 @@
+import type { CatalogProduct, CatalogProvider, HttpProviderConfig } from './types';
+
+// Remote catalog providers. Each maps its API response onto CatalogProduct.
+
+interface OpenFoodFactsResponse {
+  status: number;
+  product?: {
+    product_name?: string;
+    brands?: string;
+    image_front_url?: string;
+    image_url?: string;
+  };
+}
+
+// Open Food Facts: free, CORS-enabled, food and grocery only
+export const createOpenFoodFactsProvider = (): CatalogProvider => ({
+  id: 'openfoodfacts',
+  label: 'Open Food Facts',
+  async lookup(gtin) {
+    // OFF indexes EAN-13 and EAN-8, not GTIN-14
+    const code = gtin.startsWith('000000') ? gtin.slice(6) : gtin.startsWith('0') ? gtin.slice(1) : gtin;
+    const response = await fetch(
+      `https://world.openfoodfacts.org/api/v2/product/${code}.json?fields=product_name,brands,image_front_url,image_url`
+    );
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Open Food Facts HTTP ${response.status}`);
+
+    const data: OpenFoodFactsResponse = await response.json();
+    if (data.status !== 1 || !data.product) return null;
+
+    return {
+      gtin,
+      name: data.product.product_name || undefined,
+      brand: data.product.brands?.split(',')[0].trim() || undefined,
+      imageUrl: data.product.image_front_url || data.product.image_url || undefined,
+      provider: 'Open Food Facts',
+    };
+  },
+});
+
+// Generic JSON endpoint (e.g. an ERP item API). The response should be an object
+// with any of: name, brand, imageUrl, price, currency, stock, sku.
+export const createHttpProvider = ({ urlTemplate, headers }: HttpProviderConfig): CatalogProvider => ({
+  id: 'http',
+  label: 'Custom API',
+  async lookup(gtin) {
+    if (!urlTemplate) return null;
+
+    const response = await fetch(urlTemplate.replace(/\{gtin\}/g, encodeURIComponent(gtin)), { headers });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Custom API HTTP ${response.status}`);
+
+    const data = await response.json() as Partial<CatalogProduct> | null;
+    if (!data || typeof data !== 'object') return null;
+
+    return {
+      gtin,
+      name: data.name,
+      brand: data.brand,
+      imageUrl: data.imageUrl,
+      price: typeof data.price === 'number' ? data.price : undefined,
+      currency: data.currency,
+      stock: typeof data.stock === 'number' ? data.stock : undefined,
+      sku: data.sku,
+      provider: 'Custom API',
+    };
+  },
+});
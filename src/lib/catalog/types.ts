@@ -0,0 +1,33 @@
+// Product lookup by GTIN through pluggable catalog providers
+
+export type ProviderId = 'local' | 'openfoodfacts' | 'http';
+
+export interface CatalogProduct {
+  gtin: string;        // GTIN-14, zero-padded
+  name?: string;
+  brand?: string;
+  imageUrl?: string;
+  price?: number;
+  currency?: string;
+  stock?: number;
+  sku?: string;        // Internal item number, when the catalog has one
+  provider: string;    // Label of the provider that answered
+}
+
+export interface CatalogProvider {
+  id: ProviderId;
+  label: string;
+  // Resolves null when the provider doesn't know the GTIN; throws on transport errors
+  lookup(gtin: string): Promise<CatalogProduct | null>;
+}
+
+export interface HttpProviderConfig {
+  urlTemplate: string;               // {gtin} is replaced with the GTIN-14
+  headers: Record<string, string>;
+}
+
+export interface LookupConfig {
+  providers: ProviderId[];           // Enabled providers in priority order
+  http: HttpProviderConfig;
+  cacheHours: number;
+}
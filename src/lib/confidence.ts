@@ -0,0 +1,105 @@
+import type { DecodedBarcode, EngineId } from './decoders';
+import { parsePayload } from './payloads';
+import type { ParsedPayload } from './payloads';
+import { validateBarcode } from './validation';
+import type { BarcodeValidation } from './validation';
+
+// Confidence scoring for decoded barcodes and the consecutive-frame agreement
+// gate that holds back low-confidence reads until they repeat
+
+// How much each engine is trusted before any other evidence
+const ENGINE_BASE: Record<EngineId, number> = {
+  zxing: 0.8,   // Verifies symbology checksums internally
+  native: 0.8,
+  quagga: 0.6,  // Pattern-matches 1D codes and misreads damaged bars more often
+};
+
+// Symbologies with strong built-in error detection/correction
+const SELF_CHECKING_FORMATS = new Set(['QR_CODE', 'DATA_MATRIX', 'AZTEC', 'PDF_417', 'CODE_128']);
+
+export const scoreConfidence = (barcode: DecodedBarcode, validation: BarcodeValidation): number => {
+  if (validation.checked && !validation.valid) return 0;
+
+  const agreeingEngines = barcode.agreement ?? 1;
+
+  let score = ENGINE_BASE[barcode.engine];
+  if (barcode.quality !== undefined) score *= 0.5 + barcode.quality / 2;
+  if (validation.checked) score += 0.15;
+  else if (SELF_CHECKING_FORMATS.has(barcode.format)) score += 0.1;
+  score += 0.1 * Math.max(0, agreeingEngines - 1);
+
+  return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+};
+
+export interface BarcodeAssessment {
+  parsed?: ParsedPayload;
+  validation: BarcodeValidation;
+  confidence: number; // 0-1
+}
+
+// Parse, validate and score one decoded barcode
+export const assessBarcode = (barcode: DecodedBarcode): BarcodeAssessment => {
+  const parsed = parsePayload(barcode.value) ?? undefined;
+  const validation = validateBarcode(barcode.value, barcode.format, parsed);
+  return { parsed, validation, confidence: scoreConfidence(barcode, validation) };
+};
+
+export interface AgreementGateOptions {
+  minConfidence: number;   // Reads at or above this pass immediately
+  requiredFrames: number;  // Consecutive identical frames needed below it
+}
+
+export const DEFAULT_AGREEMENT: AgreementGateOptions = {
+  minConfidence: 0.75,
+  requiredFrames: 3,
+};
+
+export interface AgreementGate {
+  // Returns true when the read should be accepted
+  submit(value: string, confidence: number): boolean;
+  reset(): void;
+}
+
+export const createAgreementGate = (options: AgreementGateOptions = DEFAULT_AGREEMENT): AgreementGate => {
+  let candidate = '';
+  let streak = 0;
+
+  return {
+    submit(value, confidence) {
+      streak = value === candidate ? streak + 1 : 1;
+      candidate = value;
+      if (confidence >= options.minConfidence) return true;
+      return streak >= options.requiredFrames;
+    },
+    reset() {
+      candidate = '';
+      streak = 0;
+    },
+  };
+};
+
+export interface RepeatGate {
+  // Returns true for a fresh scan, false while the same code is still in view
+  submit(value: string, gapMs: number, now?: number): boolean;
+  reset(): void;
+}
+
+// A code held in front of the camera decodes on every frame. It counts once,
+// and again only after it has gone unseen for gapMs (taken away and rescanned).
+export const createRepeatGate = (): RepeatGate => {
+  let last = '';
+  let lastSeen = 0;
+
+  return {
+    submit(value, gapMs, now = Date.now()) {
+      const fresh = value !== last || now - lastSeen >= gapMs;
+      last = value;
+      lastSeen = now;
+      return fresh;
+    },
+    reset() {
+      last = '';
+      lastSeen = 0;
+    },
+  };
+};
@@ -0,0 +1,75 @@
+// Shared IndexedDB connection for scan history, the offline OCR queue,
+// inventory sessions, the product catalog and pending webhook deliveries
+const DB_NAME = 'barcode-scanner';
+const DB_VERSION = 5;
+
+export const SCANS_STORE = 'scans';
+export const OCR_QUEUE_STORE = 'ocr-queue';
+export const INVENTORY_STORE = 'inventory-sessions';
+export const CATALOG_STORE = 'catalog';
+export const CATALOG_CACHE_STORE = 'catalog-cache';
+export const WEBHOOK_STORE = 'webhook-deliveries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(SCANS_STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (event.oldVersion < 2) {
+        // Frames waiting for the network, and a link from history entries back to them
+        db.createObjectStore(OCR_QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+        request.transaction!.objectStore(SCANS_STORE).createIndex('queueId', 'queueId');
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(INVENTORY_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore(CATALOG_STORE, { keyPath: 'gtin' });
+        db.createObjectStore(CATALOG_CACHE_STORE, { keyPath: 'gtin' });
+      }
+      if (event.oldVersion < 5) {
+        db.createObjectStore(WEBHOOK_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | void> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, mode);
+  const request = fn(tx.objectStore(storeName));
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = request ? await promisify(request) : undefined;
+  await done;
+  return result;
+};
@@ -0,0 +1,16 @@
+// Engines name formats differently (ZXing enum numbers, Quagga "ean_13",
+// BarcodeDetector "qr_code"); normalize everything to ZXing-style names
+const ALIASES: Record<string, string> = {
+  EAN: 'EAN_13',
+  UPC_A: 'UPC_A',
+  UPC: 'UPC_A',
+  I2OF5: 'ITF',
+  '2OF5': 'ITF',
+  CODE_39_VIN: 'CODE_39',
+  PDF417: 'PDF_417',
+};
+
+export const normalizeFormat = (format: string): string => {
+  const upper = format.trim().toUpperCase().replace(/[-\s]/g, '_');
+  return ALIASES[upper] ?? upper;
+};
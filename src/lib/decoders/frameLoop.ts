@@ -0,0 +1,51 @@
+import type { DecodedBarcode } from './types';
+
+// Grab the current video frame into a reusable canvas
+export const grabFrame = (video: HTMLVideoElement, canvas = document.createElement('canvas')): HTMLCanvasElement | null => {
+  if (video.videoWidth === 0 || video.videoHeight === 0) return null;
+  if (canvas.width !== video.videoWidth) canvas.width = video.videoWidth;
+  if (canvas.height !== video.videoHeight) canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0);
+  return canvas;
+};
+
+// Produces the frame to decode; defaults to the raw video frame
+export type FrameGrabber = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement
+) => HTMLCanvasElement | null | Promise<HTMLCanvasElement | null>;
+
+// Repeatedly decode frames from a video, waiting for each pass to finish
+// before scheduling the next so slow engines never pile up
+export const startFrameLoop = (
+  video: HTMLVideoElement,
+  decode: (frame: HTMLCanvasElement) => Promise<DecodedBarcode[]>,
+  onDetect: (results: DecodedBarcode[]) => void,
+  intervalMs = 100,
+  grab: FrameGrabber = grabFrame
+): (() => void) => {
+  const canvas = document.createElement('canvas');
+  let stopped = false;
+  let timer: number | undefined;
+
+  const tick = async () => {
+    if (stopped) return;
+    try {
+      const frame = await grab(video, canvas);
+      const results = frame ? await decode(frame) : [];
+      if (!stopped && results.length > 0) onDetect(results);
+    } catch (err) {
+      console.error('Frame decode error:', err);
+    }
+    if (!stopped) timer = window.setTimeout(tick, intervalMs);
+  };
+
+  tick();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
@@ -0,0 +1,268 @@
+import { startFrameLoop } from './frameLoop';
+import type { FrameGrabber } from './frameLoop';
+import { createNativeEngine } from './nativeEngine';
+import { createQuaggaEngine } from './quaggaEngine';
+import { DEFAULT_SYMBOLOGY, createResultFilter } from './symbology';
+import { createZXingEngine, createZXingMultiEngine } from './zxingEngine';
+import type {
+  AiFallbackConfig,
+  DecodedBarcode,
+  DecodeStrategy,
+  DecoderConfig,
+  DecoderEngine,
+  EngineId,
+  SymbologyConfig,
+} from './types';
+
+export type {
+  AiFallbackConfig,
+  DecodedBarcode,
+  DecodeStrategy,
+  DecoderConfig,
+  DecoderEngine,
+  EngineId,
+  SymbologyConfig,
+} from './types';
+export { grabFrame } from './frameLoop';
+export { normalizeFormat } from './formats';
+export type { FrameGrabber } from './frameLoop';
+export {
+  BUILT_IN_PRESETS,
+  DEFAULT_SYMBOLOGY,
+  SYMBOLOGY_FORMATS,
+  compilePattern,
+  createResultFilter,
+  loadCustomPresets,
+  presetMatches,
+  saveCustomPresets,
+} from './symbology';
+export type { SymbologyFormat, SymbologyPreset } from './symbology';
+
+const FACTORIES: Record<EngineId, (symbology: SymbologyConfig) => DecoderEngine> = {
+  zxing: createZXingEngine,
+  quagga: createQuaggaEngine,
+  native: createNativeEngine,
+};
+
+export const ENGINE_LABELS: Record<EngineId, string> = {
+  zxing: 'ZXing',
+  quagga: 'Quagga2',
+  native: 'BarcodeDetector',
+};
+
+export const ALL_ENGINES: EngineId[] = ['zxing', 'quagga', 'native'];
+
+// Engines that can locate several codes in one frame and report outlines
+export const MULTI_ENGINES: EngineId[] = ['native', 'quagga'];
+
+// Off by default: every attempt is a paid vision request
+export const DEFAULT_AI_FALLBACK: AiFallbackConfig = {
+  enabled: false,
+  timeoutSeconds: 3,
+  throttleSeconds: 5,
+};
+
+export const DEFAULT_DECODER_CONFIG: DecoderConfig = {
+  engines: ['zxing'], // ZXing alone is fastest and most reliable for everyday scanning
+  strategy: 'priority',
+  consensusMin: 2,
+  symbology: DEFAULT_SYMBOLOGY,
+  aiFallback: DEFAULT_AI_FALLBACK,
+  rescanGapSeconds: 1,
+};
+
+const CONFIG_KEY = 'decoder-config';
+
+export const loadDecoderConfig = (): DecoderConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    return saved
+      ? {
+        ...DEFAULT_DECODER_CONFIG,
+        ...saved,
+        symbology: { ...DEFAULT_SYMBOLOGY, ...saved.symbology },
+        aiFallback: { ...DEFAULT_AI_FALLBACK, ...saved.aiFallback },
+      }
+      : DEFAULT_DECODER_CONFIG;
+  } catch {
+    return DEFAULT_DECODER_CONFIG;
+  }
+};
+
+export const saveDecoderConfig = (config: DecoderConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+// Per-engine benchmark counters for frames decoded through strategies
+export interface EngineStats {
+  attempts: number;
+  hits: number;
+  totalMs: number;
+}
+
+const emptyStats = (): Record<EngineId, EngineStats> => ({
+  zxing: { attempts: 0, hits: 0, totalMs: 0 },
+  quagga: { attempts: 0, hits: 0, totalMs: 0 },
+  native: { attempts: 0, hits: 0, totalMs: 0 },
+});
+
+let stats = emptyStats();
+
+export const getEngineStats = (): Record<EngineId, EngineStats> => structuredClone(stats);
+
+export const resetEngineStats = () => {
+  stats = emptyStats();
+};
+
+const timedDecode = async (engine: DecoderEngine, frame: HTMLCanvasElement): Promise<DecodedBarcode[]> => {
+  const started = performance.now();
+  let results: DecodedBarcode[] = [];
+  try {
+    results = await engine.decodeFrame(frame);
+  } catch (err) {
+    console.error(`${engine.label} decode error:`, err);
+  }
+  const entry = stats[engine.id];
+  entry.attempts++;
+  entry.totalMs += performance.now() - started;
+  if (results.length > 0) entry.hits++;
+  return results;
+};
+
+// Drop results outside the whitelist, too short, or not matching the pattern
+const withResultFilter = (engine: DecoderEngine, symbology: SymbologyConfig): DecoderEngine => {
+  const accept = createResultFilter(symbology);
+  return {
+    id: engine.id,
+    label: engine.label,
+    isSupported: () => engine.isSupported(),
+    start: (video, onDetect) => engine.start(video, results => {
+      const accepted = results.filter(accept);
+      if (accepted.length > 0) onDetect(accepted);
+    }),
+    stop: () => engine.stop(),
+    decodeFrame: async frame => (await engine.decodeFrame(frame)).filter(accept),
+  };
+};
+
+export const resolveEngines = async (
+  ids: EngineId[],
+  symbology: SymbologyConfig = DEFAULT_SYMBOLOGY
+): Promise<DecoderEngine[]> => {
+  const engines = ids.map(id => FACTORIES[id](symbology));
+  const supported = await Promise.all(engines.map(engine => engine.isSupported()));
+  const available = engines.filter((_, i) => supported[i]);
+  return (available.length > 0 ? available : [createZXingEngine(symbology)])
+    .map(engine => withResultFilter(engine, symbology));
+};
+
+const firstNonEmpty = (attempts: Promise<DecodedBarcode[]>[]): Promise<DecodedBarcode[]> =>
+  new Promise(resolve => {
+    let pending = attempts.length;
+    attempts.forEach(attempt => attempt.then(results => {
+      pending--;
+      if (results.length > 0) resolve(results);
+      else if (pending === 0) resolve([]);
+    }));
+  });
+
+// Keep one entry per value, preferring the one with the most detailed outline
+const mergeByValue = (results: DecodedBarcode[]): DecodedBarcode[] => {
+  const byValue = new Map<string, DecodedBarcode>();
+  results.forEach(result => {
+    const existing = byValue.get(result.value);
+    if (!existing || (result.points?.length ?? 0) > (existing.points?.length ?? 0)) {
+      byValue.set(result.value, result);
+    }
+  });
+  return [...byValue.values()];
+};
+
+export const decodeWithStrategy = async (
+  engines: DecoderEngine[],
+  frame: HTMLCanvasElement,
+  strategy: DecodeStrategy,
+  consensusMin = DEFAULT_DECODER_CONFIG.consensusMin
+): Promise<DecodedBarcode[]> => {
+  switch (strategy) {
+    case 'priority':
+      for (const engine of engines) {
+        const results = await timedDecode(engine, frame);
+        if (results.length > 0) return results;
+      }
+      return [];
+
+    case 'first-wins':
+      return firstNonEmpty(engines.map(engine => timedDecode(engine, frame)));
+
+    case 'consensus': {
+      const all = (await Promise.all(engines.map(engine => timedDecode(engine, frame)))).flat();
+      const required = Math.min(consensusMin, engines.length);
+      const votes = new Map<string, Set<string>>();
+      all.forEach(result => {
+        votes.set(result.value, (votes.get(result.value) ?? new Set()).add(result.engine));
+      });
+      return mergeByValue(all.filter(result => votes.get(result.value)!.size >= required))
+        .map(result => ({ ...result, agreement: votes.get(result.value)!.size }));
+    }
+  }
+};
+
+// Union of every engine's results - used to outline all codes in a frame
+export const decodeAll = async (engines: DecoderEngine[], frame: HTMLCanvasElement): Promise<DecodedBarcode[]> =>
+  mergeByValue((await Promise.all(engines.map(engine => timedDecode(engine, frame)))).flat());
+
+// Multi mode: the supported MULTI_ENGINES, and ZXing searching region by
+// region for frames where they find nothing (or none is supported)
+export interface MultiDecoder {
+  engines: DecoderEngine[];
+  fallback: DecoderEngine;
+}
+
+export const resolveMultiDecoder = async (symbology: SymbologyConfig = DEFAULT_SYMBOLOGY): Promise<MultiDecoder> => {
+  const engines = MULTI_ENGINES.map(id => FACTORIES[id](symbology));
+  const supported = await Promise.all(engines.map(engine => engine.isSupported()));
+  return {
+    engines: engines.filter((_, i) => supported[i]).map(engine => withResultFilter(engine, symbology)),
+    fallback: withResultFilter(createZXingMultiEngine(symbology), symbology),
+  };
+};
+
+export const decodeMultiple = async ({ engines, fallback }: MultiDecoder, frame: HTMLCanvasElement): Promise<DecodedBarcode[]> => {
+  const results = await decodeAll(engines, frame);
+  return results.length > 0 ? results : timedDecode(fallback, frame);
+};
+
+// Start live decoding with the configured engines. A single engine runs its own
+// start() loop; several engines, or a custom frame grabber (preprocessing),
+// share one frame loop driven by the strategy.
+export const startDecoders = async (
+  video: HTMLVideoElement,
+  config: DecoderConfig,
+  onDetect: (results: DecodedBarcode[]) => void,
+  grab?: FrameGrabber
+): Promise<() => void> => {
+  const engines = await resolveEngines(config.engines, config.symbology);
+
+  // An exception in the handler would escape the engine's own scan loop and end it silently
+  const safeDetect = (results: DecodedBarcode[]) => {
+    try {
+      onDetect(results);
+    } catch (err) {
+      console.error('Scan handler error:', err);
+    }
+  };
+
+  if (engines.length === 1 && !grab) {
+    await engines[0].start(video, safeDetect);
+    return () => engines[0].stop();
+  }
+
+  return startFrameLoop(
+    video,
+    frame => decodeWithStrategy(engines, frame, config.strategy, config.consensusMin),
+    safeDetect,
+    100,
+    grab
+  );
+};
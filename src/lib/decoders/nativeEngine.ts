@@ -0,0 +1,80 @@
+import { normalizeFormat } from './formats';
+import { startFrameLoop } from './frameLoop';
+import { enabledFormats } from './symbology';
+import type { DecodedBarcode, DecoderEngine, SymbologyConfig } from './types';
+
+// Shape Detection API - not yet in TypeScript's DOM lib
+interface NativeDetectedBarcode {
+  rawValue: string;
+  format: string;
+  cornerPoints: { x: number; y: number }[];
+}
+
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<NativeDetectedBarcode[]>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const getDetectorClass = () =>
+  (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+
+export const createNativeEngine = (symbology?: SymbologyConfig): DecoderEngine => {
+  const wanted = symbology && symbology.formats.length > 0
+    ? enabledFormats(symbology).flatMap(format => format.native ? [format.native] : [])
+    : null;
+
+  let detector: NativeBarcodeDetector | null = null;
+  let stopLoop: (() => void) | null = null;
+
+  const getDetector = async () => {
+    if (!detector) {
+      const Detector = getDetectorClass();
+      if (!Detector) throw new Error('BarcodeDetector is not available in this browser');
+      const supported = await Detector.getSupportedFormats();
+      detector = new Detector({ formats: wanted ? supported.filter(f => wanted.includes(f)) : supported });
+    }
+    return detector;
+  };
+
+  const detect = async (source: CanvasImageSource): Promise<DecodedBarcode[]> => {
+    const results = await (await getDetector()).detect(source);
+    return results.map(result => ({
+      value: result.rawValue,
+      format: normalizeFormat(result.format),
+      engine: 'native',
+      points: result.cornerPoints.map(({ x, y }) => [x, y] as [number, number]),
+    }));
+  };
+
+  return {
+    id: 'native',
+    label: 'BarcodeDetector',
+
+    async isSupported() {
+      const Detector = getDetectorClass();
+      if (!Detector) return false;
+      try {
+        const supported = await Detector.getSupportedFormats();
+        return supported.some(format => !wanted || wanted.includes(format));
+      } catch {
+        return false;
+      }
+    },
+
+    async start(video, onDetect) {
+      await getDetector();
+      stopLoop = startFrameLoop(video, detect, onDetect, 100);
+    },
+
+    stop() {
+      stopLoop?.();
+      stopLoop = null;
+    },
+
+    decodeFrame: detect,
+  };
+};
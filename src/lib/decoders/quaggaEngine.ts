@@ -0,0 +1,98 @@
+import Quagga from '@ericblade/quagga2';
+import type { QuaggaJSCodeReader, QuaggaJSResultObject } from '@ericblade/quagga2';
+import { normalizeFormat } from './formats';
+import { startFrameLoop } from './frameLoop';
+import { enabledFormats } from './symbology';
+import type { DecodedBarcode, DecoderEngine, SymbologyConfig } from './types';
+
+const MAX_FRAME_WIDTH = 800; // Downscale frames before locating - keeps each pass well under 100ms
+
+// Used when no whitelist is set
+const DEFAULT_READERS: QuaggaJSCodeReader[] = [
+  'code_128_reader',    // USPS tracking, shipping labels - PRIMARY
+  'code_39_reader',     // General purpose
+  'ean_reader',         // Products
+  'ean_8_reader',
+  'upc_reader',         // Products
+  'upc_e_reader',
+  'codabar_reader',     // Other formats
+  'i2of5_reader',
+];
+
+// Only reject terrible quality (0.5 = 50% error rate)
+const MAX_AVERAGE_ERROR = 0.5;
+
+const averageError = (result: QuaggaJSResultObject) => {
+  const codes = result.codeResult.decodedCodes.filter(c => c.error !== undefined);
+  if (codes.length === 0) return 0;
+  return codes.reduce((sum, c) => sum + (c.error ?? 0), 0) / codes.length;
+};
+
+// Quagga keeps global state, so calls must never overlap
+let queue: Promise<unknown> = Promise.resolve();
+
+const decodeWithQuagga = (frame: HTMLCanvasElement, readers: QuaggaJSCodeReader[]): Promise<DecodedBarcode[]> => {
+  const scale = Math.min(1, MAX_FRAME_WIDTH / frame.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(frame.width * scale);
+  canvas.height = Math.round(frame.height * scale);
+  canvas.getContext('2d')!.drawImage(frame, 0, 0, canvas.width, canvas.height);
+
+  const run = async () => {
+    const data = await Quagga.decodeSingle({
+      src: canvas.toDataURL('image/jpeg', 0.9),
+      numOfWorkers: 0,
+      // Quagga resizes the longer side to this; matching it keeps box points in canvas pixels
+      inputStream: { size: Math.max(canvas.width, canvas.height) },
+      locate: true,
+      locator: { patchSize: 'medium', halfSample: true },
+      decoder: { readers, multiple: true },
+    }) as QuaggaJSResultObject | QuaggaJSResultObject[] | undefined;
+
+    // With `multiple: true` Quagga publishes an array; without any hits it may publish a single object
+    const results = Array.isArray(data) ? data : data?.barcodes ?? (data ? [data] : []);
+
+    return results
+      .filter(result => result.codeResult?.code && averageError(result) <= MAX_AVERAGE_ERROR)
+      .map((result): DecodedBarcode => ({
+        value: result.codeResult.code!,
+        format: normalizeFormat(result.codeResult.format || 'unknown'),
+        engine: 'quagga',
+        quality: Math.max(0, 1 - averageError(result)),
+        points: result.box?.map(([x, y]) => [x / scale, y / scale] as [number, number]),
+      }));
+  };
+
+  const next = queue.then(run, run);
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+const readersFor = (symbology?: SymbologyConfig): QuaggaJSCodeReader[] =>
+  !symbology || symbology.formats.length === 0
+    ? DEFAULT_READERS
+    : enabledFormats(symbology).flatMap(format => format.quagga ? [format.quagga] : []);
+
+export const createQuaggaEngine = (symbology?: SymbologyConfig): DecoderEngine => {
+  const readers = readersFor(symbology);
+  const decode = (frame: HTMLCanvasElement) => decodeWithQuagga(frame, readers);
+  let stopLoop: (() => void) | null = null;
+
+  return {
+    id: 'quagga',
+    label: 'Quagga2',
+    // 1D only - with a 2D-only whitelist there is nothing for Quagga to read
+    isSupported: async () => readers.length > 0,
+
+    async start(video, onDetect) {
+      stopLoop = startFrameLoop(video, decode, onDetect, 100); // 10 per second
+    },
+
+    stop() {
+      stopLoop?.();
+      stopLoop = null;
+    },
+
+    decodeFrame: decode,
+  };
+};
@@ -0,0 +1,116 @@
+import type { QuaggaJSCodeReader } from '@ericblade/quagga2';
+import { BarcodeFormat } from '@zxing/library';
+import type { DecodedBarcode, SymbologyConfig } from './types';
+
+// Per-format names for each engine, keyed by our normalized (ZXing-style) name
+export interface SymbologyFormat {
+  id: string;
+  label: string;
+  dimension: '1D' | '2D';
+  zxing: BarcodeFormat;
+  quagga?: QuaggaJSCodeReader;
+  native?: string;
+}
+
+export const SYMBOLOGY_FORMATS: SymbologyFormat[] = [
+  { id: 'EAN_13', label: 'EAN-13', dimension: '1D', zxing: BarcodeFormat.EAN_13, quagga: 'ean_reader', native: 'ean_13' },
+  { id: 'EAN_8', label: 'EAN-8', dimension: '1D', zxing: BarcodeFormat.EAN_8, quagga: 'ean_8_reader', native: 'ean_8' },
+  { id: 'UPC_A', label: 'UPC-A', dimension: '1D', zxing: BarcodeFormat.UPC_A, quagga: 'upc_reader', native: 'upc_a' },
+  { id: 'UPC_E', label: 'UPC-E', dimension: '1D', zxing: BarcodeFormat.UPC_E, quagga: 'upc_e_reader', native: 'upc_e' },
+  { id: 'CODE_128', label: 'Code 128 / GS1-128', dimension: '1D', zxing: BarcodeFormat.CODE_128, quagga: 'code_128_reader', native: 'code_128' },
+  { id: 'CODE_39', label: 'Code 39', dimension: '1D', zxing: BarcodeFormat.CODE_39, quagga: 'code_39_reader', native: 'code_39' },
+  { id: 'CODE_93', label: 'Code 93', dimension: '1D', zxing: BarcodeFormat.CODE_93, quagga: 'code_93_reader', native: 'code_93' },
+  { id: 'ITF', label: 'ITF / ITF-14', dimension: '1D', zxing: BarcodeFormat.ITF, quagga: 'i2of5_reader', native: 'itf' },
+  { id: 'CODABAR', label: 'Codabar', dimension: '1D', zxing: BarcodeFormat.CODABAR, quagga: 'codabar_reader', native: 'codabar' },
+  { id: 'RSS_14', label: 'GS1 DataBar', dimension: '1D', zxing: BarcodeFormat.RSS_14 },
+  { id: 'RSS_EXPANDED', label: 'GS1 DataBar Expanded', dimension: '1D', zxing: BarcodeFormat.RSS_EXPANDED },
+  { id: 'QR_CODE', label: 'QR Code', dimension: '2D', zxing: BarcodeFormat.QR_CODE, native: 'qr_code' },
+  { id: 'DATA_MATRIX', label: 'Data Matrix', dimension: '2D', zxing: BarcodeFormat.DATA_MATRIX, native: 'data_matrix' },
+  { id: 'PDF_417', label: 'PDF417', dimension: '2D', zxing: BarcodeFormat.PDF_417, native: 'pdf417' },
+  { id: 'AZTEC', label: 'Aztec', dimension: '2D', zxing: BarcodeFormat.AZTEC, native: 'aztec' },
+  { id: 'MAXICODE', label: 'MaxiCode', dimension: '2D', zxing: BarcodeFormat.MAXICODE },
+];
+
+export const DEFAULT_SYMBOLOGY: SymbologyConfig = {
+  formats: [],
+  tryHarder: false,   // 3-5x slower; only worth it for damaged labels
+  assumeGs1: true,
+  minLength: 0,
+  pattern: '',
+};
+
+export interface SymbologyPreset {
+  name: string;
+  config: SymbologyConfig;
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_PRESETS: SymbologyPreset[] = [
+  { name: 'All formats', builtIn: true, config: DEFAULT_SYMBOLOGY },
+  {
+    name: 'Retail',
+    builtIn: true,
+    config: { ...DEFAULT_SYMBOLOGY, formats: ['EAN_13', 'EAN_8', 'UPC_A', 'UPC_E', 'RSS_14', 'RSS_EXPANDED'], minLength: 8 },
+  },
+  {
+    // Parcel labels: GS1-128/SSCC, carrier Code 39, case ITF-14 and 2D routing codes - no QR false hits
+    name: 'Shipping',
+    builtIn: true,
+    config: { ...DEFAULT_SYMBOLOGY, formats: ['CODE_128', 'CODE_39', 'ITF', 'PDF_417', 'MAXICODE', 'DATA_MATRIX'], minLength: 6 },
+  },
+  {
+    // GS1 DataMatrix on packs (FMD/DSCSA), Code 39 for PZN, EAN-13 on older stock
+    name: 'Pharma',
+    builtIn: true,
+    config: { ...DEFAULT_SYMBOLOGY, formats: ['DATA_MATRIX', 'CODE_128', 'CODE_39', 'EAN_13'], tryHarder: true },
+  },
+];
+
+const PRESETS_KEY = 'symbology-presets';
+
+export const loadCustomPresets = (): SymbologyPreset[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: SymbologyPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+const sameFormats = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(format => b.includes(format));
+
+export const presetMatches = (preset: SymbologyPreset, config: SymbologyConfig) =>
+  sameFormats(preset.config.formats, config.formats)
+  && preset.config.tryHarder === config.tryHarder
+  && preset.config.assumeGs1 === config.assumeGs1
+  && preset.config.minLength === config.minLength
+  && preset.config.pattern === config.pattern;
+
+// Formats of the whitelist (or all of them) that an engine can be told about
+export const enabledFormats = (config: SymbologyConfig): SymbologyFormat[] =>
+  config.formats.length === 0
+    ? SYMBOLOGY_FORMATS
+    : SYMBOLOGY_FORMATS.filter(format => config.formats.includes(format.id));
+
+export const compilePattern = (pattern: string): RegExp | null => {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+};
+
+// Engines can't always be restricted natively (or report a format we don't map),
+// so every result also passes through this check
+export const createResultFilter = (config: SymbologyConfig) => {
+  const pattern = compilePattern(config.pattern);
+  return (result: Pick<DecodedBarcode, 'value' | 'format'>) =>
+    (config.formats.length === 0 || config.formats.includes(result.format))
+    && result.value.length >= config.minLength
+    && (!pattern || pattern.test(result.value));
+};
@@ -0,0 +1,53 @@
+// Shared contract for every barcode decoding backend
+
+export type EngineId = 'zxing' | 'quagga' | 'native';
+
+// priority:   try engines in order on each frame, first hit wins
+// first-wins: run all engines on the frame in parallel, fastest hit wins
+// consensus:  run all engines, accept a value only when enough engines agree
+export type DecodeStrategy = 'priority' | 'first-wins' | 'consensus';
+
+export interface DecodedBarcode {
+  value: string;
+  format: string;               // Normalized ZXing-style name, e.g. EAN_13
+  engine: EngineId;
+  points?: [number, number][];  // Outline in frame pixel coordinates, when the engine reports one
+  quality?: number;             // Engine-reported read quality 0-1, when available
+  agreement?: number;           // Engines that returned this value for the frame (consensus mode)
+}
+
+export interface DecoderEngine {
+  readonly id: EngineId;
+  readonly label: string;
+  isSupported(): Promise<boolean>;
+  // Continuously decode a playing video until stop() is called
+  start(video: HTMLVideoElement, onDetect: (results: DecodedBarcode[]) => void): Promise<void>;
+  stop(): void;
+  // Decode a single captured frame; resolves to [] when nothing is found
+  decodeFrame(frame: HTMLCanvasElement): Promise<DecodedBarcode[]>;
+}
+
+// Which symbologies to look for and which decoded values to accept
+export interface SymbologyConfig {
+  formats: string[];        // Allowed ZXing-style format names; empty = all
+  tryHarder: boolean;       // ZXing TRY_HARDER: slower, better on damaged codes
+  assumeGs1: boolean;       // ZXing ASSUME_GS1: keep FNC1 so GS1 AIs can be parsed
+  minLength: number;        // Reject shorter values (0 = no limit)
+  pattern: string;          // Regex the value must match; empty = any
+}
+
+// Ask the vision model to read the code when no engine has decoded one for a while
+export interface AiFallbackConfig {
+  enabled: boolean;
+  timeoutSeconds: number;   // Seconds without a decode before the AI is asked
+  throttleSeconds: number;  // Minimum seconds between AI attempts
+}
+
+export interface DecoderConfig {
+  engines: EngineId[];      // Enabled engines, highest priority first
+  strategy: DecodeStrategy;
+  consensusMin: number;     // Engines that must agree in consensus mode
+  symbology: SymbologyConfig;
+  aiFallback: AiFallbackConfig;
+  rescanGapSeconds: number; // How long a code must be out of view before it reads again
+}
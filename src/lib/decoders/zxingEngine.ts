@@ -0,0 +1,137 @@
+import { BrowserMultiFormatReader } from '@zxing/browser';
+import type { IScannerControls } from '@zxing/browser';
+import { BarcodeFormat, DecodeHintType } from '@zxing/library';
+import type { Result } from '@zxing/library';
+import { DEFAULT_SYMBOLOGY, enabledFormats } from './symbology';
+import type { DecodedBarcode, DecoderEngine, SymbologyConfig } from './types';
+
+const toDecoded = (result: Result): DecodedBarcode => ({
+  value: result.getText(),
+  format: BarcodeFormat[result.getBarcodeFormat()],
+  engine: 'zxing',
+  points: result.getResultPoints().map(p => [p.getX(), p.getY()] as [number, number]),
+});
+
+const createReader = (symbology: SymbologyConfig) => {
+  const hints = new Map();
+  // Fewer formats = fewer readers per frame and no false hits from unwanted symbologies
+  if (symbology.formats.length > 0) {
+    hints.set(DecodeHintType.POSSIBLE_FORMATS, enabledFormats(symbology).map(format => format.zxing));
+  }
+  // SPEED-OPTIMIZED: TRY_HARDER off by default - it makes decoding 3-5x slower
+  if (symbology.tryHarder) hints.set(DecodeHintType.TRY_HARDER, true);
+  // Keep FNC1 as "]C1"/GS markers so GS1-128 Application Identifiers can be parsed
+  hints.set(DecodeHintType.ASSUME_GS1, symbology.assumeGs1);
+  return new BrowserMultiFormatReader(hints);
+};
+
+export const createZXingEngine = (symbology: SymbologyConfig = DEFAULT_SYMBOLOGY): DecoderEngine => {
+  const reader = createReader(symbology);
+  let controls: IScannerControls | null = null;
+
+  return {
+    id: 'zxing',
+    label: 'ZXing',
+    isSupported: async () => true,
+
+    async start(video, onDetect) {
+      controls = await reader.decodeFromVideoElement(video, result => {
+        if (result) onDetect([toDecoded(result)]);
+      });
+    },
+
+    stop() {
+      controls?.stop();
+      controls = null;
+    },
+
+    async decodeFrame(frame) {
+      try {
+        return [toDecoded(reader.decodeFromCanvas(frame))];
+      } catch {
+        return []; // NotFoundException
+      }
+    },
+  };
+};
+
+// Port of ZXing's GenericMultipleBarcodeReader, which the JS library lacks: the
+// reader finds one code at a time, so after each hit the areas left of, above,
+// right of and below it are searched again
+const MULTI_MAX_DEPTH = 4;
+const MULTI_MIN_REGION = 100; // Regions narrower than this can't hold another code
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 1D readers report two points on the scan line; give them a box to tap
+const outline = (points: [number, number][]): [number, number][] => {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  if (points.length >= 3 && maxY - minY > 10) return points;
+  const pad = Math.max(10, (maxX - minX) * 0.15);
+  return [[minX, minY - pad], [maxX, minY - pad], [maxX, maxY + pad], [minX, maxY + pad]];
+};
+
+export const createZXingMultiEngine = (symbology: SymbologyConfig = DEFAULT_SYMBOLOGY): DecoderEngine => {
+  const reader = createReader(symbology);
+  const scratch = document.createElement('canvas');
+
+  const decodeRegion = (frame: HTMLCanvasElement, region: Region): DecodedBarcode | null => {
+    scratch.width = region.width;
+    scratch.height = region.height;
+    scratch.getContext('2d', { willReadFrequently: true })!
+      .drawImage(frame, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+    try {
+      const decoded = toDecoded(reader.decodeFromCanvas(scratch));
+      return { ...decoded, points: decoded.points?.map(([x, y]) => [x + region.x, y + region.y]) };
+    } catch {
+      return null; // NotFoundException
+    }
+  };
+
+  const search = (frame: HTMLCanvasElement, region: Region, depth: number, found: Map<string, DecodedBarcode>) => {
+    if (depth > MULTI_MAX_DEPTH) return;
+    const decoded = decodeRegion(frame, region);
+    if (!decoded?.points?.length) return;
+    if (!found.has(decoded.value)) found.set(decoded.value, { ...decoded, points: outline(decoded.points) });
+
+    const xs = decoded.points.map(([x]) => x);
+    const ys = decoded.points.map(([, y]) => y);
+    const left = Math.floor(Math.min(...xs));
+    const top = Math.floor(Math.min(...ys));
+    const right = Math.ceil(Math.max(...xs));
+    const bottom = Math.ceil(Math.max(...ys));
+    const { x, y, width, height } = region;
+
+    if (left - x > MULTI_MIN_REGION) search(frame, { x, y, width: left - x, height }, depth + 1, found);
+    if (top - y > MULTI_MIN_REGION) search(frame, { x, y, width, height: top - y }, depth + 1, found);
+    if (x + width - right > MULTI_MIN_REGION) {
+      search(frame, { x: right, y, width: x + width - right, height }, depth + 1, found);
+    }
+    if (y + height - bottom > MULTI_MIN_REGION) {
+      search(frame, { x, y: bottom, width, height: y + height - bottom }, depth + 1, found);
+    }
+  };
+
+  return {
+    id: 'zxing',
+    label: 'ZXing',
+    isSupported: async () => true,
+
+    // Only used on single frames in multi mode
+    async start() {},
+    stop() {},
+
+    async decodeFrame(frame) {
+      const found = new Map<string, DecodedBarcode>();
+      search(frame, { x: 0, y: 0, width: frame.width, height: frame.height }, 0, found);
+      return [...found.values()];
+    },
+  };
+};
@@ -0,0 +1,136 @@
+import { RetryableError, requestVision } from './aiOcr';
+import { optionalString, parseCurrency, parseDate, parseJSONReply, parsePrice } from './productExtraction';
+
+// Receipts, delivery notes and invoices: header fields plus a line-item table,
+// validated the same way as product fields before reaching the UI or exports
+
+export type DocumentType = 'receipt' | 'delivery-note' | 'invoice' | 'other';
+
+export interface DocumentLineItem {
+  description: string;
+  sku: string | null;
+  quantity: number | null;
+  unitPrice: number | null;
+  lineTotal: number | null;
+}
+
+export interface DocumentInfo {
+  documentType: DocumentType;
+  vendor: string | null;
+  documentNumber: string | null;
+  date: string | null;       // YYYY-MM-DD
+  currency: string | null;   // ISO 4217
+  subtotal: number | null;
+  tax: number | null;
+  total: number | null;
+  lineItems: DocumentLineItem[];
+}
+
+type DocumentHeaderField = Exclude<keyof DocumentInfo, 'lineItems'>;
+
+export const DOCUMENT_FIELD_LABELS: Record<DocumentHeaderField, string> = {
+  documentType: 'Type',
+  vendor: 'Vendor',
+  documentNumber: 'Document No.',
+  date: 'Date',
+  currency: 'Currency',
+  subtotal: 'Subtotal',
+  tax: 'Tax',
+  total: 'Total',
+};
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  receipt: 'Receipt',
+  'delivery-note': 'Delivery note',
+  invoice: 'Invoice',
+  other: 'Document',
+};
+
+const DOCUMENT_TYPES = Object.keys(DOCUMENT_TYPE_LABELS) as DocumentType[];
+
+// Quantities may be printed as "2", "2,5" or "2 pcs"
+const parseQuantity = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null;
+  const quantity = typeof value === 'string' ? Number(value.replace(',', '.').replace(/[^\d.-]/g, '')) : value;
+  return typeof quantity === 'number' && Number.isFinite(quantity) ? quantity : null;
+};
+
+const parseLineItem = (raw: unknown): DocumentLineItem | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const source = raw as Record<string, unknown>;
+  const description = optionalString(source.description);
+  if (!description) return null;
+  return {
+    description,
+    sku: optionalString(source.sku) ?? null,
+    quantity: parseQuantity(source.quantity),
+    unitPrice: parsePrice(source.unitPrice) ?? null,
+    lineTotal: parsePrice(source.lineTotal) ?? null,
+  };
+};
+
+export const validateDocumentInfo = (raw: unknown): DocumentInfo | null => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null;
+  const source = raw as Record<string, unknown>;
+
+  const lineItems = Array.isArray(source.lineItems)
+    ? source.lineItems.map(parseLineItem).filter((item): item is DocumentLineItem => item !== null)
+    : [];
+
+  // Invalid values become null rather than failing the whole document
+  const document: DocumentInfo = {
+    documentType: DOCUMENT_TYPES.includes(source.documentType as DocumentType)
+      ? source.documentType as DocumentType
+      : 'other',
+    vendor: optionalString(source.vendor) ?? null,
+    documentNumber: optionalString(source.documentNumber) ?? null,
+    date: parseDate(source.date) ?? null,
+    currency: parseCurrency(source.currency) ?? null,
+    subtotal: parsePrice(source.subtotal) ?? null,
+    tax: parsePrice(source.tax) ?? null,
+    total: parsePrice(source.total) ?? null,
+    lineItems,
+  };
+
+  const empty = lineItems.length === 0
+    && [document.vendor, document.documentNumber, document.date, document.total].every(value => value === null);
+  return empty ? null : document;
+};
+
+// Line totals that don't add up to the printed subtotal/total usually mean a missed or misread line
+export const lineItemsMismatch = (document: DocumentInfo): number | null => {
+  const expected = document.subtotal ?? document.total;
+  const totals = document.lineItems.map(item =>
+    item.lineTotal ?? (item.quantity !== null && item.unitPrice !== null ? item.quantity * item.unitPrice : null)
+  );
+  if (expected === null || totals.length === 0 || totals.some(total => total === null)) return null;
+  const difference = totals.reduce<number>((sum, total) => sum + total!, 0) - expected;
+  return Math.abs(difference) >= 0.01 ? difference : null;
+};
+
+// One-line summary used as the scan's text
+export const documentSummary = (document: DocumentInfo): string =>
+  [
+    DOCUMENT_TYPE_LABELS[document.documentType],
+    document.documentNumber,
+    document.vendor,
+    document.date,
+    `${document.lineItems.length} line(s)`,
+  ].filter(Boolean).join(' · ');
+
+export const formatAmount = (value: number | null, currency: string | null): string =>
+  value === null ? '' : currency ? `${value.toFixed(2)} ${currency}` : value.toFixed(2);
+
+export const extractDocumentWithAI = async (base64Image: string): Promise<DocumentInfo | null> => {
+  try {
+    // Long delivery notes need room for every line
+    const reply = await requestVision('document', base64Image, { maxTokens: 3000, temperature: 0 });
+    const document = validateDocumentInfo(parseJSONReply(reply));
+    if (!document) console.warn('Document extraction returned no usable JSON:', reply);
+    return document;
+  } catch (err) {
+    if (err instanceof RetryableError) throw err;
+    console.error('Document extraction error:', err);
+    return null;
+  }
+};
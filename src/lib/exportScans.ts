@@ -0,0 +1,201 @@
+import type { ScanResult } from '../components/BarcodeScanner';
+import { formatProductValue } from './productExtraction';
+import type { ProductInfo } from './productExtraction';
+import type { CatalogProduct } from './catalog';
+import { DOCUMENT_TYPE_LABELS } from './documentExtraction';
+import type { DocumentInfo } from './documentExtraction';
+
+// Bulk export of session results or persisted history, downloaded straight from the browser
+
+export interface ExportableScan extends ScanResult {
+  timestamp: number | Date;
+}
+
+export type ExportColumn =
+  | 'value' | 'format' | 'text' | 'timestamp' | 'source' | 'mode' | 'camera' | 'file' | 'confidence'
+  | ProductColumn | CatalogColumn | DocumentColumn;
+
+type ProductColumn = `product.${keyof ProductInfo}`;
+type CatalogColumn = `catalog.${keyof Pick<CatalogProduct, 'name' | 'brand' | 'price' | 'stock' | 'sku'>}`;
+type DocumentField = keyof Pick<DocumentInfo, 'documentType' | 'vendor' | 'documentNumber' | 'date' | 'total'>;
+type DocumentColumn = `document.${DocumentField}`;
+export type ExportFormat = 'csv' | 'jsonl' | 'spreadsheet' | 'line-items';
+
+export const EXPORT_COLUMNS: { key: ExportColumn; label: string }[] = [
+  { key: 'value', label: 'Barcode Value' },
+  { key: 'format', label: 'Format' },
+  { key: 'text', label: 'Text' },
+  { key: 'timestamp', label: 'Timestamp' },
+  { key: 'source', label: 'Source' },
+  { key: 'mode', label: 'Mode' },
+  { key: 'camera', label: 'Camera' },
+  { key: 'file', label: 'File' },
+  { key: 'confidence', label: 'Confidence' },
+  { key: 'product.productName', label: 'Product' },
+  { key: 'product.brand', label: 'Brand' },
+  { key: 'product.price', label: 'Price' },
+  { key: 'product.currency', label: 'Currency' },
+  { key: 'product.netContent', label: 'Weight/Volume' },
+  { key: 'product.expiryDate', label: 'Expiry' },
+  { key: 'product.lotNumber', label: 'Lot' },
+  { key: 'product.ingredients', label: 'Ingredients' },
+  { key: 'catalog.name', label: 'Catalog Name' },
+  { key: 'catalog.brand', label: 'Catalog Brand' },
+  { key: 'catalog.price', label: 'Catalog Price' },
+  { key: 'catalog.stock', label: 'Stock' },
+  { key: 'catalog.sku', label: 'SKU' },
+  { key: 'document.documentType', label: 'Document Type' },
+  { key: 'document.vendor', label: 'Vendor' },
+  { key: 'document.documentNumber', label: 'Document No.' },
+  { key: 'document.date', label: 'Document Date' },
+  { key: 'document.total', label: 'Document Total' },
+];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ['value', 'format', 'text', 'timestamp', 'source'];
+
+const toISO = (timestamp: number | Date) => new Date(timestamp).toISOString();
+
+const columnValue = (scan: ExportableScan, column: ExportColumn): string => {
+  switch (column) {
+    case 'value': return scan.barcode?.value ?? '';
+    case 'format': return scan.barcode?.format ?? '';
+    case 'text': return scan.text ?? '';
+    case 'timestamp': return toISO(scan.timestamp);
+    case 'source': return scan.source ?? '';
+    case 'mode': return scan.mode ?? '';
+    case 'camera': return scan.camera ?? '';
+    case 'file': return scan.file ? `${scan.file.name}${scan.file.page ? `#${scan.file.page}` : ''}` : '';
+    case 'confidence': return scan.confidence !== undefined ? scan.confidence.toFixed(2) : '';
+  }
+
+  if (column.startsWith('catalog.')) {
+    const value = scan.catalog?.[column.slice('catalog.'.length) as keyof CatalogProduct];
+    return value === undefined ? '' : String(value);
+  }
+
+  if (column.startsWith('document.')) {
+    if (!scan.document) return '';
+    const field = column.slice('document.'.length) as DocumentField;
+    if (field === 'documentType') return DOCUMENT_TYPE_LABELS[scan.document.documentType];
+    return scan.document[field] === null ? '' : String(scan.document[field]);
+  }
+
+  const field = column.slice('product.'.length) as keyof ProductInfo;
+  if (!scan.product || scan.product[field] === null) return '';
+  // Raw number for price so spreadsheets can sum it; currency has its own column
+  return field === 'price' ? String(scan.product.price) : formatProductValue(scan.product, field);
+};
+
+// Scanned text is untrusted: a cell starting with = + - @ (or a tab / CR a
+// spreadsheet skips) would run as a formula, so it is prefixed with ' to stay text.
+// Plain numbers such as -4.50 can't be formulas and are left summable.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+export const escapeCSV = (value: string, delimiter: string): string => {
+  const text = FORMULA_START.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+  return /["\r\n]/.test(text) || text.includes(delimiter)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+export const toCSV = (scans: ExportableScan[], columns: ExportColumn[] = DEFAULT_EXPORT_COLUMNS): string => {
+  const header = columns.map(column => EXPORT_COLUMNS.find(c => c.key === column)!.label);
+  const rows = scans.map(scan => columns.map(column => columnValue(scan, column)));
+
+  return [header, ...rows]
+    .map(row => row.map(cell => escapeCSV(cell, ',')).join(','))
+    .join('\n');
+};
+
+// Spreadsheet-friendly CSV: BOM so Excel detects UTF-8, CRLF line endings,
+// and long digit strings wrapped as formulas so GTINs aren't shown in
+// scientific notation or stripped of leading zeros
+export const toSpreadsheetCSV = (scans: ExportableScan[], columns: ExportColumn[] = DEFAULT_EXPORT_COLUMNS): string => {
+  const header = columns.map(column => escapeCSV(EXPORT_COLUMNS.find(c => c.key === column)!.label, ','));
+  // Cells are escaped here, so only the formulas built below reach the file unescaped
+  const rows = scans.map(scan => columns.map(column => {
+    const value = columnValue(scan, column);
+    if (column === 'timestamp') {
+      return escapeCSV(new Date(scan.timestamp).toLocaleString(), ',');
+    }
+    return /^\d{8,}$/.test(value) ? `="${value}"` : escapeCSV(value, ',');
+  }));
+
+  return '\uFEFF' + [header, ...rows]
+    .map(row => row.join(','))
+    .join('\r\n');
+};
+
+const LINE_ITEM_HEADER = [
+  'Document No.', 'Vendor', 'Document Date', 'Line', 'Description', 'SKU', 'Quantity', 'Unit Price', 'Line Total', 'Currency',
+];
+
+// One row per document line, with the document's header repeated so rows can be filtered on their own
+export const toLineItemsCSV = (scans: ExportableScan[]): string => {
+  const text = (value: string | number | null) => (value === null ? '' : String(value));
+  const rows = scans.flatMap(({ document }) =>
+    (document?.lineItems ?? []).map((item, index) => [
+      text(document!.documentNumber),
+      text(document!.vendor),
+      text(document!.date),
+      String(index + 1),
+      item.description,
+      text(item.sku),
+      text(item.quantity),
+      text(item.unitPrice),
+      text(item.lineTotal),
+      text(document!.currency),
+    ])
+  );
+
+  return [LINE_ITEM_HEADER, ...rows]
+    .map(row => row.map(cell => escapeCSV(cell, ',')).join(','))
+    .join('\n');
+};
+
+export const toJSONLines = (scans: ExportableScan[]): string =>
+  scans
+    .map(scan => JSON.stringify({ ...scan, timestamp: toISO(scan.timestamp) }))
+    .join('\n');
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns; revoking right
+  // away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+};
+
+export const exportScans = (
+  scans: ExportableScan[],
+  format: ExportFormat,
+  columns: ExportColumn[] = DEFAULT_EXPORT_COLUMNS,
+  baseName = 'scans'
+) => {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  switch (format) {
+    case 'csv':
+      downloadFile(toCSV(scans, columns), `${baseName}-${stamp}.csv`, 'text/csv;charset=utf-8');
+      break;
+    case 'spreadsheet':
+      downloadFile(toSpreadsheetCSV(scans, columns), `${baseName}-${stamp}-excel.csv`, 'text/csv;charset=utf-8');
+      break;
+    case 'line-items':
+      downloadFile(toLineItemsCSV(scans), `${baseName}-${stamp}-line-items.csv`, 'text/csv;charset=utf-8');
+      break;
+    case 'jsonl':
+      downloadFile(toJSONLines(scans), `${baseName}-${stamp}.jsonl`, 'application/x-ndjson');
+      break;
+  }
+};
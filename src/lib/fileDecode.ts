@@ -0,0 +1,156 @@
+import type { ScanResult } from '../components/BarcodeScanner';
+import { DEFAULT_OCR_CONFIG, OCR_BACKEND_LABELS, extractText } from './ocr';
+import type { OcrConfig } from './ocr';
+import { NetworkError, RetryableError } from './aiOcr';
+import { enqueueExtraction } from './offlineQueue';
+import { assessBarcode } from './confidence';
+import { DEFAULT_DECODER_CONFIG, ENGINE_LABELS, decodeWithStrategy, resolveEngines } from './decoders';
+import type { DecoderConfig } from './decoders';
+
+// Decode barcodes and text from uploaded images and PDFs instead of the live camera
+
+export const ACCEPTED_FILE_TYPES = 'image/jpeg,image/png,image/webp,application/pdf';
+
+const PDF_RENDER_SCALE = 2; // Render PDF pages at 2x so small barcodes survive rasterization
+export const MAX_PDF_PAGES = 50; // Longer files are cut off rather than stalling the tab
+
+export interface FilePage {
+  canvas: HTMLCanvasElement;
+  page?: number;       // 1-based page number for PDFs
+  pageCount?: number;  // Pages in the whole PDF, including any past MAX_PDF_PAGES
+}
+
+export const isSupportedFile = (file: File) =>
+  ACCEPTED_FILE_TYPES.split(',').includes(file.type);
+
+async function* loadImage(file: File): AsyncGenerator<FilePage> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  yield { canvas };
+}
+
+// Pages are rendered one at a time and released once the caller moves on,
+// so only a single 2x page bitmap is held however long the file is
+async function* loadPDF(file: File): AsyncGenerator<FilePage> {
+  // Loaded on demand so the PDF renderer isn't in the main bundle
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+
+  try {
+    const lastPage = Math.min(pdf.numPages, MAX_PDF_PAGES);
+    for (let pageNumber = 1; pageNumber <= lastPage; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvas, viewport }).promise;
+      yield { canvas, page: pageNumber, pageCount: pdf.numPages };
+
+      page.cleanup();
+      // Zero-size canvases give their backing memory back right away
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export const loadFilePages = (file: File): AsyncGenerator<FilePage> =>
+  file.type === 'application/pdf' ? loadPDF(file) : loadImage(file);
+
+const canvasToBase64 = (canvas: HTMLCanvasElement) =>
+  canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+
+export interface ScanFileOptions {
+  decoderConfig?: DecoderConfig;
+  ocrConfig?: OcrConfig;
+  onProgress?: (message: string) => void;
+}
+
+export interface ScanFileSummary {
+  found: number;       // Results emitted
+  notices: string[];   // Pages that couldn't be read fully, and cut-off PDFs
+}
+
+// Run one file through the same ZXing decode and OCR path as the camera,
+// emitting a result for every barcode found and for pages with only text
+export const scanFile = async (
+  file: File,
+  onResult: (result: ScanResult) => void,
+  {
+    decoderConfig = DEFAULT_DECODER_CONFIG,
+    ocrConfig = DEFAULT_OCR_CONFIG,
+    onProgress,
+  }: ScanFileOptions = {}
+): Promise<ScanFileSummary> => {
+  const engines = await resolveEngines(decoderConfig.engines, decoderConfig.symbology);
+  let found = 0;
+  const notices: string[] = [];
+
+  for await (const { canvas, page, pageCount } of loadFilePages(file)) {
+    const where = page ? `${file.name} p.${page}` : file.name;
+    const cutOff = pageCount && pageCount > MAX_PDF_PAGES
+      ? ` (only the first ${MAX_PDF_PAGES} of ${pageCount} pages are read)`
+      : '';
+    onProgress?.(`🔍 Decoding ${where}${cutOff}...`);
+    if (cutOff && page === 1) notices.push(`${file.name}${cutOff}`);
+
+    // Values failing their check digit are misreads - keep only the OCR text
+    const accepted = (await decodeWithStrategy(engines, canvas, decoderConfig.strategy, decoderConfig.consensusMin))
+      .map(decoded => ({ decoded, assessment: assessBarcode(decoded) }))
+      .filter(({ assessment }) => assessment.validation.valid);
+
+    const ocrLabel = OCR_BACKEND_LABELS[ocrConfig.backend];
+    onProgress?.(`🔍 ${ocrLabel} reading ${where}...`);
+    const image = canvasToBase64(canvas);
+    let text = '';
+    let queueId: number | undefined;
+    try {
+      text = await extractText(image, ocrConfig, (status, progress) => {
+        onProgress?.(`🔍 ${ocrLabel} ${status} ${where} ${Math.round(progress * 100)}%`);
+      });
+    } catch (err) {
+      if (err instanceof RetryableError) {
+        // Offline or refused: queue the page so the AI reads it once it can
+        queueId = await enqueueExtraction(image, 'text');
+        onProgress?.(`📥 ${err instanceof NetworkError ? 'Offline' : 'AI unavailable'} - queued ${where}`);
+      } else {
+        // Keep the page's barcodes and go on with the next page
+        console.error(`Text extraction failed for ${where}:`, err);
+        notices.push(`text not read on ${where}`);
+      }
+    }
+
+    if (accepted.length === 0 && !text && queueId === undefined) continue;
+
+    // One result per barcode; the page's text and any queued read go on the first
+    const entries = accepted.length > 0 ? accepted : [undefined];
+    entries.forEach((entry, i) => {
+      found++;
+      onResult({
+        barcode: entry && { value: entry.decoded.value, format: entry.decoded.format },
+        parsed: entry?.assessment.parsed,
+        validation: entry?.assessment.validation,
+        confidence: entry?.assessment.confidence,
+        text: i === 0 ? text : '',
+        mode: 'barcode-ocr',
+        source: entry ? ENGINE_LABELS[entry.decoded.engine] : ocrLabel,
+        file: { name: file.name, page },
+        ...(i === 0 && queueId !== undefined && { status: 'pending', queueId }),
+      });
+    });
+  }
+
+  return { found, notices };
+};
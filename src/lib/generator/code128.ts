@@ -0,0 +1,116 @@
+import { isValidGs1Key, parseGs1, toElementString } from '../payloads';
+import type { BarcodeSymbol } from './types';
+
+// Code 128 encoder using code sets B (printable ASCII) and C (digit pairs).
+// GS1-128 is the same symbology with a leading FNC1 and FNC1 separators.
+
+// Bar/space widths for symbol values 0-106 (106 = stop, which has a final bar)
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const CODE_C = 99;
+const CODE_B = 100;
+const FNC1_VALUE = 102;
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+const FNC1 = Symbol('FNC1');
+type Token = string | typeof FNC1;
+
+const isDigit = (token: Token | undefined) => typeof token === 'string' && token >= '0' && token <= '9';
+
+const digitRun = (tokens: Token[], from: number) => {
+  let length = 0;
+  while (isDigit(tokens[from + length])) length++;
+  return length;
+};
+
+// Runs of 4+ digits go in set C (half the width); everything else in set B
+const toValues = (tokens: Token[]): number[] => {
+  const values: number[] = [];
+  let set: 'B' | 'C' | null = null;
+  const switchTo = (next: 'B' | 'C') => {
+    if (set === next) return;
+    if (set === null) values.push(next === 'B' ? START_B : START_C);
+    else values.push(next === 'B' ? CODE_B : CODE_C);
+    set = next;
+  };
+
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (token === FNC1) {
+      if (set === null) switchTo(digitRun(tokens, i + 1) >= 2 ? 'C' : 'B');
+      values.push(FNC1_VALUE);
+      i++;
+      continue;
+    }
+
+    const run = digitRun(tokens, i);
+    const useC = run >= 4 || (set === 'C' && run >= 2) || (set === null && run >= 2 && run === tokens.length - i);
+    // An odd run starts with one digit in set B, so the rest pairs up
+    if (useC && (run % 2 === 0 || set === 'C')) {
+      switchTo('C');
+      for (let pair = 0; pair < Math.floor(run / 2); pair++, i += 2) {
+        values.push(Number(`${tokens[i] as string}${tokens[i + 1] as string}`));
+      }
+      continue;
+    }
+
+    const code = token.charCodeAt(0);
+    if (code < 32 || code > 126) {
+      throw new Error('Code 128 can only encode printable ASCII characters');
+    }
+    switchTo('B');
+    values.push(code - 32);
+    i++;
+  }
+
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+  return [...values, checksum, STOP];
+};
+
+const toModules = (values: number[]): boolean[] =>
+  values.flatMap(value =>
+    [...PATTERNS[value]].flatMap((width, index) => Array<boolean>(Number(width)).fill(index % 2 === 0))
+  );
+
+const linear = (modules: boolean[], text: string): BarcodeSymbol => ({
+  kind: 'linear',
+  modules,
+  quietZone: 10,
+  text,
+  textLayout: 'centered',
+});
+
+export const encodeCode128 = (value: string): BarcodeSymbol => {
+  if (!value) throw new Error('Enter a value to encode');
+  return linear(toModules(toValues([...value])), value);
+};
+
+// Accepts "(01)09501101530003(10)AB-123" or a raw element string
+export const encodeGs1128 = (value: string): BarcodeSymbol => {
+  const fields = parseGs1(value);
+  if (!fields) throw new Error('Enter GS1 data as (AI)value pairs, e.g. (01)09501101530003(10)LOT1');
+
+  const key = fields.find(field => field.ai === '00' || field.ai === '01' || field.ai === '02');
+  if (key && !isValidGs1Key(key.value)) {
+    throw new Error(`Check digit of (${key.ai}) ${key.value} is wrong`);
+  }
+
+  const tokens: Token[] = [FNC1, ...[...toElementString(fields)].map(char => (char === '\u001d' ? FNC1 : char))];
+  const text = fields.map(field => `(${field.ai})${field.value}`).join('');
+  return linear(toModules(toValues(tokens)), text);
+};
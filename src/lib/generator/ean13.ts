@@ -0,0 +1,50 @@
+import { gs1CheckDigit } from '../payloads';
+import type { BarcodeSymbol } from './types';
+
+// EAN-13: 95 modules = start guard, 6 left digits, centre guard, 6 right
+// digits, end guard. The first digit is not drawn; it picks the parity
+// pattern of the left half.
+
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const G_CODES = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const R_CODES = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const EDGE_GUARD = '101';
+const CENTRE_GUARD = '01010';
+
+const bits = (pattern: string) => [...pattern].map(bit => bit === '1');
+
+// 12 digits get their check digit added; 13 digits must already carry a valid one
+export const encodeEan13 = (value: string): BarcodeSymbol => {
+  const digits = value.replace(/\s+/g, '');
+  if (!/^\d{12,13}$/.test(digits)) throw new Error('EAN-13 needs 12 or 13 digits');
+
+  const check = gs1CheckDigit(digits.slice(0, 12));
+  if (digits.length === 13 && Number(digits[12]) !== check) {
+    throw new Error(`Check digit should be ${check}`);
+  }
+  const full = digits.slice(0, 12) + check;
+
+  const parity = PARITY[Number(full[0])];
+  const left = [...full.slice(1, 7)].map((digit, i) => (parity[i] === 'L' ? L_CODES : G_CODES)[Number(digit)]);
+  const right = [...full.slice(7)].map(digit => R_CODES[Number(digit)]);
+
+  const sections: { pattern: string; guard: boolean }[] = [
+    { pattern: EDGE_GUARD, guard: true },
+    { pattern: left.join(''), guard: false },
+    { pattern: CENTRE_GUARD, guard: true },
+    { pattern: right.join(''), guard: false },
+    { pattern: EDGE_GUARD, guard: true },
+  ];
+
+  return {
+    kind: 'linear',
+    modules: sections.flatMap(section => bits(section.pattern)),
+    guards: sections.flatMap(section => Array<boolean>(section.pattern.length).fill(section.guard)),
+    quietZone: 11,  // Wide enough on the left for the first digit
+    text: full,
+    textLayout: 'ean13',
+  };
+};
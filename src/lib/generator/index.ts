@@ -0,0 +1,54 @@
+import type { ParsedPayload } from '../payloads';
+import { encodeCode128, encodeGs1128 } from './code128';
+import { encodeEan13 } from './ean13';
+import { encodeDataMatrix, encodeQr } from './matrix';
+import type { BarcodeSymbol, GeneratorFormat } from './types';
+
+export type { BarcodeSymbol, GeneratorFormat, RenderOptions } from './types';
+export { DEFAULT_RENDER_OPTIONS, renderPNG, renderSVG, svgDataUrl } from './render';
+export {
+  LABEL_TEMPLATES,
+  buildLabelSheet,
+  findLabelTemplate,
+  loadLabelTemplateId,
+  printLabelSheet,
+  saveLabelTemplateId,
+} from './labels';
+export type { LabelItem, LabelTemplate } from './labels';
+
+export const GENERATOR_FORMATS: { id: GeneratorFormat; label: string }[] = [
+  { id: 'CODE_128', label: 'Code 128' },
+  { id: 'GS1_128', label: 'GS1-128' },
+  { id: 'EAN_13', label: 'EAN-13' },
+  { id: 'QR_CODE', label: 'QR Code' },
+  { id: 'DATA_MATRIX', label: 'Data Matrix' },
+];
+
+// Throws with a user-facing message when the value can't be encoded
+export const encodeBarcode = (value: string, format: GeneratorFormat): BarcodeSymbol => {
+  switch (format) {
+    case 'CODE_128': return encodeCode128(value);
+    case 'GS1_128': return encodeGs1128(value);
+    case 'EAN_13': return encodeEan13(value);
+    case 'QR_CODE': return encodeQr(value);
+    case 'DATA_MATRIX': return encodeDataMatrix(value);
+  }
+};
+
+// Best format to reprint a scanned code in; symbologies we can't generate
+// (UPC-E, ITF, Codabar...) fall back to Code 128 with the same value
+export const generatorSourceForScan = (
+  barcode: { value: string; format: string },
+  parsed?: ParsedPayload
+): { value: string; format: GeneratorFormat } => {
+  if (parsed?.kind === 'gs1' && barcode.format !== 'QR_CODE' && barcode.format !== 'DATA_MATRIX') {
+    return { value: parsed.fields.map(field => `(${field.ai})${field.value}`).join(''), format: 'GS1_128' };
+  }
+  switch (barcode.format) {
+    case 'EAN_13': return { value: barcode.value, format: 'EAN_13' };
+    case 'UPC_A': return { value: `0${barcode.value}`, format: 'EAN_13' };
+    case 'QR_CODE': return { value: barcode.value, format: 'QR_CODE' };
+    case 'DATA_MATRIX': return { value: barcode.value, format: 'DATA_MATRIX' };
+    default: return { value: barcode.value, format: 'CODE_128' };
+  }
+};
@@ -0,0 +1,137 @@
+import { svgDataUrl } from './render';
+
+// Printable label sheets for Avery-style die-cut stock. Positions are in
+// millimetres from the sheet's top-left corner and printed with zero page
+// margins, so "Actual size" / 100% scale must be chosen in the print dialog.
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  pitchX: number;  // Distance between the left edges of neighbouring labels
+  pitchY: number;
+}
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: 'avery-5160', name: 'Avery 5160/8160 - 30 per sheet (Letter)',
+    pageWidth: 215.9, pageHeight: 279.4, columns: 3, rows: 10,
+    labelWidth: 66.675, labelHeight: 25.4, marginTop: 12.7, marginLeft: 4.7625, pitchX: 69.85, pitchY: 25.4,
+  },
+  {
+    id: 'avery-5163', name: 'Avery 5163/8163 - 10 per sheet (Letter)',
+    pageWidth: 215.9, pageHeight: 279.4, columns: 2, rows: 5,
+    labelWidth: 101.6, labelHeight: 50.8, marginTop: 12.7, marginLeft: 3.96875, pitchX: 106.3625, pitchY: 50.8,
+  },
+  {
+    id: 'avery-5167', name: 'Avery 5167 - 80 per sheet (Letter)',
+    pageWidth: 215.9, pageHeight: 279.4, columns: 4, rows: 20,
+    labelWidth: 44.45, labelHeight: 12.7, marginTop: 12.7, marginLeft: 7.62, pitchX: 52.07, pitchY: 12.7,
+  },
+  {
+    id: 'avery-l7160', name: 'Avery L7160 - 21 per sheet (A4)',
+    pageWidth: 210, pageHeight: 297, columns: 3, rows: 7,
+    labelWidth: 63.5, labelHeight: 38.1, marginTop: 15.15, marginLeft: 7.21, pitchX: 66.04, pitchY: 38.1,
+  },
+  {
+    id: 'avery-l7163', name: 'Avery L7163 - 14 per sheet (A4)',
+    pageWidth: 210, pageHeight: 297, columns: 2, rows: 7,
+    labelWidth: 99.1, labelHeight: 38.1, marginTop: 15.15, marginLeft: 4.65, pitchX: 101.6, pitchY: 38.1,
+  },
+  {
+    id: 'avery-l7651', name: 'Avery L7651 - 65 per sheet (A4)',
+    pageWidth: 210, pageHeight: 297, columns: 5, rows: 13,
+    labelWidth: 38.1, labelHeight: 21.2, marginTop: 10.7, marginLeft: 4.75, pitchX: 40.6, pitchY: 21.2,
+  },
+];
+
+export interface LabelItem {
+  svg: string;       // Rendered symbol, including its human-readable line
+  caption?: string;  // Optional extra line, e.g. a product name
+}
+
+const TEMPLATE_KEY = 'label-template';
+
+export const loadLabelTemplateId = (): string => {
+  const saved = localStorage.getItem(TEMPLATE_KEY);
+  return LABEL_TEMPLATES.some(t => t.id === saved) ? saved! : LABEL_TEMPLATES[0].id;
+};
+
+export const saveLabelTemplateId = (id: string) => {
+  localStorage.setItem(TEMPLATE_KEY, id);
+};
+
+export const findLabelTemplate = (id: string): LabelTemplate =>
+  LABEL_TEMPLATES.find(t => t.id === id) ?? LABEL_TEMPLATES[0];
+
+const escapeHtml = (text: string) =>
+  text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[char] ?? char);
+
+// skip = labels already used on the first sheet, so partly used sheets can be reused
+export const buildLabelSheet = (items: LabelItem[], template: LabelTemplate, skip = 0): string => {
+  const perPage = template.columns * template.rows;
+  const slots: (LabelItem | null)[] = [...Array<null>(Math.min(skip, perPage - 1)).fill(null), ...items];
+  const pageCount = Math.max(1, Math.ceil(slots.length / perPage));
+
+  const pages = Array.from({ length: pageCount }, (_, page) => {
+    const labels = slots.slice(page * perPage, (page + 1) * perPage).map((item, index) => {
+      if (!item) return '';
+      const left = template.marginLeft + (index % template.columns) * template.pitchX;
+      const top = template.marginTop + Math.floor(index / template.columns) * template.pitchY;
+      return `<div class="label" style="left:${left}mm;top:${top}mm">`
+        + `<img src="${svgDataUrl(item.svg)}" alt="">`
+        + (item.caption ? `<div class="caption">${escapeHtml(item.caption)}</div>` : '')
+        + '</div>';
+    });
+    return `<div class="page">${labels.join('')}</div>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Labels - ${escapeHtml(template.name)}</title>
+<style>
+  @page { size: ${template.pageWidth}mm ${template.pageHeight}mm; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: sans-serif; }
+  .page { position: relative; width: ${template.pageWidth}mm; height: ${template.pageHeight}mm; overflow: hidden; break-after: page; }
+  .page:last-child { break-after: auto; }
+  .label {
+    position: absolute; width: ${template.labelWidth}mm; height: ${template.labelHeight}mm; padding: 1.5mm;
+    display: flex; flex-direction: column; align-items: center; justify-content: center; overflow: hidden;
+  }
+  .label img { flex: 1 1 auto; min-height: 0; max-width: 100%; object-fit: contain; }
+  .caption { font-size: 7pt; line-height: 1.2; max-width: 100%; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+</style>
+</head>
+<body>${pages.join('')}</body>
+</html>`;
+};
+
+// Print through a hidden iframe, so the app page itself is left alone
+export const printLabelSheet = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.onafterprint = () => frame.remove();
+    win.focus();
+    win.print();
+    // Some browsers never fire afterprint for iframes
+    setTimeout(() => frame.remove(), 60_000);
+  };
+  document.body.appendChild(frame);
+};
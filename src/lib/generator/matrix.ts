@@ -0,0 +1,28 @@
+import { BarcodeFormat, DataMatrixWriter, EncodeHintType, QRCodeWriter } from '@zxing/library';
+import type { BitMatrix } from '@zxing/library';
+import type { BarcodeSymbol } from './types';
+
+// 2D symbols come from ZXing's writers; the renderer adds the quiet zone
+
+const toCells = (matrix: BitMatrix): boolean[][] =>
+  Array.from({ length: matrix.getHeight() }, (_, y) =>
+    Array.from({ length: matrix.getWidth() }, (_, x) => matrix.get(x, y))
+  );
+
+export const encodeQr = (value: string): BarcodeSymbol => {
+  if (!value) throw new Error('Enter a value to encode');
+  const hints = new Map<EncodeHintType, unknown>([
+    [EncodeHintType.ERROR_CORRECTION, 'M'],  // Survives ~15% damage on printed labels
+    [EncodeHintType.MARGIN, 0],
+    [EncodeHintType.CHARACTER_SET, 'UTF-8'],
+  ]);
+  const matrix = new QRCodeWriter().encode(value, BarcodeFormat.QR_CODE, 0, 0, hints);
+  return { kind: 'matrix', cells: toCells(matrix), quietZone: 4, text: value };
+};
+
+export const encodeDataMatrix = (value: string): BarcodeSymbol => {
+  if (!value) throw new Error('Enter a value to encode');
+  if (/[^\x20-\x7e]/.test(value)) throw new Error('Data Matrix labels here support printable ASCII only');
+  const matrix = new DataMatrixWriter().encode(value, BarcodeFormat.DATA_MATRIX, 0, 0);
+  return { kind: 'matrix', cells: toCells(matrix), quietZone: 2, text: value };
+};
@@ -0,0 +1,160 @@
+import type { BarcodeSymbol, RenderOptions } from './types';
+
+// Lays a symbol out as rectangles and text lines, then draws that as SVG or
+// onto a canvas for PNG, so both outputs are identical.
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  moduleSize: 2,
+  barHeight: 80,
+  showText: true,
+};
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TextLine {
+  x: number;
+  y: number;   // Baseline
+  text: string;
+  anchor: 'start' | 'middle' | 'end';
+}
+
+interface Drawing {
+  width: number;
+  height: number;
+  rects: Rect[];
+  texts: TextLine[];
+  fontSize: number;
+}
+
+const FONT_FAMILY = '"OCR-B", "Consolas", "Courier New", monospace';
+
+// Merge neighbouring dark modules into one rect per run
+const runs = (row: boolean[]): { start: number; length: number }[] => {
+  const found: { start: number; length: number }[] = [];
+  for (let i = 0; i < row.length; i++) {
+    if (!row[i]) continue;
+    const start = i;
+    while (row[i + 1]) i++;
+    found.push({ start, length: i - start + 1 });
+  }
+  return found;
+};
+
+// Keep long QR payloads (URLs, vCards) to one line under the symbol
+const truncate = (text: string, maxChars: number) =>
+  text.length > maxChars ? `${text.slice(0, Math.max(1, maxChars - 1))}…` : text;
+
+const layoutLinear = (symbol: Extract<BarcodeSymbol, { kind: 'linear' }>, options: RenderOptions): Drawing => {
+  const { moduleSize: m, barHeight, showText } = options;
+  const fontSize = Math.max(10, Math.round(m * 9));
+  const quiet = symbol.quietZone;
+  const width = (symbol.modules.length + quiet * 2) * m;
+  const ean = symbol.textLayout === 'ean13';
+  const guardExtra = ean && showText ? fontSize / 2 : 0;
+
+  const rects: Rect[] = [];
+  for (const { start, length } of runs(symbol.modules)) {
+    const guard = symbol.guards?.[start] ?? false;
+    rects.push({
+      x: (quiet + start) * m,
+      y: 0,
+      width: length * m,
+      height: barHeight + (guard ? guardExtra : 0),
+    });
+  }
+
+  const texts: TextLine[] = [];
+  const baseline = barHeight + fontSize + 2;
+  if (showText && ean) {
+    const digits = symbol.text;
+    texts.push(
+      { x: (quiet - 2) * m, y: baseline, text: digits[0], anchor: 'end' },
+      { x: (quiet + 3 + 21) * m, y: baseline, text: digits.slice(1, 7), anchor: 'middle' },
+      { x: (quiet + 50 + 21) * m, y: baseline, text: digits.slice(7), anchor: 'middle' },
+    );
+  } else if (showText) {
+    texts.push({ x: width / 2, y: baseline, text: truncate(symbol.text, Math.floor(width / (fontSize * 0.6))), anchor: 'middle' });
+  }
+
+  return { width, height: showText ? baseline + 4 : barHeight, rects, texts, fontSize };
+};
+
+const layoutMatrix = (symbol: Extract<BarcodeSymbol, { kind: 'matrix' }>, options: RenderOptions): Drawing => {
+  const { moduleSize: m, showText } = options;
+  const quiet = symbol.quietZone;
+  const size = symbol.cells[0]?.length ?? 0;
+  const width = (size + quiet * 2) * m;
+  const symbolHeight = (symbol.cells.length + quiet * 2) * m;
+  const fontSize = Math.max(10, Math.round(width / 16));
+
+  const rects = symbol.cells.flatMap((row, y) =>
+    runs(row).map(({ start, length }) => ({
+      x: (quiet + start) * m,
+      y: (quiet + y) * m,
+      width: length * m,
+      height: m,
+    }))
+  );
+
+  const texts: TextLine[] = showText
+    ? [{ x: width / 2, y: symbolHeight + fontSize * 0.8, text: truncate(symbol.text, Math.floor(width / (fontSize * 0.6))), anchor: 'middle' }]
+    : [];
+
+  return { width, height: symbolHeight + (showText ? Math.ceil(fontSize * 1.1) : 0), rects, texts, fontSize };
+};
+
+const layout = (symbol: BarcodeSymbol, options: Partial<RenderOptions>): Drawing => {
+  const resolved = { ...DEFAULT_RENDER_OPTIONS, ...options };
+  return symbol.kind === 'linear' ? layoutLinear(symbol, resolved) : layoutMatrix(symbol, resolved);
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[char] ?? char);
+
+export const renderSVG = (symbol: BarcodeSymbol, options: Partial<RenderOptions> = {}): string => {
+  const { width, height, rects, texts, fontSize } = layout(symbol, options);
+  const path = rects.map(r => `M${r.x} ${r.y}h${r.width}v${r.height}h${-r.width}z`).join('');
+  const lines = texts.map(t =>
+    `<text x="${t.x}" y="${t.y}" text-anchor="${t.anchor}">${escapeXml(t.text)}</text>`
+  );
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="#fff"/>`,
+    `<path d="${path}" fill="#000" shape-rendering="crispEdges"/>`,
+    lines.length > 0
+      ? `<g font-family='${FONT_FAMILY}' font-size="${fontSize}" fill="#000">${lines.join('')}</g>`
+      : '',
+    '</svg>',
+  ].join('');
+};
+
+export const svgDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+export const renderPNG = (symbol: BarcodeSymbol, options: Partial<RenderOptions> = {}): Promise<Blob> => {
+  const { width, height, rects, texts, fontSize } = layout(symbol, options);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width);
+  canvas.height = Math.ceil(height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not available'));
+
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#000';
+  for (const r of rects) ctx.fillRect(r.x, r.y, r.width, r.height);
+
+  ctx.font = `${fontSize}px ${FONT_FAMILY}`;
+  for (const t of texts) {
+    ctx.textAlign = t.anchor === 'middle' ? 'center' : t.anchor === 'end' ? 'right' : 'left';
+    ctx.fillText(t.text, t.x, t.y);
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG export failed'))), 'image/png');
+  });
+};
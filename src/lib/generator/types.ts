@@ -0,0 +1,24 @@
+export type GeneratorFormat = 'CODE_128' | 'GS1_128' | 'EAN_13' | 'QR_CODE' | 'DATA_MATRIX';
+
+// An encoded symbol, independent of output format
+export type BarcodeSymbol =
+  | {
+      kind: 'linear';
+      modules: boolean[];   // true = bar, one entry per module width
+      guards?: boolean[];   // EAN guard bars, drawn longer than the data bars
+      quietZone: number;    // Modules of white space either side
+      text: string;         // Human-readable interpretation
+      textLayout: 'centered' | 'ean13';
+    }
+  | {
+      kind: 'matrix';
+      cells: boolean[][];   // [row][column], true = dark
+      quietZone: number;
+      text: string;
+    };
+
+export interface RenderOptions {
+  moduleSize: number;  // Pixels per bar module or matrix cell
+  barHeight: number;   // Pixels; linear symbols only
+  showText: boolean;   // Print the human-readable line under the symbol
+}
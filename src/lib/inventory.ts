@@ -0,0 +1,157 @@
+import { INVENTORY_STORE, withStore } from './db';
+import { downloadFile, escapeCSV } from './exportScans';
+
+// Cycle counting: every scan of a code adds to its quantity within a named session
+
+export interface InventoryLine {
+  sku: string;      // Barcode value
+  format?: string;
+  quantity: number;
+  updatedAt: number;
+}
+
+export interface InventorySession {
+  id?: number;      // Assigned by IndexedDB on first save
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  lines: Record<string, InventoryLine>;
+  expected?: Record<string, number>; // Optional expected quantities by SKU
+}
+
+export type CountStatus = 'ok' | 'over' | 'short' | 'unexpected' | 'counted';
+
+export interface CountRow {
+  sku: string;
+  format?: string;
+  counted: number;
+  expected?: number;
+  difference?: number; // counted - expected
+  status: CountStatus;
+}
+
+const ACTIVE_KEY = 'inventory-active-session';
+
+export const createSession = (name: string): InventorySession => {
+  const now = Date.now();
+  return { name: name.trim() || `Count ${new Date(now).toLocaleString()}`, createdAt: now, updatedAt: now, lines: {} };
+};
+
+export const setQuantity = (session: InventorySession, sku: string, quantity: number, format?: string): InventorySession => {
+  const now = Date.now();
+  const lines = { ...session.lines };
+  const current = lines[sku];
+
+  if (quantity <= 0) {
+    delete lines[sku];
+  } else {
+    lines[sku] = { sku, format: format ?? current?.format, quantity, updatedAt: now };
+  }
+
+  return { ...session, lines, updatedAt: now };
+};
+
+export const addCount = (session: InventorySession, sku: string, delta = 1, format?: string): InventorySession =>
+  setQuantity(session, sku, (session.lines[sku]?.quantity ?? 0) + delta, format);
+
+// Accepts "sku,qty" per line (comma, semicolon or tab), or a JSON object/array
+export const parseExpectedList = (input: string): Record<string, number> => {
+  const trimmed = input.trim();
+  const expected: Record<string, number> = {};
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const data: unknown = JSON.parse(trimmed);
+    const entries = Array.isArray(data)
+      ? data.map(item => [String(item.sku ?? item.barcode ?? ''), Number(item.quantity ?? item.qty)] as const)
+      : Object.entries(data as Record<string, unknown>).map(([sku, qty]) => [sku, Number(qty)] as const);
+    entries.forEach(([sku, qty]) => {
+      if (sku && Number.isFinite(qty)) expected[sku] = qty;
+    });
+    return expected;
+  }
+
+  trimmed.split(/\r?\n/).forEach(line => {
+    const [sku, qty] = line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const quantity = Number(qty);
+    // Skips a header row and anything without a numeric quantity
+    if (sku && qty && Number.isFinite(quantity)) expected[sku] = quantity;
+  });
+
+  return expected;
+};
+
+export const compareCounts = (session: InventorySession): CountRow[] => {
+  const expected = session.expected ?? {};
+  const skus = new Set([...Object.keys(session.lines), ...Object.keys(expected)]);
+
+  return [...skus].sort().map(sku => {
+    const line = session.lines[sku];
+    const counted = line?.quantity ?? 0;
+    const target = expected[sku];
+
+    if (target === undefined) {
+      return {
+        sku, format: line?.format, counted,
+        status: session.expected ? 'unexpected' : 'counted',
+      };
+    }
+
+    const difference = counted - target;
+    return {
+      sku, format: line?.format, counted, expected: target, difference,
+      status: difference === 0 ? 'ok' : difference > 0 ? 'over' : 'short',
+    };
+  });
+};
+
+export const sessionTotals = (session: InventorySession) => {
+  const lines = Object.values(session.lines);
+  return {
+    skus: lines.length,
+    units: lines.reduce((sum, line) => sum + line.quantity, 0),
+  };
+};
+
+export const saveSession = async (session: InventorySession): Promise<InventorySession> => {
+  const id = await withStore(INVENTORY_STORE, 'readwrite', store => store.put(session));
+  return { ...session, id: id as number };
+};
+
+export const listSessions = async (): Promise<InventorySession[]> => {
+  const sessions = (await withStore(INVENTORY_STORE, 'readonly', store => store.getAll())) as InventorySession[];
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: number): Promise<InventorySession | undefined> =>
+  (await withStore(INVENTORY_STORE, 'readonly', store => store.get(id))) as InventorySession | undefined;
+
+export const deleteSession = async (id: number): Promise<void> => {
+  await withStore(INVENTORY_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Remember the open session so a reload resumes counting where it left off
+export const getActiveSessionId = (): number | null => {
+  const saved = Number(localStorage.getItem(ACTIVE_KEY));
+  return saved > 0 ? saved : null;
+};
+
+export const setActiveSessionId = (id: number | null) => {
+  if (id === null) localStorage.removeItem(ACTIVE_KEY);
+  else localStorage.setItem(ACTIVE_KEY, String(id));
+};
+
+export const exportSessionCSV = (session: InventorySession) => {
+  const header = ['SKU', 'Format', 'Counted', 'Expected', 'Difference', 'Status'];
+  const rows = compareCounts(session).map(row => [
+    row.sku,
+    row.format ?? '',
+    String(row.counted),
+    row.expected === undefined ? '' : String(row.expected),
+    row.difference === undefined ? '' : String(row.difference),
+    row.status,
+  ]);
+  const csv = [header, ...rows].map(row => row.map(cell => escapeCSV(cell, ',')).join(',')).join('\n');
+  const slug = session.name.replace(/[^\w-]+/g, '-').replace(/^-|-$/g, '') || 'inventory';
+
+  downloadFile(csv, `${slug}.csv`, 'text/csv;charset=utf-8');
+};
@@ -0,0 +1,85 @@
+import Tesseract from 'tesseract.js';
+
+// On-device OCR with tesseract.js. A single worker is created lazily and reused
+// across scans; switching languages reinitializes it instead of spawning a new one.
+// Language data is downloaded once and then served from tesseract's IndexedDB cache.
+
+export const OCR_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'eng', label: 'English' },
+  { code: 'deu', label: 'German' },
+  { code: 'fra', label: 'French' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'ita', label: 'Italian' },
+  { code: 'por', label: 'Portuguese' },
+  { code: 'nld', label: 'Dutch' },
+  { code: 'pol', label: 'Polish' },
+  { code: 'tur', label: 'Turkish' },
+  { code: 'ara', label: 'Arabic' },
+  { code: 'hin', label: 'Hindi' },
+  { code: 'chi_sim', label: 'Chinese (Simplified)' },
+  { code: 'jpn', label: 'Japanese' },
+];
+
+export type OcrProgressListener = (status: string, progress: number) => void;
+
+let workerPromise: Promise<Tesseract.Worker> | null = null;
+let workerLanguages = '';
+let progressListener: OcrProgressListener | null = null;
+
+// The worker, its languages and the progress listener are shared, so jobs run
+// one after another; a second scan waits rather than taking over the first's
+// progress reports or switching languages under it
+let lastJob: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(job: () => Promise<T>): Promise<T> => {
+  const run = lastJob.then(job, job);
+  lastJob = run.catch(() => undefined);
+  return run;
+};
+
+const getWorker = async (languages: string[]): Promise<Tesseract.Worker> => {
+  const key = languages.join('+');
+
+  if (!workerPromise) {
+    workerLanguages = key;
+    workerPromise = Tesseract.createWorker(languages, undefined, {
+      logger: message => progressListener?.(message.status, message.progress),
+    });
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+
+  const worker = await workerPromise;
+  if (workerLanguages !== key) {
+    workerLanguages = key;
+    await worker.reinitialize(key);
+  }
+  return worker;
+};
+
+export const recognizeLocally = async (
+  image: Tesseract.ImageLike,
+  languages: string[],
+  onProgress?: OcrProgressListener
+): Promise<string> =>
+  enqueue(async () => {
+    progressListener = onProgress ?? null;
+    try {
+      const worker = await getWorker(languages);
+      const { data } = await worker.recognize(image);
+      return data.text.trim();
+    } finally {
+      progressListener = null;
+    }
+  });
+
+// Waits for queued scans, so a running recognize isn't cut off
+export const terminateLocalOcr = () =>
+  enqueue(async () => {
+    if (!workerPromise) return;
+    const worker = await workerPromise;
+    workerPromise = null;
+    workerLanguages = '';
+    await worker.terminate();
+  });
@@ -0,0 +1,54 @@
+import { extractTextWithAI } from './aiOcr';
+import { recognizeLocally } from './localOcr';
+import type { OcrProgressListener } from './localOcr';
+
+// Selectable OCR backend: cloud vision model or on-device Tesseract
+
+export type OcrBackend = 'cloud' | 'local';
+// text: free-form OCR; product / document: typed fields (cloud backend only)
+export type OcrExtraction = 'text' | 'product' | 'document';
+
+export interface OcrConfig {
+  backend: OcrBackend;
+  languages: string[]; // Tesseract language codes, used by the local backend
+  extraction: OcrExtraction;
+  autoCapture: boolean;       // OCR-only mode: capture automatically once the view is steady
+  autoCaptureHoldMs: number;  // How long the view must hold still before capturing
+}
+
+export const OCR_BACKEND_LABELS: Record<OcrBackend, string> = {
+  cloud: 'AI',
+  local: 'Tesseract',
+};
+
+export const DEFAULT_OCR_CONFIG: OcrConfig = {
+  backend: 'cloud',
+  languages: ['eng'],
+  extraction: 'text',
+  autoCapture: false,
+  autoCaptureHoldMs: 700,
+};
+
+const CONFIG_KEY = 'ocr-config';
+
+export const loadOcrConfig = (): OcrConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    return saved ? { ...DEFAULT_OCR_CONFIG, ...saved } : DEFAULT_OCR_CONFIG;
+  } catch {
+    return DEFAULT_OCR_CONFIG;
+  }
+};
+
+export const saveOcrConfig = (config: OcrConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+export const extractText = (
+  base64Image: string,
+  config: OcrConfig = DEFAULT_OCR_CONFIG,
+  onProgress?: OcrProgressListener
+): Promise<string> =>
+  config.backend === 'local'
+    ? recognizeLocally(`data:image/jpeg;base64,${base64Image}`, config.languages, onProgress)
+    : extractTextWithAI(base64Image);
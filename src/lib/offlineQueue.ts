@@ -0,0 +1,97 @@
+import type { ScanResult } from '../components/BarcodeScanner';
+import { extractTextWithAI, NetworkError, RetryableError } from './aiOcr';
+import { OCR_QUEUE_STORE, withStore } from './db';
+import { extractProductWithAI } from './productExtraction';
+import { documentSummary, extractDocumentWithAI } from './documentExtraction';
+import type { OcrExtraction } from './ocr';
+import { updateQueuedEntries } from './scanHistory';
+
+// Frames captured without signal wait here until the AI proxy is reachable again
+
+export type ScanStatus = 'pending' | 'completed';
+
+export interface QueuedExtraction {
+  id: number;
+  image: string; // base64 JPEG, no data: prefix
+  extraction: OcrExtraction;
+  createdAt: number;
+  attempts?: number;  // Failed tries that were worth retrying
+  retryAt?: number;   // Not tried again before this time (ms)
+}
+
+// scans: the history entries the job filled in, for listeners that pass results on
+export type QueueCompleteListener = (queueId: number, patch: Partial<ScanResult>, scans: ScanResult[]) => void;
+
+export const enqueueExtraction = async (image: string, extraction: OcrExtraction): Promise<number> => {
+  const id = await withStore(OCR_QUEUE_STORE, 'readwrite', store =>
+    store.add({ image, extraction, createdAt: Date.now() })
+  );
+  return id as number;
+};
+
+export const countQueuedExtractions = async (): Promise<number> =>
+  (await withStore(OCR_QUEUE_STORE, 'readonly', store => store.count())) as number;
+
+const runExtraction = async ({ image, extraction }: QueuedExtraction): Promise<Partial<ScanResult>> => {
+  if (extraction === 'product') {
+    const product = await extractProductWithAI(image);
+    return product
+      ? { product, text: [product.brand, product.productName].filter(Boolean).join(' ') }
+      : { text: '' };
+  }
+  if (extraction === 'document') {
+    const document = await extractDocumentWithAI(image);
+    return document ? { document, text: documentSummary(document) } : { text: '' };
+  }
+  return { text: await extractTextWithAI(image) };
+};
+
+// Rate limits and upstream outages back off from half a minute up to an hour
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60_000;
+
+const retryDelay = (attempts: number, retryAfterMs = 0) =>
+  Math.max(retryAfterMs, Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1)));
+
+let draining: Promise<number> | null = null;
+
+// Process queued frames oldest first, skipping jobs still backing off; stops at
+// the first network failure or refused request, which keeps the job for later.
+// A job is only removed once the AI has answered, even if it found nothing.
+// Resolves with the number of jobs completed.
+export const processQueue = (onComplete?: QueueCompleteListener): Promise<number> => {
+  if (draining) return draining;
+
+  draining = (async () => {
+    const jobs = (await withStore(OCR_QUEUE_STORE, 'readonly', store => store.getAll())) as QueuedExtraction[];
+    let completed = 0;
+
+    for (const job of jobs) {
+      if (job.retryAt && job.retryAt > Date.now()) continue;
+
+      let patch: Partial<ScanResult>;
+      try {
+        patch = { ...(await runExtraction(job)), status: 'completed' };
+      } catch (err) {
+        if (err instanceof NetworkError) break;
+        if (!(err instanceof RetryableError)) throw err;
+        console.warn(`Queued extraction ${job.id} will be retried:`, err.message);
+        const attempts = (job.attempts ?? 0) + 1;
+        const retryAt = Date.now() + retryDelay(attempts, err.retryAfterMs);
+        await withStore(OCR_QUEUE_STORE, 'readwrite', store => store.put({ ...job, attempts, retryAt }));
+        break;
+      }
+
+      const scans = await updateQueuedEntries(job.id, patch);
+      await withStore(OCR_QUEUE_STORE, 'readwrite', store => store.delete(job.id));
+      completed++;
+      onComplete?.(job.id, patch, scans);
+    }
+
+    return completed;
+  })().finally(() => {
+    draining = null;
+  });
+
+  return draining;
+};
@@ -0,0 +1,103 @@
+import type { ParsedPayload } from './types';
+
+type Contact = Extract<ParsedPayload, { kind: 'contact' }>;
+
+const emptyContact = (): Contact => ({ kind: 'contact', phones: [], emails: [], urls: [] });
+
+const unescapeVCard = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+export const parseVCard = (raw: string): Contact | null => {
+  if (!/^BEGIN:VCARD/i.test(raw.trim())) return null;
+
+  const contact = emptyContact();
+  // Unfold continuation lines (RFC 6350 3.2)
+  const lines = raw.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  lines.forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = unescapeVCard(line.slice(separator + 1).trim());
+    if (!value) return;
+
+    switch (property) {
+      case 'FN': contact.name = value; break;
+      case 'N':
+        if (!contact.name) {
+          const [family, given] = value.split(';');
+          contact.name = [given, family].filter(Boolean).join(' ');
+        }
+        break;
+      case 'ORG': contact.organization = value.replace(/;/g, ' ').trim(); break;
+      case 'TITLE': contact.title = value; break;
+      case 'TEL': contact.phones.push(value.replace(/^tel:/i, '')); break;
+      case 'EMAIL': contact.emails.push(value); break;
+      case 'URL': contact.urls.push(value); break;
+      case 'ADR': contact.address = value.split(';').filter(Boolean).join(', '); break;
+    }
+  });
+
+  return contact;
+};
+
+// Split "KEY:value;KEY:value;;" honouring backslash escapes
+export const splitFields = (body: string): [string, string][] => {
+  const fields: [string, string][] = [];
+  let current = '';
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      current += body[++i];
+    } else if (char === ';') {
+      const separator = current.indexOf(':');
+      if (separator > 0) fields.push([current.slice(0, separator).toUpperCase(), current.slice(separator + 1)]);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  const separator = current.indexOf(':');
+  if (separator > 0) fields.push([current.slice(0, separator).toUpperCase(), current.slice(separator + 1)]);
+  return fields;
+};
+
+export const parseMeCard = (raw: string): Contact | null => {
+  if (!/^MECARD:/i.test(raw)) return null;
+
+  const contact = emptyContact();
+  splitFields(raw.slice('MECARD:'.length)).forEach(([key, value]) => {
+    if (!value) return;
+    switch (key) {
+      case 'N': {
+        const [family, given] = value.split(',');
+        contact.name = [given, family].filter(Boolean).join(' ');
+        break;
+      }
+      case 'ORG': contact.organization = value; break;
+      case 'TEL': contact.phones.push(value); break;
+      case 'EMAIL': contact.emails.push(value); break;
+      case 'URL': contact.urls.push(value); break;
+      case 'ADR': contact.address = value; break;
+    }
+  });
+
+  return contact;
+};
+
+// Build a .vcf so the contact can be saved to the device address book
+export const toVCard = (contact: Contact): string =>
+  [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${contact.name ?? ''}`,
+    contact.organization && `ORG:${contact.organization}`,
+    contact.title && `TITLE:${contact.title}`,
+    ...contact.phones.map(phone => `TEL:${phone}`),
+    ...contact.emails.map(email => `EMAIL:${email}`),
+    ...contact.urls.map(url => `URL:${url}`),
+    contact.address && `ADR:;;${contact.address}`,
+    'END:VCARD',
+  ].filter(Boolean).join('\r\n');
@@ -0,0 +1,64 @@
+import type { EmvcoField, ParsedPayload } from './types';
+
+// EMVCo merchant-presented QR (UPI, PIX, PayNow, PromptPay, QRIS, ...):
+// a flat list of ID(2) LENGTH(2) VALUE records ending in a CRC-16 record "63"
+
+const CURRENCIES: Record<string, string> = {
+  '036': 'AUD', '124': 'CAD', '156': 'CNY', '344': 'HKD', '356': 'INR',
+  '360': 'IDR', '392': 'JPY', '410': 'KRW', '458': 'MYR', '484': 'MXN',
+  '608': 'PHP', '702': 'SGD', '704': 'VND', '710': 'ZAR', '764': 'THB',
+  '784': 'AED', '826': 'GBP', '840': 'USD', '978': 'EUR', '986': 'BRL',
+};
+
+const parseRecords = (data: string): EmvcoField[] | null => {
+  const fields: EmvcoField[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const id = data.slice(offset, offset + 2);
+    const length = Number(data.slice(offset + 2, offset + 4));
+    if (!/^\d{2}$/.test(id) || Number.isNaN(length)) return null;
+    const value = data.slice(offset + 4, offset + 4 + length);
+    if (value.length !== length) return null;
+    fields.push({ id, value });
+    offset += 4 + length;
+  }
+
+  return fields;
+};
+
+// CRC-16/CCITT-FALSE over the UTF-8 bytes up to and including the "6304" tag
+const crc16 = (text: string): string => {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(text)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+export const parseEmvco = (raw: string): Extract<ParsedPayload, { kind: 'emvco' }> | null => {
+  if (!raw.startsWith('000201')) return null;
+
+  const fields = parseRecords(raw);
+  if (!fields) return null;
+
+  const byId = (id: string) => fields.find(field => field.id === id)?.value;
+  const crcIndex = raw.lastIndexOf('6304');
+  const crc = byId('63');
+
+  return {
+    kind: 'emvco',
+    merchantName: byId('59'),
+    merchantCity: byId('60'),
+    countryCode: byId('58'),
+    currency: byId('53') && (CURRENCIES[byId('53')!] ?? byId('53')),
+    amount: byId('54'),
+    dynamic: byId('01') === '12',
+    crcValid: crcIndex >= 0 && crc !== undefined && crc16(raw.slice(0, crcIndex + 4)) === crc.toUpperCase(),
+    fields,
+  };
+};
@@ -0,0 +1,214 @@
+import type { Gs1Field } from './types';
+
+// GS1 Application Identifier parsing for GS1-128, GS1 DataMatrix/QR and
+// human-readable "(01)...(17)..." strings
+
+const GS = '\u001d'; // FNC1 separator after variable-length fields
+
+// AI prefixes GS1 predefines as fixed length (General Specifications, "element
+// strings with predefined length"). Only these may run on without a separator;
+// every other AI needs FNC1 even when its data has a fixed length, e.g. 402 or 7003
+const PREDEFINED_LENGTH_PREFIXES = [
+  '00', '01', '02', '03', '04', '11', '12', '13', '14', '15', '16', '17', '18', '19', '20',
+  '31', '32', '33', '34', '35', '36', '41',
+];
+
+interface AiSpec {
+  label: string;
+  length?: number;        // Fixed data length; undefined = variable (FNC1-terminated)
+  maxLength?: number;
+  type?: 'date' | 'decimal';
+}
+
+// Two/three-digit AIs, keyed by their exact code
+const AI_TABLE: Record<string, AiSpec> = {
+  '00': { label: 'SSCC', length: 18 },
+  '01': { label: 'GTIN', length: 14 },
+  '02': { label: 'Content GTIN', length: 14 },
+  '10': { label: 'Batch/Lot', maxLength: 20 },
+  '11': { label: 'Production Date', length: 6, type: 'date' },
+  '12': { label: 'Due Date', length: 6, type: 'date' },
+  '13': { label: 'Packaging Date', length: 6, type: 'date' },
+  '15': { label: 'Best Before', length: 6, type: 'date' },
+  '16': { label: 'Sell By', length: 6, type: 'date' },
+  '17': { label: 'Expiry', length: 6, type: 'date' },
+  '20': { label: 'Variant', length: 2 },
+  '21': { label: 'Serial', maxLength: 20 },
+  '22': { label: 'Consumer Product Variant', maxLength: 20 },
+  '30': { label: 'Variable Count', maxLength: 8 },
+  '37': { label: 'Count', maxLength: 8 },
+  '90': { label: 'Internal', maxLength: 30 },
+  '240': { label: 'Additional Product ID', maxLength: 30 },
+  '241': { label: 'Customer Part No.', maxLength: 30 },
+  '250': { label: 'Secondary Serial', maxLength: 30 },
+  '400': { label: 'Order Number', maxLength: 30 },
+  '401': { label: 'Consignment Number', maxLength: 30 },
+  '402': { label: 'Shipment ID', length: 17 },
+  '403': { label: 'Routing Code', maxLength: 30 },
+  '410': { label: 'Ship To GLN', length: 13 },
+  '411': { label: 'Bill To GLN', length: 13 },
+  '412': { label: 'Purchased From GLN', length: 13 },
+  '413': { label: 'Ship For GLN', length: 13 },
+  '414': { label: 'Location GLN', length: 13 },
+  '415': { label: 'Invoicing Party GLN', length: 13 },
+  '420': { label: 'Ship To Postal Code', maxLength: 20 },
+  '421': { label: 'Ship To Postal Code (ISO)', maxLength: 12 },
+  '422': { label: 'Country of Origin', length: 3 },
+};
+
+// Four-digit AIs whose last digit is the implied decimal position
+const DECIMAL_AI_PREFIXES: Record<string, AiSpec> = {
+  '310': { label: 'Net Weight (kg)', length: 6, type: 'decimal' },
+  '320': { label: 'Net Weight (lb)', length: 6, type: 'decimal' },
+  '330': { label: 'Gross Weight (kg)', length: 6, type: 'decimal' },
+  '311': { label: 'Length (m)', length: 6, type: 'decimal' },
+  '312': { label: 'Width (m)', length: 6, type: 'decimal' },
+  '313': { label: 'Height (m)', length: 6, type: 'decimal' },
+  '315': { label: 'Net Volume (l)', length: 6, type: 'decimal' },
+  '390': { label: 'Amount Payable', maxLength: 15, type: 'decimal' },
+  '392': { label: 'Price', maxLength: 15, type: 'decimal' },
+};
+
+const FOUR_DIGIT_AIS: Record<string, AiSpec> = {
+  '7003': { label: 'Expiry Date/Time', length: 10 },
+  '8005': { label: 'Price Per Unit', length: 6 },
+  '8008': { label: 'Production Date/Time', maxLength: 12 },
+};
+
+const lookupAi = (data: string): { ai: string; spec: AiSpec } | null => {
+  const four = data.slice(0, 4);
+  if (FOUR_DIGIT_AIS[four]) return { ai: four, spec: FOUR_DIGIT_AIS[four] };
+  if (DECIMAL_AI_PREFIXES[four.slice(0, 3)] && /^\d{4}$/.test(four)) {
+    return { ai: four, spec: DECIMAL_AI_PREFIXES[four.slice(0, 3)] };
+  }
+  const three = data.slice(0, 3);
+  if (AI_TABLE[three]) return { ai: three, spec: AI_TABLE[three] };
+  const two = data.slice(0, 2);
+  if (AI_TABLE[two]) return { ai: two, spec: AI_TABLE[two] };
+  // 91-99: company internal, variable length
+  if (/^9[1-9]$/.test(two)) return { ai: two, spec: { label: 'Internal', maxLength: 90 } };
+  return null;
+};
+
+// YYMMDD -> YYYY-MM-DD; day 00 means the last day of the month
+const formatDate = (value: string): string | undefined => {
+  if (!/^\d{6}$/.test(value)) return undefined;
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) return undefined;
+  if (day === 0) day = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const formatDecimal = (ai: string, value: string): string => {
+  const decimals = Number(ai[3]);
+  if (!decimals) return String(Number(value));
+  const padded = value.padStart(decimals + 1, '0');
+  return String(Number(`${padded.slice(0, -decimals)}.${padded.slice(-decimals)}`));
+};
+
+const toField = (ai: string, spec: AiSpec, value: string): Gs1Field => {
+  let display: string | undefined;
+  if (spec.type === 'date') display = formatDate(value);
+  if (spec.type === 'decimal') display = formatDecimal(ai, value);
+  return { ai, label: spec.label, value, display };
+};
+
+// Mod-10 check digit used by GTIN, SSCC and GLN
+export const gs1CheckDigit = (digits: string): number => {
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidGs1Key = (value: string): boolean =>
+  /^\d{8,18}$/.test(value) && gs1CheckDigit(value.slice(0, -1)) === Number(value.slice(-1));
+
+// "(01)09501101530003(17)250101(10)AB-123"
+const parseBracketed = (text: string): Gs1Field[] | null => {
+  const matches = [...text.matchAll(/\((\d{2,4})\)([^(]*)/g)];
+  if (matches.length === 0 || matches.map(m => m[0]).join('') !== text) return null;
+
+  const fields: Gs1Field[] = [];
+  for (const [, ai, value] of matches) {
+    const found = lookupAi(ai);
+    if (!found || found.ai !== ai) return null;
+    fields.push(toField(ai, found.spec, value));
+  }
+  return fields;
+};
+
+// Raw element string: fixed-length AIs run on, variable ones end at GS or end of data
+const parseElementString = (data: string): Gs1Field[] | null => {
+  const fields: Gs1Field[] = [];
+  let rest = data;
+
+  while (rest.length > 0) {
+    if (rest[0] === GS) {
+      rest = rest.slice(1);
+      continue;
+    }
+    const found = lookupAi(rest);
+    if (!found) return null;
+
+    rest = rest.slice(found.ai.length);
+    let value: string;
+    if (found.spec.length) {
+      value = rest.slice(0, found.spec.length);
+      if (value.length !== found.spec.length) return null;
+      rest = rest.slice(found.spec.length);
+    } else {
+      const end = rest.indexOf(GS);
+      value = end === -1 ? rest : rest.slice(0, end);
+      if (found.spec.maxLength && value.length > found.spec.maxLength) return null;
+      rest = end === -1 ? '' : rest.slice(end + 1);
+    }
+    fields.push(toField(found.ai, found.spec, value));
+  }
+
+  return fields.length > 0 ? fields : null;
+};
+
+// Symbology identifiers that announce GS1 data: GS1-128, GS1 DataBar, GS1 DataMatrix, GS1 QR
+const GS1_SYMBOLOGY_IDS = [']C1', ']e0', ']d2', ']Q3'];
+
+export const parseGs1 = (raw: string): Gs1Field[] | null => {
+  const text = raw.trim();
+
+  if (text.startsWith('(')) return parseBracketed(text);
+
+  const prefix = GS1_SYMBOLOGY_IDS.find(id => text.startsWith(id));
+  if (prefix || text.includes(GS)) {
+    return parseElementString(text.slice(prefix?.length ?? 0));
+  }
+
+  // Scanners that drop FNC1 leave a bare element string; only trust it when
+  // it starts with a GTIN/SSCC whose check digit is valid and carries more AIs
+  if (/^(01\d{14}|00\d{18})./.test(text)) {
+    const fields = parseElementString(text);
+    const key = fields?.[0];
+    if (fields && fields.length > 1 && key && isValidGs1Key(key.value)) return fields;
+  }
+
+  return null;
+};
+
+// Inverse of parseElementString, for encoding: AIs with a predefined length run
+// on, all others need a GS (FNC1 in GS1-128) unless they come last
+export const toElementString = (fields: Gs1Field[]): string =>
+  fields.map((field, index) => {
+    const spec = lookupAi(field.ai)?.spec;
+    if (!spec) throw new Error(`Unknown GS1 AI (${field.ai})`);
+    if (spec.length && field.value.length !== spec.length) {
+      throw new Error(`AI (${field.ai}) needs exactly ${spec.length} characters`);
+    }
+    if (spec.maxLength && field.value.length > spec.maxLength) {
+      throw new Error(`AI (${field.ai}) allows at most ${spec.maxLength} characters`);
+    }
+    const last = index === fields.length - 1;
+    const predefined = PREDEFINED_LENGTH_PREFIXES.includes(field.ai.slice(0, 2));
+    return field.ai + field.value + (predefined || last ? '' : GS);
+  }).join('');
@@ -0,0 +1,103 @@
+import { parseMeCard, parseVCard, splitFields } from './contact';
+import { parseEmvco } from './emvco';
+import { parseGs1 } from './gs1';
+import type { ParsedPayload } from './types';
+
+export type { EmvcoField, Gs1Field, ParsedPayload, PayloadKind } from './types';
+export { toVCard } from './contact';
+export { gs1CheckDigit, isValidGs1Key, parseGs1, toElementString } from './gs1';
+
+// Scanned text may carry malformed escapes (e.g. "%zz"); keep it as printed then
+const safeDecode = (text: string): string => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+const parseUrl = (raw: string): ParsedPayload | null => {
+  const candidate = /^www\./i.test(raw) ? `https://${raw}` : raw;
+  if (!/^https?:\/\/\S+$/i.test(candidate)) return null;
+  try {
+    return { kind: 'url', url: new URL(candidate).href };
+  } catch {
+    return null;
+  }
+};
+
+const parseWifi = (raw: string): ParsedPayload | null => {
+  if (!/^WIFI:/i.test(raw)) return null;
+  const fields = new Map(splitFields(raw.slice('WIFI:'.length)));
+  const ssid = fields.get('S');
+  if (!ssid) return null;
+  return {
+    kind: 'wifi',
+    ssid,
+    password: fields.get('P') || undefined,
+    security: fields.get('T') || 'nopass',
+    hidden: fields.get('H')?.toLowerCase() === 'true',
+  };
+};
+
+const parseEmail = (raw: string): ParsedPayload | null => {
+  if (/^mailto:/i.test(raw)) {
+    const [address, query = ''] = raw.slice('mailto:'.length).split('?');
+    const params = new URLSearchParams(query);
+    return {
+      kind: 'email',
+      to: safeDecode(address),
+      subject: params.get('subject') ?? undefined,
+      body: params.get('body') ?? undefined,
+    };
+  }
+  if (/^MATMSG:/i.test(raw)) {
+    const fields = new Map(splitFields(raw.slice('MATMSG:'.length)));
+    const to = fields.get('TO');
+    return to ? { kind: 'email', to, subject: fields.get('SUB'), body: fields.get('BODY') } : null;
+  }
+  return null;
+};
+
+const parsePhone = (raw: string): ParsedPayload | null => {
+  const match = raw.match(/^tel:([+\d\s().-]+)$/i);
+  return match ? { kind: 'phone', number: match[1].trim() } : null;
+};
+
+const parseSms = (raw: string): ParsedPayload | null => {
+  const smsto = raw.match(/^SMSTO:([^:]+)(?::([\s\S]*))?$/i);
+  if (smsto) return { kind: 'sms', number: smsto[1], body: smsto[2] || undefined };
+
+  const sms = raw.match(/^sms:([^?]+)(?:\?body=(.*))?$/i);
+  if (sms) return { kind: 'sms', number: sms[1], body: sms[2] ? safeDecode(sms[2]) : undefined };
+
+  return null;
+};
+
+const parseGeo = (raw: string): ParsedPayload | null => {
+  const match = raw.match(/^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:,[^?]*)?(?:\?q=(.*))?$/i);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { kind: 'geo', latitude, longitude, query: match[3] ? safeDecode(match[3]) : undefined };
+};
+
+// Recognize a decoded barcode payload. Returns null for plain values (e.g. an EAN)
+export const parsePayload = (raw: string): ParsedPayload | null => {
+  const value = raw.trim();
+  if (!value) return null;
+
+  const gs1 = parseGs1(value);
+  if (gs1) return { kind: 'gs1', fields: gs1 };
+
+  return parseEmvco(value)
+    ?? parseVCard(value)
+    ?? parseMeCard(value)
+    ?? parseWifi(value)
+    ?? parseEmail(value)
+    ?? parsePhone(value)
+    ?? parseSms(value)
+    ?? parseGeo(value)
+    ?? parseUrl(value);
+};
@@ -0,0 +1,45 @@
+// Structured interpretations of well-known barcode payloads
+
+export interface Gs1Field {
+  ai: string;          // Application Identifier, e.g. "01"
+  label: string;       // Human name, e.g. "GTIN"
+  value: string;       // Raw value as encoded
+  display?: string;    // Formatted value (ISO date, decimal weight...)
+}
+
+export interface EmvcoField {
+  id: string;
+  value: string;
+}
+
+export type ParsedPayload =
+  | { kind: 'gs1'; fields: Gs1Field[] }
+  | { kind: 'url'; url: string }
+  | {
+      kind: 'contact';
+      name?: string;
+      organization?: string;
+      title?: string;
+      phones: string[];
+      emails: string[];
+      urls: string[];
+      address?: string;
+    }
+  | { kind: 'wifi'; ssid: string; password?: string; security: string; hidden: boolean }
+  | { kind: 'email'; to: string; subject?: string; body?: string }
+  | { kind: 'phone'; number: string }
+  | { kind: 'sms'; number: string; body?: string }
+  | { kind: 'geo'; latitude: number; longitude: number; query?: string }
+  | {
+      kind: 'emvco';
+      merchantName?: string;
+      merchantCity?: string;
+      countryCode?: string;
+      currency?: string;
+      amount?: string;
+      dynamic: boolean;  // Point of initiation 12 = one-time dynamic QR
+      crcValid: boolean;
+      fields: EmvcoField[];
+    };
+
+export type PayloadKind = ParsedPayload['kind'];
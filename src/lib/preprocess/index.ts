@@ -0,0 +1,254 @@
+import { renderProcessed } from './render';
+import { detectPage, quadSize, scaleQuad, warpPerspective } from './perspective';
+import type { Quad } from './perspective';
+import type { PreprocessRequest, PreprocessResponse } from './worker';
+import type { CropRegion, PreprocessConfig, ProcessedFrame } from './types';
+
+export type { CropRegion, PreprocessConfig, ProcessedFrame } from './types';
+export type { Point, Quad } from './perspective';
+
+export const DEFAULT_PREPROCESS_CONFIG: PreprocessConfig = {
+  enabled: true,
+  cropToFrame: true,
+  grayscale: true,
+  autoContrast: true,
+  sharpen: false,
+  binarize: false,  // Helps glare, but can erase thin bars on good frames
+  deskew: false,
+  debugView: false,
+};
+
+const CONFIG_KEY = 'preprocess-config';
+
+export const loadPreprocessConfig = (): PreprocessConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    return saved ? { ...DEFAULT_PREPROCESS_CONFIG, ...saved } : DEFAULT_PREPROCESS_CONFIG;
+  } catch {
+    return DEFAULT_PREPROCESS_CONFIG;
+  }
+};
+
+export const savePreprocessConfig = (config: PreprocessConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+// Vision models read color and soft edges better than thresholded frames;
+// only Tesseract gets the binarized image
+export const ocrPreprocessConfig = (config: PreprocessConfig, backend: 'cloud' | 'local'): PreprocessConfig =>
+  backend === 'cloud' ? { ...config, grayscale: false, binarize: false } : config;
+
+// Map an element drawn over the video (the scanner frame) to video pixels,
+// accounting for object-fit: cover scaling and centering
+export const frameRegion = (video: HTMLVideoElement, frame: Element): CropRegion | null => {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return null;
+
+  const view = video.getBoundingClientRect();
+  const box = frame.getBoundingClientRect();
+  if (!view.width || !view.height) return null;
+
+  const scale = Math.max(view.width / videoWidth, view.height / videoHeight);
+  const offsetX = (view.width - videoWidth * scale) / 2;
+  const offsetY = (view.height - videoHeight * scale) / 2;
+
+  const x = Math.max(0, (box.left - view.left - offsetX) / scale);
+  const y = Math.max(0, (box.top - view.top - offsetY) / scale);
+  const width = Math.min(videoWidth - x, box.width / scale);
+  const height = Math.min(videoHeight - y, box.height / scale);
+
+  return width > 0 && height > 0
+    ? { x: Math.round(x), y: Math.round(y), width: Math.round(width), height: Math.round(height) }
+    : null;
+};
+
+export interface FrameProcessor {
+  process(source: HTMLVideoElement | HTMLCanvasElement, region: CropRegion | null, config: PreprocessConfig): Promise<ProcessedFrame | null>;
+  dispose(): void;
+}
+
+const supportsWorker = () =>
+  typeof Worker !== 'undefined'
+  && typeof OffscreenCanvas !== 'undefined'
+  && typeof createImageBitmap === 'function'
+  && 'transferToImageBitmap' in OffscreenCanvas.prototype;
+
+const sourceSize = (source: HTMLVideoElement | HTMLCanvasElement) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.width, height: source.height };
+
+const PAGE_DETECT_WIDTH = 320;
+const MAX_DOCUMENT_SIDE = 2000; // Enough for small print on an A4 page
+
+// Page corners in source pixels, found on a small copy so it can run live
+export const detectPageIn = (
+  source: HTMLVideoElement | HTMLCanvasElement,
+  sample: HTMLCanvasElement
+): Quad | null => {
+  const { width, height } = sourceSize(source);
+  if (!width || !height) return null;
+
+  const scale = PAGE_DETECT_WIDTH / width;
+  sample.width = PAGE_DETECT_WIDTH;
+  sample.height = Math.max(1, Math.round(height * scale));
+  const ctx = sample.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, sample.width, sample.height);
+  const quad = detectPage(ctx.getImageData(0, 0, sample.width, sample.height));
+  return quad && scaleQuad(quad, 1 / scale);
+};
+
+// Document capture: the page flattened to a rectangle, or the whole frame
+// when no page edges are found
+export const captureDocument = (video: HTMLVideoElement): { canvas: HTMLCanvasElement; corrected: boolean } | null => {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return null;
+
+  const frame = document.createElement('canvas');
+  frame.width = videoWidth;
+  frame.height = videoHeight;
+  const ctx = frame.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0);
+
+  const quad = detectPageIn(frame, document.createElement('canvas'));
+  if (!quad) return { canvas: frame, corrected: false };
+
+  const { width, height } = quadSize(quad, MAX_DOCUMENT_SIDE);
+  const page = document.createElement('canvas');
+  page.width = width;
+  page.height = height;
+  page.getContext('2d')!.putImageData(
+    warpPerspective(ctx.getImageData(0, 0, videoWidth, videoHeight), quad, width, height),
+    0,
+    0
+  );
+  return { canvas: page, corrected: true };
+};
+
+interface PendingRequest {
+  resolve: (response: PreprocessResponse) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// A frame normally takes a few tens of ms; past this the worker is assumed stuck
+const WORKER_TIMEOUT_MS = 5000;
+
+// Every frame gets its own output canvas, so the decode loop and a capture
+// running at the same time never draw over each other's result
+export const createFrameProcessor = (): FrameProcessor => {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, PendingRequest>();
+  let useWorker = supportsWorker();
+  let disposed = false;
+
+  const rejectPending = (error: Error) => {
+    for (const request of pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(error);
+    }
+    pending.clear();
+  };
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+        const request = pending.get(event.data.id);
+        if (!request) {
+          // Answer to a request that already timed out
+          event.data.bitmap?.close();
+          return;
+        }
+        clearTimeout(request.timer);
+        pending.delete(event.data.id);
+        request.resolve(event.data);
+      };
+      // A worker that fails to load or crashes never answers, so nothing waits on it
+      worker.onerror = event => {
+        event.preventDefault();
+        useWorker = false;
+        worker?.terminate();
+        worker = null;
+        rejectPending(new Error(event.message || 'Preprocessing worker failed'));
+      };
+    }
+    return worker;
+  };
+
+  const processInWorker = async (
+    source: HTMLVideoElement | HTMLCanvasElement,
+    region: CropRegion | null,
+    config: PreprocessConfig
+  ): Promise<{ canvas: HTMLCanvasElement; skewDegrees: number }> => {
+    const bitmap = await createImageBitmap(source);
+    const id = nextId++;
+    const response = await new Promise<PreprocessResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error('Preprocessing worker timed out'));
+      }, WORKER_TIMEOUT_MS);
+      pending.set(id, { resolve, reject, timer });
+      const request: PreprocessRequest = { id, bitmap, region, config };
+      getWorker().postMessage(request, [bitmap]);
+    });
+    if (!response.bitmap) throw new Error(response.error ?? 'Preprocessing failed');
+
+    const canvas = document.createElement('canvas');
+    canvas.width = response.bitmap.width;
+    canvas.height = response.bitmap.height;
+    canvas.getContext('2d', { willReadFrequently: true })!.drawImage(response.bitmap, 0, 0);
+    response.bitmap.close();
+    return { canvas, skewDegrees: response.skewDegrees ?? 0 };
+  };
+
+  const processOnMainThread = (
+    source: HTMLVideoElement | HTMLCanvasElement,
+    region: CropRegion | null,
+    config: PreprocessConfig
+  ): { canvas: HTMLCanvasElement; skewDegrees: number } => {
+    const { width, height } = sourceSize(source);
+    const { canvas, skewDegrees } = renderProcessed(source, width, height, region, config, (w, h) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = w;
+      canvas.height = h;
+      return canvas;
+    });
+    return { canvas: canvas as HTMLCanvasElement, skewDegrees };
+  };
+
+  return {
+    async process(source, region, config) {
+      const { width, height } = sourceSize(source);
+      if (!width || !height) return null;
+
+      const started = performance.now();
+      const viaWorker = useWorker;
+      let result: { canvas: HTMLCanvasElement; skewDegrees: number };
+      try {
+        result = useWorker
+          ? await processInWorker(source, region, config)
+          : processOnMainThread(source, region, config);
+      } catch (err) {
+        if (!viaWorker || disposed) throw err;
+        // Worker unavailable (CSP, old Safari) - carry on without it
+        console.warn('Preprocessing worker failed, using main thread:', err);
+        useWorker = false;
+        result = processOnMainThread(source, region, config);
+      }
+
+      return { ...result, durationMs: performance.now() - started };
+    },
+
+    dispose() {
+      disposed = true;
+      worker?.terminate();
+      worker = null;
+      rejectPending(new Error('Frame processor disposed'));
+    },
+  };
+};
@@ -0,0 +1,203 @@
+// Page detection and perspective correction for document scans. Pure ImageData
+// work like pipeline.ts, so it can move into the worker if it ever needs to.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// A page filling less than this is probably a false find; more is the whole frame
+const MIN_PAGE_AREA = 0.2;
+const MAX_PAGE_AREA = 0.95;
+
+const grayOf = ({ data, width, height }: ImageData): Uint8Array => {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  }
+  return gray;
+};
+
+// Otsu's method: the threshold that best separates the histogram into two classes
+const otsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Uint32Array(256);
+  for (const value of gray) histogram[value]++;
+
+  let total = 0;
+  for (let v = 0; v < 256; v++) total += v * histogram[v];
+
+  let best = 127;
+  let bestVariance = 0;
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  for (let t = 0; t < 256; t++) {
+    backgroundCount += histogram[t];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = gray.length - backgroundCount;
+    if (foregroundCount === 0) break;
+    backgroundSum += t * histogram[t];
+    const meanBackground = backgroundSum / backgroundCount;
+    const meanForeground = (total - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+};
+
+// Largest 4-connected region of bright pixels, as a list of pixel indices
+const largestBrightRegion = (bright: Uint8Array, width: number): number[] => {
+  const seen = new Uint8Array(bright.length);
+  const stack: number[] = [];
+  let largest: number[] = [];
+
+  for (let start = 0; start < bright.length; start++) {
+    if (!bright[start] || seen[start]) continue;
+    const region: number[] = [];
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      region.push(i);
+      const x = i % width;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i >= width ? i - width : -1,
+        i < bright.length - width ? i + width : -1,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && bright[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  return largest;
+};
+
+const quadArea = (quad: Quad) =>
+  Math.abs(quad.reduce((sum, p, i) => {
+    const q = quad[(i + 1) % 4];
+    return sum + p.x * q.y - q.x * p.y;
+  }, 0)) / 2;
+
+// Every turn must go the same way, or the corners are tangled
+const isConvex = (quad: Quad) => {
+  const signs = quad.map((p, i) => {
+    const q = quad[(i + 1) % 4];
+    const r = quad[(i + 2) % 4];
+    return Math.sign((q.x - p.x) * (r.y - q.y) - (q.y - p.y) * (r.x - q.x));
+  });
+  return signs.every(sign => sign === signs[0] && sign !== 0);
+};
+
+// Paper is usually the largest bright area in view. Its corners are the
+// extremes of x+y and x-y, which holds for pages tilted up to ~30 degrees.
+// Expects a small image (~320px wide); returns corners in its pixel space.
+export const detectPage = (image: ImageData): Quad | null => {
+  const { width, height } = image;
+  const gray = grayOf(image);
+  const threshold = otsuThreshold(gray);
+  const bright = gray.map(value => (value > threshold ? 1 : 0));
+  const region = largestBrightRegion(bright, width);
+  if (region.length < width * height * MIN_PAGE_AREA * 0.5) return null;
+
+  let topLeft = region[0];
+  let bottomRight = region[0];
+  let topRight = region[0];
+  let bottomLeft = region[0];
+  const sum = (i: number) => (i % width) + Math.floor(i / width);
+  const diff = (i: number) => (i % width) - Math.floor(i / width);
+  for (const i of region) {
+    if (sum(i) < sum(topLeft)) topLeft = i;
+    if (sum(i) > sum(bottomRight)) bottomRight = i;
+    if (diff(i) > diff(topRight)) topRight = i;
+    if (diff(i) < diff(bottomLeft)) bottomLeft = i;
+  }
+
+  const point = (i: number): Point => ({ x: i % width, y: Math.floor(i / width) });
+  const quad: Quad = [point(topLeft), point(topRight), point(bottomRight), point(bottomLeft)];
+  const share = quadArea(quad) / (width * height);
+  return isConvex(quad) && share >= MIN_PAGE_AREA && share <= MAX_PAGE_AREA ? quad : null;
+};
+
+export const scaleQuad = (quad: Quad, factor: number): Quad =>
+  quad.map(p => ({ x: p.x * factor, y: p.y * factor })) as Quad;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Output size from the longer of each pair of opposite edges
+export const quadSize = (quad: Quad, maxSide: number) => {
+  const [tl, tr, br, bl] = quad;
+  const width = Math.max(distance(tl, tr), distance(bl, br));
+  const height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Projective map from the unit square onto the quad (Heckbert's closed form)
+const squareToQuad = ([p0, p1, p2, p3]: Quad) => {
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  let g = 0;
+  let h = 0;
+  if (dx3 !== 0 || dy3 !== 0) {
+    const det = dx1 * dy2 - dx2 * dy1;
+    g = (dx3 * dy2 - dx2 * dy3) / det;
+    h = (dx1 * dy3 - dx3 * dy1) / det;
+  }
+  const a = p1.x - p0.x + g * p1.x;
+  const b = p3.x - p0.x + h * p3.x;
+  const d = p1.y - p0.y + g * p1.y;
+  const e = p3.y - p0.y + h * p3.y;
+
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w };
+  };
+};
+
+// Flatten the quad in source to a width x height rectangle (bilinear sampling)
+export const warpPerspective = (source: ImageData, quad: Quad, width: number, height: number): ImageData => {
+  const map = squareToQuad(quad);
+  const out = new ImageData(width, height);
+  const { data: src, width: sw, height: sh } = source;
+  const dst = out.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = map((x + 0.5) / width, (y + 0.5) / height);
+      const sx = Math.min(sw - 1.001, Math.max(0, p.x - 0.5));
+      const sy = Math.min(sh - 1.001, Math.max(0, p.y - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + sw * 4;
+      const i11 = i01 + 4;
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        dst[o + c] = top + (bottom - top) * fy;
+      }
+      dst[o + 3] = 255;
+    }
+  }
+  return out;
+};
@@ -0,0 +1,131 @@
+import type { PreprocessConfig } from './types';
+
+// Pixel operations on ImageData. No DOM access, so this runs unchanged on the
+// main thread or inside the preprocessing worker.
+
+const luminance = (data: Uint8ClampedArray, i: number) =>
+  (data[i] * 77 + data[i + 1] * 150 + data[i + 2] * 29) >> 8;
+
+export const toGrayscale = (image: ImageData): void => {
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const y = luminance(data, i);
+    data[i] = data[i + 1] = data[i + 2] = y;
+  }
+};
+
+// Stretch the 1st-99th percentile of luminance to the full 0-255 range
+export const autoContrast = (image: ImageData, clipPercent = 1): void => {
+  const { data } = image;
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) histogram[luminance(data, i)]++;
+
+  const pixels = data.length / 4;
+  const clip = (pixels * clipPercent) / 100;
+  let low = 0;
+  let high = 255;
+  for (let sum = 0; low < 255 && sum + histogram[low] <= clip; low++) sum += histogram[low];
+  for (let sum = 0; high > 0 && sum + histogram[high] <= clip; high--) sum += histogram[high];
+  if (high - low < 8) return; // Flat frame (lens covered) - stretching only amplifies noise
+
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) lut[v] = ((v - low) * 255) / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+};
+
+// 3x3 sharpening kernel [0 -1 0; -1 5 -1; 0 -1 0] on every channel
+export const sharpen = (image: ImageData): void => {
+  const { data, width, height } = image;
+  const source = new Uint8ClampedArray(data);
+  const row = width * 4;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * row + x * 4;
+      for (let c = 0; c < 3; c++) {
+        const k = i + c;
+        data[k] = 5 * source[k] - source[k - 4] - source[k + 4] - source[k - row] - source[k + row];
+      }
+    }
+  }
+};
+
+// Bradley adaptive threshold: each pixel is compared with the mean of its
+// neighbourhood, so shadows and glare across a label don't wipe out bars
+export const binarize = (image: ImageData, windowFraction = 1 / 8, sensitivity = 0.15): void => {
+  const { data, width, height } = image;
+  const integral = new Float64Array((width + 1) * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += luminance(data, (y * width + x) * 4);
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(4, Math.round((width * windowFraction) / 2));
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - half);
+    const y2 = Math.min(height - 1, y + half);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - half);
+      const x2 = Math.min(width - 1, x + half);
+      const count = (x2 - x1 + 1) * (y2 - y1 + 1);
+      const sum = integral[(y2 + 1) * (width + 1) + x2 + 1] - integral[y1 * (width + 1) + x2 + 1]
+        - integral[(y2 + 1) * (width + 1) + x1] + integral[y1 * (width + 1) + x1];
+
+      const i = (y * width + x) * 4;
+      const value = luminance(data, i) * count <= sum * (1 - sensitivity) ? 0 : 255;
+      data[i] = data[i + 1] = data[i + 2] = value;
+    }
+  }
+};
+
+const MAX_SKEW_DEGREES = 30;
+const MIN_SKEW_DEGREES = 1;
+const MIN_COHERENCE = 0.3;
+
+// Dominant edge orientation from the gradient structure tensor. Barcode bars
+// and text lines both give strongly oriented gradients; the angle that brings
+// them back to vertical/horizontal is the skew. Returns 0 when unsure.
+export const estimateSkew = (image: ImageData): number => {
+  const { data, width, height } = image;
+  const step = Math.max(1, Math.floor(Math.min(width, height) / 200)); // Sample ~200px across
+  let jxx = 0;
+  let jyy = 0;
+  let jxy = 0;
+
+  for (let y = step; y < height - step; y += step) {
+    for (let x = step; x < width - step; x += step) {
+      const gx = luminance(data, (y * width + x + step) * 4) - luminance(data, (y * width + x - step) * 4);
+      const gy = luminance(data, ((y + step) * width + x) * 4) - luminance(data, ((y - step) * width + x) * 4);
+      jxx += gx * gx;
+      jyy += gy * gy;
+      jxy += gx * gy;
+    }
+  }
+
+  const total = jxx + jyy;
+  if (total === 0) return 0;
+  const coherence = Math.sqrt((jxx - jyy) ** 2 + 4 * jxy * jxy) / total;
+  if (coherence < MIN_COHERENCE) return 0;
+
+  // Gradient angle folded into [-45, 45): 0 for vertical bars and for horizontal text
+  let degrees = (0.5 * Math.atan2(2 * jxy, jxx - jyy) * 180) / Math.PI;
+  degrees = ((degrees + 45) % 90 + 90) % 90 - 45;
+
+  return Math.abs(degrees) >= MIN_SKEW_DEGREES && Math.abs(degrees) <= MAX_SKEW_DEGREES ? degrees : 0;
+};
+
+// Pixel filters in a fixed order; cropping and rotation happen on the canvas before this
+export const applyFilters = (image: ImageData, config: PreprocessConfig): void => {
+  if (config.grayscale || config.binarize) toGrayscale(image);
+  if (config.autoContrast) autoContrast(image);
+  if (config.sharpen) sharpen(image);
+  if (config.binarize) binarize(image);
+};
@@ -0,0 +1,59 @@
+import { applyFilters, estimateSkew } from './pipeline';
+import type { CropRegion, PreprocessConfig } from './types';
+
+// Crop, deskew and filter one frame on any 2D canvas implementation
+// (HTMLCanvasElement on the main thread, OffscreenCanvas in the worker)
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+type AnyContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type CanvasFactory = (width: number, height: number) => AnyCanvas;
+
+// Decoders and OCR gain nothing above this; keeps worker passes short
+const MAX_OUTPUT_WIDTH = 1280;
+
+const context2d = (canvas: AnyCanvas): AnyContext =>
+  canvas.getContext('2d', { willReadFrequently: true }) as AnyContext;
+
+export const renderProcessed = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  region: CropRegion | null,
+  config: PreprocessConfig,
+  createCanvas: CanvasFactory
+): { canvas: AnyCanvas; skewDegrees: number } => {
+  const crop = region ?? { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+  const scale = Math.min(1, MAX_OUTPUT_WIDTH / crop.width);
+  const width = Math.max(1, Math.round(crop.width * scale));
+  const height = Math.max(1, Math.round(crop.height * scale));
+
+  let canvas = createCanvas(width, height);
+  let ctx = context2d(canvas);
+  ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+
+  let skewDegrees = 0;
+  if (config.deskew) {
+    skewDegrees = estimateSkew(ctx.getImageData(0, 0, width, height));
+    if (skewDegrees !== 0) {
+      const rotated = createCanvas(width, height);
+      const rotatedCtx = context2d(rotated);
+      // White fill so the corners uncovered by rotation read as quiet zone, not bars
+      rotatedCtx.fillStyle = '#fff';
+      rotatedCtx.fillRect(0, 0, width, height);
+      rotatedCtx.translate(width / 2, height / 2);
+      rotatedCtx.rotate((-skewDegrees * Math.PI) / 180);
+      rotatedCtx.drawImage(canvas, -width / 2, -height / 2);
+      canvas = rotated;
+      ctx = rotatedCtx;
+    }
+  }
+
+  if (config.grayscale || config.autoContrast || config.sharpen || config.binarize) {
+    const image = ctx.getImageData(0, 0, width, height);
+    applyFilters(image, config);
+    ctx.putImageData(image, 0, 0);
+  }
+
+  return { canvas, skewDegrees };
+};
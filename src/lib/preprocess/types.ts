@@ -0,0 +1,26 @@
+// Frame preprocessing before decoding and OCR
+
+export interface PreprocessConfig {
+  enabled: boolean;
+  cropToFrame: boolean;   // Only process what's inside the on-screen scanner frame
+  grayscale: boolean;
+  autoContrast: boolean;  // Histogram stretch - rescues dim and washed-out frames
+  sharpen: boolean;
+  binarize: boolean;      // Adaptive threshold - evens out glare on shrink-wrap
+  deskew: boolean;        // Rotate tilted codes/text back to level
+  debugView: boolean;     // Show the processed frame over the camera view
+}
+
+// Crop rectangle in source (video) pixels
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedFrame {
+  canvas: HTMLCanvasElement;
+  skewDegrees: number;    // Rotation applied by deskew (0 when off or level)
+  durationMs: number;
+}
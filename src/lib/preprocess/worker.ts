@@ -0,0 +1,36 @@
+import { renderProcessed } from './render';
+import type { CropRegion, PreprocessConfig } from './types';
+
+// Preprocessing off the main thread so the camera preview never stutters
+
+export interface PreprocessRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  region: CropRegion | null;
+  config: PreprocessConfig;
+}
+
+export interface PreprocessResponse {
+  id: number;
+  bitmap?: ImageBitmap;
+  skewDegrees?: number;
+  error?: string;
+}
+
+self.onmessage = (event: MessageEvent<PreprocessRequest>) => {
+  const { id, bitmap, region, config } = event.data;
+  try {
+    const { canvas, skewDegrees } = renderProcessed(
+      bitmap, bitmap.width, bitmap.height, region, config,
+      (width, height) => new OffscreenCanvas(width, height)
+    );
+    bitmap.close();
+    const result = (canvas as OffscreenCanvas).transferToImageBitmap();
+    const response: PreprocessResponse = { id, bitmap: result, skewDegrees };
+    self.postMessage(response, { transfer: [result] });
+  } catch (err) {
+    bitmap.close();
+    const response: PreprocessResponse = { id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(response);
+  }
+};
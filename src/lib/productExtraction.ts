@@ -0,0 +1,142 @@
+import { RetryableError, requestVision } from './aiOcr';
+
+// Structured product extraction: ask the vision model for JSON and validate it
+// against a typed schema before it reaches the UI or downstream tooling
+
+export interface ProductInfo {
+  productName: string | null;
+  brand: string | null;
+  price: number | null;
+  currency: string | null;     // ISO 4217, e.g. EUR
+  netContent: string | null;   // Weight or volume as printed, e.g. "500 g"
+  expiryDate: string | null;   // YYYY-MM-DD
+  lotNumber: string | null;
+  ingredients: string[] | null;
+}
+
+export const PRODUCT_FIELD_LABELS: Record<keyof ProductInfo, string> = {
+  productName: 'Product',
+  brand: 'Brand',
+  price: 'Price',
+  currency: 'Currency',
+  netContent: 'Weight/Volume',
+  expiryDate: 'Expiry',
+  lotNumber: 'Lot',
+  ingredients: 'Ingredients',
+};
+
+export interface ValidationResult {
+  data: ProductInfo;
+  errors: string[]; // Fields that were present but failed validation (and were set to null)
+}
+
+export const optionalString = (value: unknown): string | null | undefined => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') return undefined;
+  return value.trim() || null;
+};
+
+export const parsePrice = (value: unknown): number | null | undefined => {
+  if (value === null || value === undefined) return null;
+  const price = typeof value === 'string' ? Number(value.replace(',', '.').replace(/[^\d.]/g, '')) : value;
+  return typeof price === 'number' && Number.isFinite(price) && price >= 0 ? price : undefined;
+};
+
+export const parseCurrency = (value: unknown): string | null | undefined => {
+  const text = optionalString(value);
+  if (!text) return text;
+  const code = text.toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : undefined;
+};
+
+export const parseDate = (value: unknown): string | null | undefined => {
+  const text = optionalString(value);
+  if (!text) return text;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return undefined;
+  const date = new Date(`${text}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(text) ? text : undefined;
+};
+
+const parseIngredients = (value: unknown): string[] | null | undefined => {
+  if (value === null || value === undefined) return null;
+  const list = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(list) || !list.every(item => typeof item === 'string')) return undefined;
+  const cleaned = list.map(item => item.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : null;
+};
+
+const FIELD_PARSERS: { [K in keyof ProductInfo]: (value: unknown) => ProductInfo[K] | undefined } = {
+  productName: optionalString,
+  brand: optionalString,
+  price: parsePrice,
+  currency: parseCurrency,
+  netContent: optionalString,
+  expiryDate: parseDate,
+  lotNumber: optionalString,
+  ingredients: parseIngredients,
+};
+
+export const validateProductInfo = (raw: unknown): ValidationResult | null => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null;
+
+  const source = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  const data = {} as Record<keyof ProductInfo, unknown>;
+
+  (Object.keys(FIELD_PARSERS) as (keyof ProductInfo)[]).forEach(field => {
+    const parsed = FIELD_PARSERS[field](source[field]);
+    if (parsed === undefined) {
+      errors.push(field);
+      data[field] = null;
+    } else {
+      data[field] = parsed;
+    }
+  });
+
+  return { data: data as ProductInfo, errors };
+};
+
+export const isEmptyProduct = (product: ProductInfo) =>
+  Object.values(product).every(value => value === null);
+
+// Models sometimes wrap JSON in ``` fences despite instructions
+export const parseJSONReply = (reply: string): unknown => {
+  const match = reply.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+};
+
+export const extractProductWithAI = async (base64Image: string): Promise<ProductInfo | null> => {
+  try {
+    const reply = await requestVision('product', base64Image, { maxTokens: 700, temperature: 0 });
+    const result = validateProductInfo(parseJSONReply(reply));
+
+    if (!result) {
+      console.warn('Product extraction returned no valid JSON:', reply);
+      return null;
+    }
+    if (result.errors.length > 0) {
+      console.warn('Product fields failed validation:', result.errors);
+    }
+
+    return isEmptyProduct(result.data) ? null : result.data;
+  } catch (err) {
+    if (err instanceof RetryableError) throw err;
+    console.error('Product extraction error:', err);
+    return null;
+  }
+};
+
+export const formatProductValue = (product: ProductInfo, field: keyof ProductInfo): string => {
+  const value = product[field];
+  if (value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (field === 'price' && typeof value === 'number') {
+    return product.currency ? `${value.toFixed(2)} ${product.currency}` : value.toFixed(2);
+  }
+  return String(value);
+};
@@ -0,0 +1,309 @@
+import type { ScanResult } from '../components/BarcodeScanner';
+import type { CatalogProduct } from './catalog';
+import { compilePattern } from './decoders';
+
+// User-defined scan rules: match a scan on format, value pattern, GS1 fields or
+// catalog lookup, then react with cues a picker notices without reading the
+// screen (sound, vibration, overlay flash) or act on it (copy, open a URL, reject).
+
+export type FeedbackSound = 'success' | 'warning' | 'error';
+export type FlashColor = 'green' | 'amber' | 'red';
+export type ProductField = 'name' | 'brand' | 'sku' | 'provider';
+
+export interface Gs1Condition {
+  ai: string;        // Must be present, e.g. "17"
+  pattern?: string;  // And, when set, its value must match
+}
+
+// Every condition that is set must hold; unset conditions match anything
+export interface RuleMatch {
+  formats?: string[];               // Any of these formats
+  pattern?: string;                 // Regex tested against the barcode value
+  gs1?: Gs1Condition[];
+  lookup?: 'found' | 'not-found';   // Catalog lookup result for the GTIN
+  product?: { field: ProductField; pattern: string };
+  negate?: boolean;                 // Fire when the scan does NOT match - "wrong item" rules
+}
+
+export interface RuleActions {
+  sound?: FeedbackSound;
+  vibrate?: boolean;
+  flash?: FlashColor;
+  copy?: boolean;
+  openUrl?: string;  // Template with {value}, {format}, {gtin} and {ai:NN} placeholders
+  reject?: string;   // Reason; rejected scans are shown but not saved, counted or sent
+}
+
+export interface ScanRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: RuleMatch;
+  actions: RuleActions;
+  stop: boolean;     // Skip the rules below once this one fires
+}
+
+export const FEEDBACK_SOUNDS: FeedbackSound[] = ['success', 'warning', 'error'];
+export const FLASH_COLORS: FlashColor[] = ['green', 'amber', 'red'];
+export const PRODUCT_FIELDS: ProductField[] = ['name', 'brand', 'sku', 'provider'];
+
+const RULES_KEY = 'scan-rules';
+const EXPORT_VERSION = 1;
+
+export const loadRules = (): ScanRule[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RULES_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRules = (rules: ScanRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export const createRule = (): ScanRule => ({
+  id: crypto.randomUUID(),
+  name: '',
+  enabled: true,
+  match: {},
+  actions: {},
+  stop: false,
+});
+
+// Lookup conditions can only be judged once the catalog has answered
+export const needsLookup = (rule: ScanRule) =>
+  rule.match.lookup !== undefined || rule.match.product !== undefined;
+
+export const rulesNeedLookup = (rules: ScanRule[]) => rules.some(rule => rule.enabled && needsLookup(rule));
+
+const testPattern = (pattern: string | undefined, value: string | undefined) => {
+  if (!pattern) return true;
+  const regex = compilePattern(pattern);
+  return regex !== null && value !== undefined && regex.test(value);
+};
+
+const conditionsHold = (match: RuleMatch, scan: ScanResult, catalog: CatalogProduct | null): boolean => {
+  const { value, format } = scan.barcode!;
+  if (match.formats?.length && !match.formats.includes(format)) return false;
+  if (!testPattern(match.pattern, value)) return false;
+
+  if (match.gs1?.length) {
+    const fields = scan.parsed?.kind === 'gs1' ? scan.parsed.fields : [];
+    const ok = match.gs1.every(condition => {
+      const field = fields.find(f => f.ai === condition.ai);
+      return field !== undefined && testPattern(condition.pattern, field.value);
+    });
+    if (!ok) return false;
+  }
+
+  if (match.lookup === 'found' && !catalog) return false;
+  if (match.lookup === 'not-found' && catalog) return false;
+  if (match.product && !testPattern(match.product.pattern, catalog?.[match.product.field])) return false;
+  return true;
+};
+
+// catalog: undefined = not looked up (lookup rules are skipped), null = unknown product
+export const evaluateRules = (
+  rules: ScanRule[],
+  scan: ScanResult,
+  catalog?: CatalogProduct | null
+): ScanRule[] => {
+  if (!scan.barcode) return []; // Rules only apply to barcodes, not plain OCR text
+
+  const fired: ScanRule[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    if (needsLookup(rule) && catalog === undefined) continue;
+    if (conditionsHold(rule.match, scan, catalog ?? null) === Boolean(rule.match.negate)) continue;
+    fired.push(rule);
+    if (rule.stop) break;
+  }
+  return fired;
+};
+
+// Earlier rules win when several set the same action
+export const mergeActions = (rules: ScanRule[]): RuleActions =>
+  rules.reduceRight<RuleActions>((actions, rule) => ({ ...actions, ...rule.actions }), {});
+
+// Rules can come from shared JSON files, so only plain web pages may be opened
+// (no javascript:, data: or app-specific schemes)
+export const isWebUrl = (url: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const fillUrlTemplate = (template: string, scan: ScanResult, gtin: string | null): string =>
+  template.replace(/\{(value|format|gtin|ai:(\d{2,4}))\}/g, (_, key: string, ai?: string) => {
+    let text = '';
+    if (ai) {
+      const fields = scan.parsed?.kind === 'gs1' ? scan.parsed.fields : [];
+      text = fields.find(f => f.ai === ai)?.value ?? '';
+    } else if (key === 'gtin') {
+      text = gtin ?? '';
+    } else {
+      text = scan.barcode?.[key as 'value' | 'format'] ?? '';
+    }
+    return encodeURIComponent(text);
+  });
+
+// Cues
+
+const TONES: Record<FeedbackSound, { frequency: number; ms: number; type: OscillatorType }[]> = {
+  success: [{ frequency: 1320, ms: 90, type: 'sine' }],
+  warning: [{ frequency: 740, ms: 110, type: 'triangle' }, { frequency: 740, ms: 110, type: 'triangle' }],
+  error: [{ frequency: 220, ms: 380, type: 'square' }],  // Harsh and long: hard to miss in a warehouse
+};
+
+const VIBRATION: Record<FeedbackSound, number[]> = {
+  success: [60],
+  warning: [120, 80, 120],
+  error: [300, 100, 300, 100, 300],
+};
+
+let audioContext: AudioContext | null = null;
+
+export const playCue = (sound: FeedbackSound) => {
+  let context: AudioContext;
+  try {
+    context = audioContext ??= new AudioContext();
+  } catch (err) {
+    console.warn('Could not play scan cue:', err);
+    return;
+  }
+
+  // A context created outside a user gesture starts suspended, and its clock
+  // stands still until resumed
+  context.resume()
+    .then(() => {
+      let at = context.currentTime;
+      for (const tone of TONES[sound]) {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.type = tone.type;
+        oscillator.frequency.value = tone.frequency;
+        gain.gain.setValueAtTime(0.2, at);
+        gain.gain.exponentialRampToValueAtTime(0.001, at + tone.ms / 1000);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(at);
+        oscillator.stop(at + tone.ms / 1000);
+        at += tone.ms / 1000 + 0.07;
+      }
+    })
+    .catch(err => console.warn('Could not play scan cue:', err));
+};
+
+const flashListeners = new Set<(color: FlashColor) => void>();
+
+// The scanner overlay listens, so rules can flash it from anywhere
+export const subscribeFlash = (listener: (color: FlashColor) => void) => {
+  flashListeners.add(listener);
+  return () => {
+    flashListeners.delete(listener);
+  };
+};
+
+export const flashOverlay = (color: FlashColor) => {
+  flashListeners.forEach(listener => listener(color));
+};
+
+export const runRuleActions = (actions: RuleActions, scan: ScanResult, gtin: string | null) => {
+  if (actions.sound) playCue(actions.sound);
+  if (actions.vibrate) navigator.vibrate?.(VIBRATION[actions.sound ?? (actions.reject ? 'error' : 'success')]);
+  if (actions.flash) flashOverlay(actions.flash);
+  if (actions.copy && scan.barcode) {
+    navigator.clipboard.writeText(scan.barcode.value).catch(err => console.warn('Auto-copy failed:', err));
+  }
+  if (actions.openUrl) {
+    const url = fillUrlTemplate(actions.openUrl, scan, gtin);
+    if (!isWebUrl(url)) {
+      console.warn('Rule URL is not an http(s) address, not opened:', url);
+    } else {
+      // Not a user gesture, so popup blockers may stop this until the site is allowed.
+      // 'noopener' would make window.open return null even when it worked, so
+      // the opener link is cut by hand instead
+      const opened = window.open(url, '_blank');
+      if (opened) opened.opener = null;
+      else console.warn('Rule URL was blocked by the popup blocker');
+    }
+  }
+};
+
+// Import / export
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const checkPattern = (ruleName: string, pattern: string | undefined) => {
+  if (pattern && !compilePattern(pattern)) throw new Error(`Rule "${ruleName}": invalid pattern ${pattern}`);
+  return pattern;
+};
+
+const checkUrl = (ruleName: string, url: string | undefined) => {
+  if (url && !isWebUrl(url)) throw new Error(`Rule "${ruleName}": URL must start with http:// or https://`);
+  return url;
+};
+
+const normalizeRule = (raw: unknown, index: number): ScanRule => {
+  if (typeof raw !== 'object' || raw === null) throw new Error(`Rule ${index + 1} is not an object`);
+  const source = raw as Record<string, unknown>;
+  const name = optionalString(source.name) ?? `Rule ${index + 1}`;
+  const match = (typeof source.match === 'object' && source.match ? source.match : {}) as Record<string, unknown>;
+  const actions = (typeof source.actions === 'object' && source.actions ? source.actions : {}) as Record<string, unknown>;
+  const product = match.product as { field?: unknown; pattern?: unknown } | undefined;
+
+  return {
+    id: optionalString(source.id) ?? crypto.randomUUID(),
+    name,
+    enabled: source.enabled !== false,
+    stop: source.stop === true,
+    match: {
+      formats: Array.isArray(match.formats) ? match.formats.filter((f): f is string => typeof f === 'string') : undefined,
+      pattern: checkPattern(name, optionalString(match.pattern)),
+      gs1: Array.isArray(match.gs1)
+        ? match.gs1
+          .filter((c): c is Gs1Condition => typeof c?.ai === 'string' && /^\d{2,4}$/.test(c.ai))
+          .map(c => ({ ai: c.ai, pattern: checkPattern(name, optionalString(c.pattern)) }))
+        : undefined,
+      lookup: match.lookup === 'found' || match.lookup === 'not-found' ? match.lookup : undefined,
+      product: product && PRODUCT_FIELDS.includes(product.field as ProductField) && optionalString(product.pattern)
+        ? { field: product.field as ProductField, pattern: checkPattern(name, product.pattern as string)! }
+        : undefined,
+      negate: match.negate === true || undefined,
+    },
+    actions: {
+      sound: FEEDBACK_SOUNDS.includes(actions.sound as FeedbackSound) ? actions.sound as FeedbackSound : undefined,
+      vibrate: actions.vibrate === true || undefined,
+      flash: FLASH_COLORS.includes(actions.flash as FlashColor) ? actions.flash as FlashColor : undefined,
+      copy: actions.copy === true || undefined,
+      openUrl: checkUrl(name, optionalString(actions.openUrl)),
+      reject: optionalString(actions.reject),
+    },
+  };
+};
+
+// Accepts an export file ({ version, rules }) or a bare array of rules
+export const parseRulesJson = (text: string): ScanRule[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  const list = Array.isArray(data) ? data : (data as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) throw new Error('Expected a list of rules');
+  return list.map(normalizeRule);
+};
+
+export const rulesToJson = (rules: ScanRule[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, rules }, null, 2);
+
+// Imported rules replace ones with the same id and are appended otherwise
+export const mergeRules = (existing: ScanRule[], imported: ScanRule[]): ScanRule[] => [
+  ...existing.map(rule => imported.find(i => i.id === rule.id) ?? rule),
+  ...imported.filter(rule => !existing.some(e => e.id === rule.id)),
+];
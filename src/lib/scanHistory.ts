@@ -0,0 +1,78 @@
+import type { ScanResult } from '../components/BarcodeScanner';
+import { SCANS_STORE, withStore } from './db';
+
+// Durable scan history backed by IndexedDB so shift data survives reloads
+
+export interface HistoryEntry extends ScanResult {
+  id: number;
+  timestamp: number; // ms since epoch
+}
+
+export interface HistoryFilter {
+  search?: string;  // Matches barcode value or extracted text (case-insensitive)
+  format?: string;  // Exact barcode format, empty = any
+  from?: number;    // Inclusive lower bound (ms)
+  to?: number;      // Inclusive upper bound (ms)
+}
+
+export const addHistoryEntry = async (result: ScanResult, timestamp = Date.now()): Promise<HistoryEntry> => {
+  const record = { ...result, timestamp };
+  const id = await withStore(SCANS_STORE, 'readwrite', store => store.add(record));
+  return { ...record, id: id as number };
+};
+
+export const queryHistory = async (filter: HistoryFilter = {}): Promise<HistoryEntry[]> => {
+  const range = filter.from !== undefined || filter.to !== undefined
+    ? IDBKeyRange.bound(filter.from ?? 0, filter.to ?? Number.MAX_SAFE_INTEGER)
+    : undefined;
+
+  const entries = (await withStore(SCANS_STORE, 'readonly', store =>
+    store.index('timestamp').getAll(range)
+  )) as HistoryEntry[];
+
+  const search = filter.search?.trim().toLowerCase();
+
+  return entries
+    .filter(entry => !filter.format || entry.barcode?.format === filter.format)
+    .filter(entry => !search
+      || entry.barcode?.value.toLowerCase().includes(search)
+      || entry.text?.toLowerCase().includes(search))
+    .reverse(); // Newest first
+};
+
+export const updateHistoryEntry = async (id: number, patch: Partial<ScanResult>): Promise<void> => {
+  const entry = (await withStore(SCANS_STORE, 'readonly', store => store.get(id))) as HistoryEntry | undefined;
+  if (!entry) return;
+  await withStore(SCANS_STORE, 'readwrite', store => store.put({ ...entry, ...patch }));
+};
+
+// Apply a patch to the history entries created for one queued OCR job
+// Resolves with the entries as updated
+export const updateQueuedEntries = async (queueId: number, patch: Partial<ScanResult>): Promise<HistoryEntry[]> => {
+  const entries = (await withStore(SCANS_STORE, 'readonly', store =>
+    store.index('queueId').getAll(queueId)
+  )) as HistoryEntry[];
+  const updated = entries.map(entry => ({ ...entry, ...patch }));
+
+  await withStore(SCANS_STORE, 'readwrite', store => {
+    updated.forEach(entry => store.put(entry));
+  });
+  return updated;
+};
+
+export const listHistoryFormats = async (): Promise<string[]> => {
+  const entries = (await withStore(SCANS_STORE, 'readonly', store => store.getAll())) as HistoryEntry[];
+  const formats = new Set<string>();
+  entries.forEach(entry => entry.barcode?.format && formats.add(entry.barcode.format));
+  return [...formats].sort();
+};
+
+export const deleteHistoryEntries = async (ids: number[]): Promise<void> => {
+  await withStore(SCANS_STORE, 'readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore(SCANS_STORE, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,11 @@
+// Register the app-shell service worker (public/sw.js) for offline use.
+// Skipped in dev so it doesn't fight Vite's module server and HMR.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .catch(err => console.error('Service worker registration failed:', err));
+  });
+};
@@ -0,0 +1,179 @@
+import type { CropRegion } from './preprocess';
+
+// Frame stability detection for auto-capture OCR: fire only when the camera is
+// steady, the image is in focus, and the view differs from the last capture.
+// Works on a small grayscale copy of the frame so it can run several times a second.
+
+export type StabilityStatus =
+  | 'moving'     // Frame-to-frame motion above threshold
+  | 'blurry'     // Steady but out of focus (or nothing with edges in view)
+  | 'unchanged'  // Same content as the last capture
+  | 'steady'     // Holding still, waiting out the hold time
+  | 'ready';     // Held still long enough - capture now
+
+export interface StabilityState {
+  status: StabilityStatus;
+  motion: number;     // Mean absolute difference to the previous sample, 0-1
+  sharpness: number;  // Variance of the Laplacian on the sample
+  progress: number;   // Share of the hold time completed, 0-1
+}
+
+export interface StabilityOptions {
+  holdMs: number;           // How long the view must stay steady
+  motionThreshold: number;  // Max mean pixel change between samples (0-1)
+  minSharpness: number;     // Min Laplacian variance to count as in focus
+  minChange: number;        // Min differing hash bits (of 64) versus the last capture
+}
+
+export const DEFAULT_STABILITY: StabilityOptions = {
+  holdMs: 700,
+  motionThreshold: 0.035,  // Sensor noise alone sits around 0.01
+  minSharpness: 40,
+  minChange: 12,
+};
+
+const SAMPLE_WIDTH = 160;
+
+interface GraySample {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const sampleGray = (
+  video: HTMLVideoElement,
+  region: CropRegion | null,
+  canvas: HTMLCanvasElement
+): GraySample | null => {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return null;
+
+  const { x, y, width, height } = region ?? { x: 0, y: 0, width: videoWidth, height: videoHeight };
+  const sampleHeight = Math.max(1, Math.round((SAMPLE_WIDTH * height) / width));
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = sampleHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(video, x, y, width, height, 0, 0, SAMPLE_WIDTH, sampleHeight);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, sampleHeight);
+  const gray = new Float32Array(SAMPLE_WIDTH * sampleHeight);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { data: gray, width: SAMPLE_WIDTH, height: sampleHeight };
+};
+
+const meanAbsDiff = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length / 255;
+};
+
+// Variance of the 4-neighbour Laplacian: high for crisp edges, low for blur
+export const laplacianVariance = ({ data, width, height }: GraySample): number => {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = data[i - width] + data[i + width] + data[i - 1] + data[i + 1] - 4 * data[i];
+      sum += value;
+      sumSq += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
+
+// 64-bit difference hash (9x8 block means, compare horizontal neighbours);
+// robust to exposure changes, so re-captures of the same page are caught
+export const differenceHash = ({ data, width, height }: GraySample): boolean[] => {
+  const cols = 9;
+  const rows = 8;
+  const blocks = new Float32Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    const y0 = Math.floor((row * height) / rows);
+    const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * height) / rows));
+    for (let col = 0; col < cols; col++) {
+      const x0 = Math.floor((col * width) / cols);
+      const x1 = Math.max(x0 + 1, Math.floor(((col + 1) * width) / cols));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += data[y * width + x];
+      }
+      blocks[row * cols + col] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  const bits: boolean[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols - 1; col++) {
+      bits.push(blocks[row * cols + col] < blocks[row * cols + col + 1]);
+    }
+  }
+  return bits;
+};
+
+const hammingDistance = (a: boolean[], b: boolean[]) =>
+  a.reduce((distance, bit, i) => distance + (bit !== b[i] ? 1 : 0), 0);
+
+export interface StabilityMonitor {
+  sample(video: HTMLVideoElement, region: CropRegion | null, now?: number): StabilityState | null;
+  // Remember the current view as captured, so it isn't captured again
+  markCaptured(): void;
+  reset(): void;
+}
+
+export const createStabilityMonitor = (options: Partial<StabilityOptions> = {}): StabilityMonitor => {
+  const { holdMs, motionThreshold, minSharpness, minChange } = { ...DEFAULT_STABILITY, ...options };
+  const canvas = document.createElement('canvas');
+  let previous: GraySample | null = null;
+  let currentHash: boolean[] | null = null;
+  let capturedHash: boolean[] | null = null;
+  let steadySince = 0;
+
+  return {
+    sample(video, region, now = performance.now()) {
+      const sample = sampleGray(video, region, canvas);
+      if (!sample) return null;
+
+      const motion = previous && previous.data.length === sample.data.length
+        ? meanAbsDiff(previous.data, sample.data)
+        : 1;
+      previous = sample;
+      const sharpness = laplacianVariance(sample);
+      currentHash = differenceHash(sample);
+
+      if (motion > motionThreshold) {
+        steadySince = 0;
+        return { status: 'moving', motion, sharpness, progress: 0 };
+      }
+      if (sharpness < minSharpness) {
+        // Autofocus is still hunting; restart the hold once it locks
+        steadySince = 0;
+        return { status: 'blurry', motion, sharpness, progress: 0 };
+      }
+      if (capturedHash && hammingDistance(currentHash, capturedHash) < minChange) {
+        return { status: 'unchanged', motion, sharpness, progress: 0 };
+      }
+
+      steadySince ||= now;
+      const progress = Math.min(1, (now - steadySince) / holdMs);
+      return { status: progress >= 1 ? 'ready' : 'steady', motion, sharpness, progress };
+    },
+    markCaptured() {
+      capturedHash = currentHash;
+      steadySince = 0;
+    },
+    reset() {
+      previous = null;
+      currentHash = null;
+      capturedHash = null;
+      steadySince = 0;
+    },
+  };
+};
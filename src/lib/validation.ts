@@ -0,0 +1,94 @@
+import { isValidGs1Key } from './payloads';
+import type { ParsedPayload } from './payloads';
+
+// Check-digit and format validation for decoded barcode values
+
+export interface BarcodeValidation {
+  checked: boolean;   // A check-digit scheme applied to this value
+  valid: boolean;     // Passed (always true when nothing could be checked)
+  scheme?: string;    // Which rule was applied, e.g. "EAN-13"
+  reason?: string;    // Why it failed
+}
+
+const UNCHECKED: BarcodeValidation = { checked: false, valid: true };
+
+const checked = (scheme: string, valid: boolean, reason = 'Check digit mismatch'): BarcodeValidation =>
+  valid ? { checked: true, valid, scheme } : { checked: true, valid, scheme, reason };
+
+const digitsOfLength = (value: string, ...lengths: number[]) =>
+  /^\d+$/.test(value) && lengths.includes(value.length);
+
+// UPC-E -> UPC-A expansion so the shared mod-10 check can be applied
+export const expandUpcE = (upcE: string): string | null => {
+  if (!/^[01]\d{7}$/.test(upcE)) return null;
+  const [numberSystem, d1, d2, d3, d4, d5, d6, check] = upcE.split('');
+  let body: string;
+  switch (d6) {
+    case '0': case '1': case '2':
+      body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+      break;
+    case '3':
+      body = `${d1}${d2}${d3}00000${d4}${d5}`;
+      break;
+    case '4':
+      body = `${d1}${d2}${d3}${d4}00000${d5}`;
+      break;
+    default:
+      body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+  return `${numberSystem}${body}${check}`;
+};
+
+export const isValidIsbn10 = (isbn: string): boolean => {
+  if (!/^\d{9}[\dX]$/i.test(isbn)) return false;
+  const sum = isbn
+    .toUpperCase()
+    .split('')
+    .reduce((acc, char, index) => acc + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+  return sum % 11 === 0;
+};
+
+const validateGs1Payload = (parsed: Extract<ParsedPayload, { kind: 'gs1' }>): BarcodeValidation => {
+  // GTIN, SSCC and GLN keys carry mod-10 check digits
+  const keys = parsed.fields.filter(field => /^(00|01|02|41\d)$/.test(field.ai));
+  if (keys.length === 0) return { checked: true, valid: true, scheme: 'GS1' };
+  const bad = keys.find(field => !isValidGs1Key(field.value));
+  return bad
+    ? { checked: true, valid: false, scheme: 'GS1', reason: `Invalid check digit in (${bad.ai}) ${bad.label}` }
+    : { checked: true, valid: true, scheme: 'GS1' };
+};
+
+export const validateBarcode = (value: string, format: string, parsed?: ParsedPayload): BarcodeValidation => {
+  if (parsed?.kind === 'gs1') return validateGs1Payload(parsed);
+
+  const isbn = value.match(/^ISBN[-\s]?([\dX-]{10,17})$/i)?.[1].replace(/-/g, '');
+  if (isbn?.length === 10) return checked('ISBN-10', isValidIsbn10(isbn));
+  if (isbn?.length === 13) return checked('ISBN-13', isValidGs1Key(isbn));
+
+  switch (format) {
+    case 'EAN_13':
+      if (!digitsOfLength(value, 13)) return checked('EAN-13', false, 'EAN-13 must be 13 digits');
+      return checked(/^97[89]/.test(value) ? 'ISBN-13' : 'EAN-13', isValidGs1Key(value));
+
+    case 'EAN_8':
+      if (!digitsOfLength(value, 8)) return checked('EAN-8', false, 'EAN-8 must be 8 digits');
+      return checked('EAN-8', isValidGs1Key(value));
+
+    case 'UPC_A':
+      if (!digitsOfLength(value, 12)) return checked('UPC-A', false, 'UPC-A must be 12 digits');
+      return checked('UPC-A', isValidGs1Key(value));
+
+    case 'UPC_E': {
+      const expanded = expandUpcE(value);
+      if (!expanded) return checked('UPC-E', false, 'UPC-E must be 8 digits starting with 0 or 1');
+      return checked('UPC-E', isValidGs1Key(expanded));
+    }
+
+    case 'ITF':
+      // Only ITF-14 (GTIN-14 on cases) has a defined check digit
+      return digitsOfLength(value, 14) ? checked('ITF-14', isValidGs1Key(value)) : UNCHECKED;
+
+    default:
+      return UNCHECKED;
+  }
+};
@@ -0,0 +1,277 @@
+import type { ScanResult } from '../components/BarcodeScanner';
+import { WEBHOOK_STORE, withStore } from './db';
+
+// Push every accepted scan to user-configured HTTP endpoints (ERP intake, Zapier, ...).
+// Requests go straight from the browser, so endpoints must allow CORS from this origin.
+// Deliveries still owed are kept in IndexedDB, so retries survive a reload.
+
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  headers: Record<string, string>;
+  secret?: string; // When set, requests carry an HMAC-SHA256 signature
+}
+
+export interface WebhookConfig {
+  endpoints: WebhookEndpoint[];
+  maxAttempts: number;   // Including the first try
+  baseDelayMs: number;   // Backoff doubles after each failed attempt
+}
+
+// 'scan-update' resends a queued scan once the AI has read it; same queueId, new fields
+export type WebhookEvent = 'scan' | 'scan-update';
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  deliveryId: string;
+  sentAt: string;
+  scan: ScanResult;
+}
+
+// One payload still owed to one endpoint
+interface PendingDelivery {
+  key: string;            // deliveryId:endpointId
+  endpointId: string;
+  payload: WebhookPayload;
+  attempt: number;        // Next attempt to make, from 1
+  nextAttemptAt: number;  // ms since epoch
+}
+
+export type DeliveryStatus = 'delivered' | 'retrying' | 'failed';
+
+export interface DeliveryLogEntry {
+  deliveryId: string;
+  endpointId: string;
+  endpointName: string;
+  url: string;
+  status: DeliveryStatus;
+  attempt: number;
+  httpStatus?: number;
+  error?: string;
+  summary: string;   // Barcode value or start of the text, for the log table
+  timestamp: number;
+}
+
+export const SIGNATURE_HEADER = 'X-Scanner-Signature';
+export const TIMESTAMP_HEADER = 'X-Scanner-Timestamp';
+export const DELIVERY_HEADER = 'X-Scanner-Delivery';
+
+export const DEFAULT_WEBHOOK_CONFIG: WebhookConfig = {
+  endpoints: [],
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+};
+
+const CONFIG_KEY = 'webhook-config';
+const LOG_KEY = 'webhook-log';
+const LOG_LIMIT = 100;
+
+export const loadWebhookConfig = (): WebhookConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    return saved ? { ...DEFAULT_WEBHOOK_CONFIG, ...saved } : DEFAULT_WEBHOOK_CONFIG;
+  } catch {
+    return DEFAULT_WEBHOOK_CONFIG;
+  }
+};
+
+export const saveWebhookConfig = (config: WebhookConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+export const createEndpoint = (url = ''): WebhookEndpoint => ({
+  id: crypto.randomUUID(),
+  name: '',
+  url,
+  enabled: true,
+  headers: {},
+});
+
+// "Key: Value" per line <-> header map, for the settings textarea
+export const parseHeaderLines = (text: string): Record<string, string> =>
+  Object.fromEntries(text
+    .split(/\r?\n/)
+    .map(line => line.match(/^\s*([^:\s]+)\s*:\s*(.*?)\s*$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => [match[1], match[2]]));
+
+export const formatHeaderLines = (headers: Record<string, string>): string =>
+  Object.entries(headers).map(([key, value]) => `${key}: ${value}`).join('\n');
+
+// Delivery log, newest first, kept in localStorage so it survives reloads
+let log: DeliveryLogEntry[] = (() => {
+  try {
+    return JSON.parse(localStorage.getItem(LOG_KEY) || '[]');
+  } catch {
+    return [];
+  }
+})();
+const logListeners = new Set<(entries: DeliveryLogEntry[]) => void>();
+
+const writeLog = (entry: DeliveryLogEntry) => {
+  // One row per delivery and endpoint; retries update it in place
+  log = [entry, ...log.filter(e => !(e.deliveryId === entry.deliveryId && e.endpointId === entry.endpointId))]
+    .slice(0, LOG_LIMIT);
+  localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  logListeners.forEach(listener => listener(log));
+};
+
+export const getDeliveryLog = (): DeliveryLogEntry[] => log;
+
+export const subscribeDeliveryLog = (listener: (entries: DeliveryLogEntry[]) => void) => {
+  logListeners.add(listener);
+  return () => {
+    logListeners.delete(listener);
+  };
+};
+
+export const clearDeliveryLog = () => {
+  log = [];
+  localStorage.removeItem(LOG_KEY);
+  logListeners.forEach(listener => listener(log));
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Signature covers "<timestamp>.<body>" so a captured request can't be replayed later
+export const signPayload = async (secret: string, timestamp: string, body: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return `sha256=${toHex(signature)}`;
+};
+
+const summarize = (scan: ScanResult) =>
+  scan.barcode?.value || scan.text?.slice(0, 40) || '(empty)';
+
+// 4xx other than 408/429 means the request itself is wrong; retrying won't help
+const isRetryable = (status: number) => status >= 500 || status === 408 || status === 429;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Delivery still works without storage (private mode, quota); it just won't survive a reload
+const savePending = (pending: PendingDelivery) =>
+  withStore(WEBHOOK_STORE, 'readwrite', store => store.put(pending))
+    .catch(err => console.warn('Could not persist webhook delivery:', err));
+
+const removePending = (key: string) =>
+  withStore(WEBHOOK_STORE, 'readwrite', store => store.delete(key))
+    .catch(err => console.warn('Could not remove webhook delivery:', err));
+
+// Keys being worked on in this page, so a resume doesn't send them twice
+const inFlight = new Set<string>();
+
+const deliverTo = async (endpoint: WebhookEndpoint, pending: PendingDelivery, config: WebhookConfig) => {
+  inFlight.add(pending.key);
+  try {
+    await attemptDelivery(endpoint, pending, config);
+  } finally {
+    inFlight.delete(pending.key);
+  }
+};
+
+const attemptDelivery = async (endpoint: WebhookEndpoint, pending: PendingDelivery, config: WebhookConfig) => {
+  const { payload } = pending;
+  const body = JSON.stringify(payload);
+  const base = {
+    deliveryId: payload.deliveryId,
+    endpointId: endpoint.id,
+    endpointName: endpoint.name || endpoint.url,
+    url: endpoint.url,
+    summary: summarize(payload.scan),
+  };
+
+  for (let attempt = pending.attempt; attempt <= config.maxAttempts; attempt++) {
+    await sleep(Math.max(0, pending.nextAttemptAt - Date.now()));
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...endpoint.headers,
+      [DELIVERY_HEADER]: payload.deliveryId,
+      [TIMESTAMP_HEADER]: timestamp,
+    };
+    if (endpoint.secret) {
+      headers[SIGNATURE_HEADER] = await signPayload(endpoint.secret, timestamp, body);
+    }
+
+    let httpStatus: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await fetch(endpoint.url, { method: 'POST', headers, body });
+      httpStatus = response.status;
+      if (response.ok) {
+        writeLog({ ...base, status: 'delivered', attempt, httpStatus, timestamp: Date.now() });
+        await removePending(pending.key);
+        return;
+      }
+      error = `HTTP ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const retry = attempt < config.maxAttempts && (httpStatus === undefined || isRetryable(httpStatus));
+    writeLog({ ...base, status: retry ? 'retrying' : 'failed', attempt, httpStatus, error, timestamp: Date.now() });
+    if (!retry) {
+      await removePending(pending.key);
+      return;
+    }
+
+    // Exponential backoff with jitter so a recovering server isn't hit all at once
+    pending = {
+      ...pending,
+      attempt: attempt + 1,
+      nextAttemptAt: Date.now() + config.baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() / 2),
+    };
+    await savePending(pending);
+  }
+  await removePending(pending.key);
+};
+
+// Fire-and-forget: resolves once every enabled endpoint succeeded or gave up
+export const deliverScan = async (
+  scan: ScanResult,
+  config: WebhookConfig = loadWebhookConfig(),
+  event: WebhookEvent = 'scan'
+): Promise<void> => {
+  const endpoints = config.endpoints.filter(endpoint => endpoint.enabled && endpoint.url);
+  if (endpoints.length === 0) return;
+
+  const payload: WebhookPayload = {
+    event,
+    deliveryId: crypto.randomUUID(),
+    sentAt: new Date().toISOString(),
+    scan,
+  };
+
+  await Promise.all(endpoints.map(async endpoint => {
+    const pending: PendingDelivery = {
+      key: `${payload.deliveryId}:${endpoint.id}`,
+      endpointId: endpoint.id,
+      payload,
+      attempt: 1,
+      nextAttemptAt: Date.now(),
+    };
+    await savePending(pending);
+    await deliverTo(endpoint, pending, config).catch(err => console.error('Webhook delivery error:', err));
+  }));
+};
+
+// Picks up deliveries left over from an earlier page load, at their next
+// scheduled attempt. Ones whose endpoint was removed or disabled are dropped.
+export const resumeDeliveries = async (config: WebhookConfig = loadWebhookConfig()): Promise<void> => {
+  const saved = ((await withStore(WEBHOOK_STORE, 'readonly', store => store.getAll())) ?? []) as PendingDelivery[];
+
+  await Promise.all(saved.filter(pending => !inFlight.has(pending.key)).map(async pending => {
+    const endpoint = config.endpoints.find(e => e.id === pending.endpointId && e.enabled && e.url);
+    if (!endpoint) {
+      await removePending(pending.key);
+      return;
+    }
+    await deliverTo(endpoint, pending, config).catch(err => console.error('Webhook delivery error:', err));
+  }));
+};
@@ -1,7 +1,26 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { devApiPlugin } from './server/devApi'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-})
+export default defineConfig(({ mode }) => ({
+  // Load all .env variables (not just VITE_*) for the dev API; none reach the bundle
+  plugins: [react(), devApiPlugin(loadEnv(mode, process.cwd(), ''))],
+  // `vite build --mode lib` packages the scanner alone (see src/embed) for other apps
+  build: mode === 'lib'
+    ? {
+      outDir: 'dist-lib',
+      copyPublicDir: false,
+      lib: {
+        entry: 'src/embed/index.ts',
+        formats: ['es'],
+        fileName: 'barcode-scanner',
+        cssFileName: 'barcode-scanner',
+      },
+      rollupOptions: {
+        // React comes from the host app and the decoders/OCR from npm, not the bundle
+        external: /^(react|react-dom|@zxing|@ericblade|tesseract\.js|pdfjs-dist)(\/|$)/,
+      },
+    }
+    : undefined,
+}))